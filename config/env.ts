@@ -61,6 +61,27 @@ const envSchema = z.object({
   OPENAI_TEMPERATURE: z.coerce.number().default(0.6),
   OPENAI_TIMEOUT: z.coerce.number().default(30000),
 
+  // LLM provider: openai | openai_compatible (self-hosted, /chat/completions) | stub (offline, deterministic)
+  LLM_PROVIDER: z.enum(["openai", "openai_compatible", "stub"]).default("openai"),
+  LLM_BASE_URL: z.string().url().optional().or(z.literal("")),
+  LLM_API_KEY: z.string().optional(),
+  LLM_MODEL: z.string().optional(),
+  // USD per 1M tokens, overrides the built-in price table for cost estimates
+  LLM_INPUT_COST_PER_1M: z.coerce.number().optional(),
+  LLM_OUTPUT_COST_PER_1M: z.coerce.number().optional(),
+  // monthly AI quota for plans without an AiPlanQuota row
+  AI_DEFAULT_MONTHLY_CALLS: z.coerce.number().default(1000),
+  AI_DEFAULT_MONTHLY_TOKENS: z.coerce.number().default(1000000),
+  // checks run on generated replies before posting (comma-separated rule ids)
+  REPLY_GUARDRAIL_RULES: z
+    .string()
+    .default("customer_name,contact_info,ai_mention,refund_promise,banned_phrase,hallucination"),
+  // regenerate a rejected reply this many times before handing it to the manual queue
+  REPLY_GUARDRAIL_MAX_REGENERATIONS: z.coerce.number().int().min(0).default(1),
+  // manual queue SLA (minutes) for plans without an SlaPlanTarget row
+  SLA_FIRST_RESPONSE_MINUTES: z.coerce.number().int().min(1).default(240),
+  SLA_CLOSE_MINUTES: z.coerce.number().int().min(1).default(1440),
+
   // Google My Business
   GOOGLE_CLIENT_ID: z.string().optional(),
   GOOGLE_CLIENT_SECRET: z.string().optional(),
@@ -75,10 +96,39 @@ const envSchema = z.object({
   WHATSAPP_PHONE_NUMBER: z.string().optional().or(z.literal("")),
   WHATSAPP_ACCESS_TOKEN: z.string().optional().or(z.literal("")),
   WHATSAPP_VERIFY_TOKEN: z.string().optional().or(z.literal("")),
+  // Meta app secret; webhook deliveries are signed with it (X-Hub-Signature-256)
+  WHATSAPP_APP_SECRET: z.string().optional().or(z.literal("")),
   WHATSAPP_TEMPLATE_LOW_RATING: z.string().optional(),
   WHATSAPP_TEMPLATE_REMINDER: z.string().optional(),
   WHATSAPP_TEMPLATE_CONFIRMATION: z.string().optional(),
+  // languages the alert templates are approved in, first one is the fallback
+  WHATSAPP_TEMPLATE_LANGUAGES: z.string().default("en_US"),
   WHATSAPP_WEBHOOK_URL: z.string().url().optional().or(z.literal("")),
+  // no reminder while the recipient has read the previous message about the review
+  WHATSAPP_SKIP_READ_REMINDERS: z
+    .string()
+    .transform((v) => v === "true")
+    .default("true"),
+  // email the recipient when a message about a review could not be delivered
+  WHATSAPP_EMAIL_FALLBACK: z
+    .string()
+    .transform((v) => v === "true")
+    .default("true"),
+
+  // Notifications: default channel fallback order (users can set their own)
+  NOTIFICATION_CHANNELS: z.string().default("WHATSAPP,EMAIL"),
+  NOTIFICATION_WEBHOOK_TIMEOUT_MS: z.coerce.number().int().min(100).default(5000),
+  // SMS provider for the SMS channel: none | log | twilio
+  SMS_PROVIDER: z.enum(["none", "log", "twilio"]).default("none"),
+  TWILIO_ACCOUNT_SID: z.string().optional().or(z.literal("")),
+  TWILIO_AUTH_TOKEN: z.string().optional().or(z.literal("")),
+  TWILIO_FROM_NUMBER: z.string().optional().or(z.literal("")),
+
+  // Outbound webhooks (customer integrations)
+  OUTBOUND_WEBHOOK_TIMEOUT_MS: z.coerce.number().int().min(100).default(10000),
+  // retries use the job queue backoff (JOB_BACKOFF_BASE_MS doubling up to JOB_BACKOFF_MAX_MS)
+  OUTBOUND_WEBHOOK_MAX_ATTEMPTS: z.coerce.number().int().min(1).max(20).default(8),
+  OUTBOUND_WEBHOOK_LOG_RETENTION_DAYS: z.coerce.number().int().min(1).default(30),
 
   // Razorpay
   RAZORPAY_KEY_ID: z.string().optional(),
@@ -94,6 +144,19 @@ const envSchema = z.object({
   WHATSAPP_REMINDER_6H: z.coerce.number().default(21600000),
   WHATSAPP_REMINDER_12H: z.coerce.number().default(43200000),
   WHATSAPP_REMINDER_24H: z.coerce.number().default(86400000),
+  // default escalation policy: reminders per target, then the next target in the chain
+  WHATSAPP_REMINDER_MAX: z.coerce.number().int().min(1).default(5),
+  // comma-separated EscalationTarget list, e.g. OWNER,ASSIGNED_ADMIN,SUPER_ADMIN
+  ESCALATION_CHAIN: z.string().default("OWNER"),
+  // time the escalation owner has to resolve it
+  ESCALATION_DUE_HOURS: z.coerce.number().min(1).default(24),
+  // outlets without a timezone (quiet hours)
+  DEFAULT_TIMEZONE: z.string().default("Asia/Kolkata"),
+  JOB_POLL_INTERVAL_MS: z.coerce.number().default(5000),
+  JOB_LEASE_MS: z.coerce.number().default(300000),
+  JOB_MAX_ATTEMPTS: z.coerce.number().default(5),
+  JOB_BACKOFF_BASE_MS: z.coerce.number().default(30000),
+  JOB_BACKOFF_MAX_MS: z.coerce.number().default(3600000),
 
   // Security
   RATE_LIMIT_WINDOW: z.coerce.number().default(15),
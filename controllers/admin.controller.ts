@@ -13,6 +13,8 @@ import { integrationsController } from "./integrations.controller"
 import { gmbService } from "../integrations/gmb.js"
 import { whatsappService } from "../integrations/whatsapp"
 import { emailService } from "../services/email.service"
+import { replyTemplateService, TemplateReplySchema } from "../services/reply-template.service"
+import { outboundWebhookService } from "../services/outbound-webhook.service"
 
 const outletRepo = outletsRepository
 const manualQueueRepo = new ManualReviewQueueRepository(prisma)
@@ -380,6 +382,13 @@ export class AdminController {
         await billingRepository.updateSubscriptionStatus(outletId, billingStatus)
       }
 
+      await outboundWebhookService.subscriptionChanged(outletId, {
+        subscriptionStatus: updated.subscriptionStatus,
+        apiStatus: updated.apiStatus,
+        billingStatus: billingStatus ?? null,
+        source: "admin",
+      })
+
       logger.info(`Subscription updated for outlet ${outletId} by admin ${req.userId}`)
 
       res.status(200).json({
@@ -415,7 +424,7 @@ export class AdminController {
 
   async getManualReviewQueue(req: AuthRequest, res: Response): Promise<void> {
     try {
-      const { status } = req.query
+      const { status, assignedAdminId } = req.query
 
       const whereClause: any = {}
 
@@ -423,6 +432,11 @@ export class AdminController {
         whereClause.status = status
       }
 
+      // "unassigned" = items nobody holds
+      if (assignedAdminId) {
+        whereClause.assignedAdminId = assignedAdminId === "unassigned" ? null : assignedAdminId
+      }
+
       const queue = await prisma.manualReviewQueue.findMany({
         where: whereClause,
         include: {
@@ -462,10 +476,20 @@ export class AdminController {
   async submitManualReply(req: AuthRequest, res: Response): Promise<void> {
     try {
       const { reviewId } = req.params
-      const { replyText } = req.body
+      let { replyText } = req.body
+
+      // either free text or a library template (templateId + overrides)
+      const fromTemplate = req.body?.templateId ? TemplateReplySchema.safeParse(req.body) : null
+      if (fromTemplate && !fromTemplate.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: fromTemplate.error.formErrors.fieldErrors,
+        })
+        return
+      }
 
-      if (!replyText || typeof replyText !== "string" || replyText.trim().length === 0) {
-        res.status(400).json({ error: "Reply text is required" })
+      if (!fromTemplate && (!replyText || typeof replyText !== "string" || replyText.trim().length === 0)) {
+        res.status(400).json({ error: "Reply text or templateId is required" })
         return
       }
 
@@ -487,19 +511,28 @@ export class AdminController {
         return
       }
 
+      if (fromTemplate?.success) {
+        const { templateId, overrides } = fromTemplate.data
+        replyText = await replyTemplateService.renderForReview(templateId, review, review.outlet, overrides)
+        if (!replyText) {
+          res.status(404).json({ error: "Reply template not found" })
+          return
+        }
+      }
+
       // Update review with manual reply
       await prisma.review.update({
         where: { id: reviewId },
         data: {
           manualReplyText: replyText,
+          replyTemplateId: fromTemplate?.success ? fromTemplate.data.templateId : null,
+          repliedAt: new Date(),
           status: "CLOSED",
         },
       })
 
-      // Mark queue item as responded
-      if (review.manualQueue) {
-        await manualQueueRepo.markAsResponded(review.manualQueue.id)
-      }
+      // Mark queue item as responded and resolve escalations (also for unqueued reviews)
+      await manualQueueRepo.markReviewResponded(reviewId)
 
       // Post to GMB if credentials available
       if (review.outlet.user.googleRefreshToken && review.outlet.googleLocationName && review.googleReviewId) {
@@ -512,6 +545,8 @@ export class AdminController {
         )
       }
 
+      await outboundWebhookService.reviewReplied(reviewId, { text: replyText, source: "admin" })
+
       logger.info(`Manual reply submitted for review ${reviewId} by admin ${req.userId}`)
 
       res.status(200).json({
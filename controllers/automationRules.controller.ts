@@ -0,0 +1,235 @@
+import type { Request, Response } from "express"
+import { z } from "zod"
+import { AutomationAction, ReviewUrgency, Sentiment } from "@prisma/client"
+import { automationRuleRepository } from "../repository/automation-rule.repo"
+import { outletsRepository } from "../repository/outlets.repo"
+import { auditRepository } from "../repository/audit.repo"
+import { automationPolicyService } from "../services/automation-policy.service"
+import { reviewAnalysisService } from "../services/review-analysis.service"
+import { REVIEW_TOPICS } from "../integrations/llm"
+import { logger } from "../utils/logger"
+
+const RatingSchema = z.number().int().min(1).max(5)
+const LengthSchema = z.number().int().min(0)
+const SentimentScoreSchema = z.number().min(-1).max(1)
+
+const AutomationRuleSchema = z
+  .object({
+    name: z.string().min(1, { message: "name is required" }),
+    priority: z.number().int().default(100),
+    enabled: z.boolean().default(true),
+    action: z.nativeEnum(AutomationAction),
+    minRating: RatingSchema.nullable().optional(),
+    maxRating: RatingSchema.nullable().optional(),
+    keywords: z.array(z.string().min(1)).default([]),
+    sentiment: z.nativeEnum(Sentiment).nullable().optional(),
+    minTextLength: LengthSchema.nullable().optional(),
+    maxTextLength: LengthSchema.nullable().optional(),
+    reviewerNames: z.array(z.string().min(1)).default([]),
+    topics: z.array(z.enum(REVIEW_TOPICS)).default([]),
+    minUrgency: z.nativeEnum(ReviewUrgency).nullable().optional(),
+    minSentimentScore: SentimentScoreSchema.nullable().optional(),
+    maxSentimentScore: SentimentScoreSchema.nullable().optional(),
+    safetyOrLegalOnly: z.boolean().default(false),
+  })
+  .refine((r) => r.minRating == null || r.maxRating == null || r.minRating <= r.maxRating, {
+    message: "minRating must be <= maxRating",
+    path: ["minRating"],
+  })
+  .refine((r) => r.minTextLength == null || r.maxTextLength == null || r.minTextLength <= r.maxTextLength, {
+    message: "minTextLength must be <= maxTextLength",
+    path: ["minTextLength"],
+  })
+  .refine(
+    (r) => r.minSentimentScore == null || r.maxSentimentScore == null || r.minSentimentScore <= r.maxSentimentScore,
+    { message: "minSentimentScore must be <= maxSentimentScore", path: ["minSentimentScore"] }
+  )
+
+const AutomationRuleUpdateSchema = AutomationRuleSchema.innerType().innerType().innerType().partial()
+
+const PolicyPreviewSchema = z.object({
+  rating: RatingSchema,
+  reviewText: z.string().default(""),
+  customerName: z.string().default("Customer"),
+})
+
+export class AutomationRulesController {
+  /**
+   * GET /api/outlets/:id/automation-rules
+   */
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+
+      const outlet = await outletsRepository.getOutletById(id)
+      if (!outlet) {
+        res.status(404).json({ error: "Outlet not found" })
+        return
+      }
+
+      const rules = await automationRuleRepository.getByOutlet(id)
+      res.status(200).json({ rules })
+    } catch (error) {
+      logger.error("Failed to fetch automation rules", error)
+      res.status(500).json({ error: "Failed to fetch automation rules" })
+    }
+  }
+
+  /**
+   * POST /api/outlets/:id/automation-rules
+   */
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const userId = (req as any).userId
+
+      const validation = AutomationRuleSchema.safeParse(req.body)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const outlet = await outletsRepository.getOutletById(id)
+      if (!outlet) {
+        res.status(404).json({ error: "Outlet not found" })
+        return
+      }
+
+      const rule = await automationRuleRepository.create(id, validation.data)
+
+      await auditRepository.createAuditLog({
+        action: "AUTOMATION_RULE_CREATED",
+        entity: "AutomationRule",
+        entityId: rule.id,
+        userId,
+        outletId: id,
+        details: validation.data,
+      })
+
+      res.status(201).json({ message: "Automation rule created", rule })
+    } catch (error) {
+      logger.error("Failed to create automation rule", error)
+      res.status(500).json({ error: "Failed to create automation rule" })
+    }
+  }
+
+  /**
+   * PUT /api/outlets/:id/automation-rules/:ruleId
+   */
+  async update(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, ruleId } = req.params
+      const userId = (req as any).userId
+
+      const validation = AutomationRuleUpdateSchema.safeParse(req.body)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const existing = await automationRuleRepository.getById(ruleId)
+      if (!existing || existing.outletId !== id) {
+        res.status(404).json({ error: "Automation rule not found" })
+        return
+      }
+
+      // re-check ranges against the merged rule
+      const merged = AutomationRuleSchema.safeParse({ ...existing, ...validation.data })
+      if (!merged.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: merged.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const rule = await automationRuleRepository.update(ruleId, validation.data)
+
+      await auditRepository.createAuditLog({
+        action: "AUTOMATION_RULE_UPDATED",
+        entity: "AutomationRule",
+        entityId: rule.id,
+        userId,
+        outletId: id,
+        details: validation.data,
+      })
+
+      res.status(200).json({ message: "Automation rule updated", rule })
+    } catch (error) {
+      logger.error("Failed to update automation rule", error)
+      res.status(500).json({ error: "Failed to update automation rule" })
+    }
+  }
+
+  /**
+   * DELETE /api/outlets/:id/automation-rules/:ruleId
+   */
+  async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, ruleId } = req.params
+      const userId = (req as any).userId
+
+      const existing = await automationRuleRepository.getById(ruleId)
+      if (!existing || existing.outletId !== id) {
+        res.status(404).json({ error: "Automation rule not found" })
+        return
+      }
+
+      await automationRuleRepository.delete(ruleId)
+
+      await auditRepository.createAuditLog({
+        action: "AUTOMATION_RULE_DELETED",
+        entity: "AutomationRule",
+        entityId: ruleId,
+        userId,
+        outletId: id,
+      })
+
+      res.status(200).json({ message: "Automation rule deleted" })
+    } catch (error) {
+      logger.error("Failed to delete automation rule", error)
+      res.status(500).json({ error: "Failed to delete automation rule" })
+    }
+  }
+
+  /**
+   * POST /api/outlets/:id/automation-rules/preview
+   * Dry-run the outlet policy against a sample review
+   */
+  async preview(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+
+      const validation = PolicyPreviewSchema.safeParse(req.body)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const outlet = await outletsRepository.getOutletById(id)
+      if (!outlet) {
+        res.status(404).json({ error: "Outlet not found" })
+        return
+      }
+
+      // same analysis ingestion runs, so topic/urgency/safety rules can be tried
+      const analysis = await reviewAnalysisService.analyze(validation.data, { outletId: id })
+      const decision = await automationPolicyService.evaluate(id, { ...validation.data, analysis })
+      res.status(200).json({ decision, analysis })
+    } catch (error) {
+      logger.error("Failed to preview automation policy", error)
+      res.status(500).json({ error: "Failed to preview automation policy" })
+    }
+  }
+}
+
+export const automationRulesController = new AutomationRulesController()
@@ -2,7 +2,19 @@ import { Request, Response } from "express";
 import { billingRepository } from "../repository/billing.repo";
 import { logger } from "../utils/logger";
 import { auditRepository } from "../repository/audit.repo";
-import { SubscriptionStatus } from "@prisma/client";
+import { aiGenerationLogRepository } from "../repository/ai-generation-log.repo";
+import { SubscriptionPlan, SubscriptionStatus } from "@prisma/client";
+import { z } from "zod";
+import { aiQuotaRepository } from "../repository/ai-quota.repo";
+import { aiQuotaService } from "../services/ai-quota.service";
+import { outboundWebhookService } from "../services/outbound-webhook.service";
+
+const QuotaLimitSchema = z.number().int().min(0).nullable();
+
+const AiPlanQuotaSchema = z.object({
+  monthlyCalls: QuotaLimitSchema,
+  monthlyTokens: QuotaLimitSchema,
+});
 
 export class BillingController {
   async getByOutlet(req: Request, res: Response): Promise<void> {
@@ -76,6 +88,8 @@ export class BillingController {
           userId: actorId,
           details: { status }
         })
+
+        await outboundWebhookService.subscriptionChanged(outletId, { billingStatus: billing.status, source: "billing" });
       }
     } catch (error) {
       logger.error("Failed to update billing status", error);
@@ -83,6 +97,112 @@ export class BillingController {
     }
   }
 
+  /**
+   * AI usage for an outlet; defaults to the current calendar month (UTC)
+   */
+  async getAiUsage(req: Request, res: Response): Promise<void> {
+    try {
+      const { outletId } = req.params;
+      const { from, to } = req.query;
+
+      const monthStart = new Date();
+      monthStart.setUTCDate(1);
+      monthStart.setUTCHours(0, 0, 0, 0);
+
+      const fromDate = from ? new Date(String(from)) : monthStart;
+      const toDate = to ? new Date(String(to)) : new Date();
+
+      if (Number.isNaN(fromDate.getTime()) || Number.isNaN(toDate.getTime())) {
+        res.status(400).json({ error: "from/to must be valid dates" });
+        return;
+      }
+
+      const usage = await aiGenerationLogRepository.getOutletUsage(outletId, fromDate, toDate);
+      res.status(200).json(usage);
+    } catch (error) {
+      logger.error("Failed to fetch AI usage", error);
+      res.status(500).json({ error: "Failed to fetch AI usage" });
+    }
+  }
+
+  /**
+   * Current month AI quota status for an outlet
+   */
+  async getAiQuota(req: Request, res: Response): Promise<void> {
+    try {
+      const { outletId } = req.params;
+
+      const status = await aiQuotaService.getStatus(outletId);
+      if (!status) {
+        res.status(404).json({ error: "Outlet not found" });
+        return;
+      }
+
+      res.status(200).json(status);
+    } catch (error) {
+      logger.error("Failed to fetch AI quota", error);
+      res.status(500).json({ error: "Failed to fetch AI quota" });
+    }
+  }
+
+  /**
+   * AI quota for every plan (env defaults where not configured)
+   */
+  async getAiPlanQuotas(req: Request, res: Response): Promise<void> {
+    try {
+      const quotas = await Promise.all(
+        Object.values(SubscriptionPlan).map(async (plan) => ({
+          plan,
+          ...(await aiQuotaService.getQuota(plan)),
+        }))
+      );
+
+      res.status(200).json(quotas);
+    } catch (error) {
+      logger.error("Failed to fetch AI plan quotas", error);
+      res.status(500).json({ error: "Failed to fetch AI plan quotas" });
+    }
+  }
+
+  /**
+   * Set monthly AI calls/tokens for a plan (null = unlimited)
+   */
+  async updateAiPlanQuota(req: Request, res: Response): Promise<void> {
+    try {
+      const plan = req.params.plan as SubscriptionPlan;
+      const actorId = (req as any).userId;
+
+      if (!Object.values(SubscriptionPlan).includes(plan)) {
+        res.status(400).json({ error: "Invalid subscription plan" });
+        return;
+      }
+
+      const validation = AiPlanQuotaSchema.safeParse(req.body);
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        });
+        return;
+      }
+
+      const quota = await aiQuotaRepository.upsertPlanQuota(plan, validation.data);
+
+      await auditRepository.createAuditLog({
+        action: "AI_PLAN_QUOTA_UPDATED",
+        entity: "AiPlanQuota",
+        entityId: plan,
+        userId: actorId,
+        details: validation.data,
+      });
+
+      res.status(200).json({ message: "AI quota updated", quota });
+    } catch (error) {
+      logger.error("Failed to update AI plan quota", error);
+      res.status(500).json({ error: "Failed to update AI plan quota" });
+    }
+  }
+
   async stats(req: Request, res: Response): Promise<void> {
     try {
       const stats = await billingRepository.getBillingStats();
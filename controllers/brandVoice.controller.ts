@@ -0,0 +1,200 @@
+import type { Request, Response } from "express"
+import { z } from "zod"
+import { brandVoiceRepository } from "../repository/brand-voice.repo"
+import { outletsRepository } from "../repository/outlets.repo"
+import { auditRepository } from "../repository/audit.repo"
+import { openaiService, type BrandVoice } from "../integrations/openai"
+import { logger } from "../utils/logger"
+import { detectLanguage } from "../utils/language"
+import { replyGuardrailService } from "../services/reply-guardrail.service"
+
+const PhraseListSchema = z.array(z.string().trim().min(1).max(200)).max(20)
+
+const BrandVoiceSchema = z
+  .object({
+    tone: z.string().trim().min(1).max(200).default("professional, warm, human"),
+    signOff: z.string().trim().max(120).nullable().optional(),
+    mandatoryPhrases: PhraseListSchema.default([]),
+    bannedPhrases: PhraseListSchema.default([]),
+    language: z.string().trim().min(2).max(20).default("en"),
+    maxWords: z.number().int().min(10).max(200).default(40),
+    allowContactInfo: z.boolean().default(false),
+    contactInfo: z.string().trim().max(200).nullable().optional(),
+  })
+  .refine((v) => !v.allowContactInfo || !!v.contactInfo, {
+    message: "contactInfo is required when allowContactInfo is true",
+    path: ["contactInfo"],
+  })
+
+const PreviewSchema = z.object({
+  rating: z.number().int().min(1).max(5).default(5),
+  customerName: z.string().default("Alex"),
+  reviewText: z.string().default("Great service and friendly staff, will definitely come back!"),
+  // unsaved settings to try before saving
+  voice: BrandVoiceSchema.innerType().partial().optional(),
+})
+
+const DEFAULT_VOICE: BrandVoice = {
+  tone: "professional, warm, human",
+  signOff: null,
+  mandatoryPhrases: [],
+  bannedPhrases: [],
+  language: "en",
+  maxWords: 40,
+  allowContactInfo: false,
+  contactInfo: null,
+}
+
+export class BrandVoiceController {
+  /**
+   * GET /api/outlets/:id/brand-voice
+   */
+  async get(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+
+      const outlet = await outletsRepository.getOutletById(id)
+      if (!outlet) {
+        res.status(404).json({ error: "Outlet not found" })
+        return
+      }
+
+      const profile = await brandVoiceRepository.getByOutletId(id)
+      res.status(200).json({ brandVoice: profile ?? { outletId: id, ...DEFAULT_VOICE }, isDefault: !profile })
+    } catch (error) {
+      logger.error("Failed to fetch brand voice", error)
+      res.status(500).json({ error: "Failed to fetch brand voice" })
+    }
+  }
+
+  /**
+   * PUT /api/outlets/:id/brand-voice
+   */
+  async upsert(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const userId = (req as any).userId
+
+      const validation = BrandVoiceSchema.safeParse(req.body)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const outlet = await outletsRepository.getOutletById(id)
+      if (!outlet) {
+        res.status(404).json({ error: "Outlet not found" })
+        return
+      }
+
+      const profile = await brandVoiceRepository.upsert(id, validation.data)
+
+      await auditRepository.createAuditLog({
+        action: "BRAND_VOICE_UPDATED",
+        entity: "BrandVoiceProfile",
+        entityId: id,
+        userId,
+        outletId: id,
+        details: validation.data,
+      })
+
+      res.status(200).json({ message: "Brand voice saved", brandVoice: profile })
+    } catch (error) {
+      logger.error("Failed to save brand voice", error)
+      res.status(500).json({ error: "Failed to save brand voice" })
+    }
+  }
+
+  /**
+   * DELETE /api/outlets/:id/brand-voice
+   * Reset to the default voice
+   */
+  async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const userId = (req as any).userId
+
+      await brandVoiceRepository.delete(id)
+
+      await auditRepository.createAuditLog({
+        action: "BRAND_VOICE_RESET",
+        entity: "BrandVoiceProfile",
+        entityId: id,
+        userId,
+        outletId: id,
+      })
+
+      res.status(200).json({ message: "Brand voice reset to default" })
+    } catch (error) {
+      logger.error("Failed to reset brand voice", error)
+      res.status(500).json({ error: "Failed to reset brand voice" })
+    }
+  }
+
+  /**
+   * POST /api/outlets/:id/brand-voice/preview
+   * Render a sample reply with the saved voice (or unsaved body.voice overrides)
+   */
+  async preview(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+
+      const validation = PreviewSchema.safeParse(req.body ?? {})
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const outlet = await outletsRepository.getOutletById(id)
+      if (!outlet) {
+        res.status(404).json({ error: "Outlet not found" })
+        return
+      }
+
+      const saved = await brandVoiceRepository.getByOutletId(id)
+      const { rating, customerName, reviewText, voice: overrides } = validation.data
+
+      const voice: BrandVoice = {
+        ...DEFAULT_VOICE,
+        ...(saved ?? {}),
+        ...(overrides ?? {}),
+      }
+
+      const reply = await openaiService.generateReply({
+        rating,
+        customerName,
+        reviewText,
+        outletName: outlet.name,
+        storeLocation: outlet.name,
+        businessCategory: outlet.category,
+        voice,
+        language: detectLanguage(reviewText),
+      }, { outletId: id })
+
+      if (!reply) {
+        res.status(502).json({ error: "Failed to generate preview reply" })
+        return
+      }
+
+      // same checks the worker runs before posting
+      const violations = replyGuardrailService.validate(
+        reply,
+        { rating, customerName, reviewText, outletName: outlet.name, businessCategory: outlet.category, voice },
+        replyGuardrailService.enabledRules(outlet)
+      )
+
+      res.status(200).json({ reply, voice, violations })
+    } catch (error) {
+      logger.error("Failed to preview brand voice", error)
+      res.status(500).json({ error: "Failed to preview brand voice" })
+    }
+  }
+}
+
+export const brandVoiceController = new BrandVoiceController()
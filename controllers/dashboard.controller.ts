@@ -2,6 +2,7 @@ import type { Request, Response } from "express"
 import { prisma } from "../database"
 import { logger } from "../utils/logger"
 import { auditRepository } from "../repository/audit.repo"
+import { aiGenerationLogRepository } from "../repository/ai-generation-log.repo"
 
 export class DashboardController {
   /**
@@ -10,7 +11,11 @@ export class DashboardController {
   async getMetrics(_req: Request, res: Response): Promise<void> {
     try {
       // parallel queries improve speed
-      const [adminCount, activeOutlets, escalatedReviews, aiReplies, avgRating, apiKeyOutlets] = await Promise.all([
+      const monthStart = new Date()
+      monthStart.setUTCDate(1)
+      monthStart.setUTCHours(0, 0, 0, 0)
+
+      const [adminCount, activeOutlets, escalatedReviews, aiReplies, avgRating, apiKeyOutlets, aiUsage] = await Promise.all([
         prisma.user.count({
           where: { deletedAt: null },
         }),
@@ -34,6 +39,8 @@ export class DashboardController {
         prisma.apiKey.count({
           where: { isActive: true },
         }),
+
+        aiGenerationLogRepository.getTotals(monthStart),
       ])
 
       res.json({
@@ -43,6 +50,12 @@ export class DashboardController {
         ai_replied_count: aiReplies,
         avg_rating: avgRating._avg.rating ?? 0,
         outlets_with_api_keys: apiKeyOutlets,
+        ai_usage_this_month: {
+          calls: aiUsage.calls,
+          input_tokens: aiUsage.inputTokens,
+          output_tokens: aiUsage.outputTokens,
+          estimated_cost_usd: aiUsage.estimatedCostUsd,
+        },
       })
     } catch (error) {
       logger.error("Failed to fetch dashboard metrics", error)
@@ -52,6 +65,26 @@ export class DashboardController {
     }
   }
 
+  /**
+   * AI usage per outlet over the last `days` days (default 30)
+   */
+  async getAiUsage(req: Request, res: Response): Promise<void> {
+    try {
+      const days = Math.min(Math.max(Number.parseInt((req.query.days as string) || "30", 10) || 30, 1), 365)
+      const from = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+
+      const [totals, outlets] = await Promise.all([
+        aiGenerationLogRepository.getTotals(from),
+        aiGenerationLogRepository.getUsageByOutlet(from),
+      ])
+
+      res.status(200).json({ days, totals, outlets })
+    } catch (error) {
+      logger.error("Failed to fetch AI usage", error)
+      res.status(500).json({ error: "Failed to fetch AI usage" })
+    }
+  }
+
   async getRecentActivities(req: Request, res: Response): Promise<void> {
     try {
       const logs = await auditRepository.getRecentAuditLogs(10)
@@ -0,0 +1,138 @@
+import type { Request, Response } from "express"
+import { z } from "zod"
+import { EscalationTarget } from "@prisma/client"
+import { escalationPolicyRepository } from "../repository/escalation-policy.repo"
+import { outletsRepository } from "../repository/outlets.repo"
+import { auditRepository } from "../repository/audit.repo"
+import { isValidTimezone, TIME_OF_DAY_PATTERN } from "../utils/quiet-hours"
+import { logger } from "../utils/logger"
+
+const TimeOfDaySchema = z.string().regex(TIME_OF_DAY_PATTERN, { message: "Use HH:mm (24h)" })
+
+const EscalationPolicySchema = z
+  .object({
+    // up to 7 days between reminders
+    reminderIntervalsMinutes: z.array(z.number().int().min(1).max(7 * 24 * 60)).min(1).max(10),
+    maxReminders: z.number().int().min(1).max(20).default(5),
+    chain: z
+      .array(z.nativeEnum(EscalationTarget))
+      .min(1)
+      .refine((chain) => new Set(chain).size === chain.length, { message: "Targets must be unique" }),
+    quietHoursStart: TimeOfDaySchema.nullable().optional(),
+    quietHoursEnd: TimeOfDaySchema.nullable().optional(),
+    // stored on the outlet; null = DEFAULT_TIMEZONE
+    timezone: z
+      .string()
+      .refine(isValidTimezone, { message: "Unknown IANA timezone" })
+      .nullable()
+      .optional(),
+  })
+  .refine((p) => !p.quietHoursStart === !p.quietHoursEnd, {
+    message: "quietHoursStart and quietHoursEnd must be set together",
+    path: ["quietHoursStart"],
+  })
+
+export class EscalationPolicyController {
+  /**
+   * GET /api/outlets/:id/escalation-policy
+   * Effective policy (defaults when the outlet has none)
+   */
+  async get(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+
+      const outlet = await outletsRepository.getOutletById(id)
+      if (!outlet) {
+        res.status(404).json({ error: "Outlet not found" })
+        return
+      }
+
+      const policy = await escalationPolicyRepository.resolve(id)
+      res.status(200).json({ escalationPolicy: policy, isDefault: policy.isDefault })
+    } catch (error) {
+      logger.error("Failed to fetch escalation policy", error)
+      res.status(500).json({ error: "Failed to fetch escalation policy" })
+    }
+  }
+
+  /**
+   * PUT /api/outlets/:id/escalation-policy
+   * Applies from the next reminder of each queued review
+   */
+  async upsert(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const userId = (req as any).userId
+
+      const validation = EscalationPolicySchema.safeParse(req.body)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const outlet = await outletsRepository.getOutletById(id)
+      if (!outlet) {
+        res.status(404).json({ error: "Outlet not found" })
+        return
+      }
+
+      const { timezone, ...policy } = validation.data
+      await escalationPolicyRepository.upsert(id, {
+        ...policy,
+        quietHoursStart: policy.quietHoursStart ?? null,
+        quietHoursEnd: policy.quietHoursEnd ?? null,
+      })
+      if (timezone !== undefined) {
+        await outletsRepository.update(id, { timezone })
+      }
+
+      await auditRepository.createAuditLog({
+        action: "ESCALATION_POLICY_UPDATED",
+        entity: "EscalationPolicy",
+        entityId: id,
+        userId,
+        outletId: id,
+        details: validation.data,
+      })
+
+      res.status(200).json({
+        message: "Escalation policy saved",
+        escalationPolicy: await escalationPolicyRepository.resolve(id),
+      })
+    } catch (error) {
+      logger.error("Failed to save escalation policy", error)
+      res.status(500).json({ error: "Failed to save escalation policy" })
+    }
+  }
+
+  /**
+   * DELETE /api/outlets/:id/escalation-policy
+   * Back to the default ladder (the outlet keeps its timezone)
+   */
+  async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const userId = (req as any).userId
+
+      await escalationPolicyRepository.delete(id)
+
+      await auditRepository.createAuditLog({
+        action: "ESCALATION_POLICY_RESET",
+        entity: "EscalationPolicy",
+        entityId: id,
+        userId,
+        outletId: id,
+      })
+
+      res.status(200).json({ message: "Escalation policy reset to default" })
+    } catch (error) {
+      logger.error("Failed to reset escalation policy", error)
+      res.status(500).json({ error: "Failed to reset escalation policy" })
+    }
+  }
+}
+
+export const escalationPolicyController = new EscalationPolicyController()
@@ -0,0 +1,227 @@
+import type { Request, Response } from "express"
+import { z } from "zod"
+import { EscalationStatus, UserRole } from "@prisma/client"
+import { prisma } from "../database"
+import { escalationRepository } from "../repository/escalation.repo"
+import { ManualReviewQueueRepository } from "../repository/manual-review-queue.repo"
+import { usersRepository } from "../repository/users.repo"
+import { auditRepository } from "../repository/audit.repo"
+import { logger } from "../utils/logger"
+
+const manualQueueRepo = new ManualReviewQueueRepository(prisma)
+
+const InboxQuerySchema = z.object({
+  status: z.nativeEnum(EscalationStatus).optional(),
+  outletId: z.string().min(1).optional(),
+  // only escalations owned by the caller
+  mine: z.enum(["true", "false"]).optional(),
+  overdue: z.enum(["true", "false"]).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+})
+
+const ResolveSchema = z.object({
+  note: z.string().trim().max(1000).optional(),
+})
+
+const AssignSchema = z.object({
+  ownerId: z.string().min(1).nullable(),
+})
+
+export class EscalationsController {
+  /**
+   * GET /api/admin/escalations
+   * Inbox: active escalations first, soonest due first, plus counts per status
+   */
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const validation = InboxQuerySchema.safeParse(req.query)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const { status, outletId, mine, overdue, limit } = validation.data
+      const [{ escalations, total }, counts] = await Promise.all([
+        escalationRepository.list(
+          {
+            status,
+            outletId,
+            ownerId: mine === "true" ? (req as any).userId : undefined,
+            overdue: overdue === "true",
+          },
+          limit
+        ),
+        escalationRepository.countByStatus(),
+      ])
+
+      res.status(200).json({ escalations, total, counts })
+    } catch (error) {
+      logger.error("Failed to fetch escalations", error)
+      res.status(500).json({ error: "Failed to fetch escalations" })
+    }
+  }
+
+  /**
+   * GET /api/admin/escalations/:id
+   */
+  async get(req: Request, res: Response): Promise<void> {
+    try {
+      const escalation = await escalationRepository.getById(req.params.id)
+      if (!escalation) {
+        res.status(404).json({ error: "Escalation not found" })
+        return
+      }
+
+      res.status(200).json({ escalation })
+    } catch (error) {
+      logger.error("Failed to fetch escalation", error)
+      res.status(500).json({ error: "Failed to fetch escalation" })
+    }
+  }
+
+  /**
+   * POST /api/admin/escalations/:id/acknowledge
+   * Takes ownership if nobody owns it; counts as the first response on the queue item
+   */
+  async acknowledge(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const userId = (req as any).userId
+
+      const escalation = await escalationRepository.getById(id)
+      if (!escalation) {
+        res.status(404).json({ error: "Escalation not found" })
+        return
+      }
+
+      const acknowledged = await escalationRepository.acknowledge(id, userId)
+      if (!acknowledged) {
+        res.status(409).json({ error: `Escalation is already ${escalation.status.toLowerCase()}` })
+        return
+      }
+
+      await manualQueueRepo.recordFirstResponse(escalation.reviewId)
+
+      await auditRepository.createAuditLog({
+        action: "ESCALATION_ACKNOWLEDGED",
+        entity: "Escalation",
+        entityId: id,
+        userId,
+        outletId: escalation.outletId,
+        details: { reviewId: escalation.reviewId },
+      })
+
+      res.status(200).json({
+        message: "Escalation acknowledged",
+        escalation: await escalationRepository.getById(id),
+      })
+    } catch (error) {
+      logger.error("Failed to acknowledge escalation", error)
+      res.status(500).json({ error: "Failed to acknowledge escalation" })
+    }
+  }
+
+  /**
+   * POST /api/admin/escalations/:id/resolve
+   * Closes the escalation only; the review still needs a reply to leave the queue
+   */
+  async resolve(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const userId = (req as any).userId
+
+      const validation = ResolveSchema.safeParse(req.body ?? {})
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const escalation = await escalationRepository.getById(id)
+      if (!escalation) {
+        res.status(404).json({ error: "Escalation not found" })
+        return
+      }
+
+      const resolved = await escalationRepository.resolve(id, userId, validation.data.note || null)
+      if (!resolved) {
+        res.status(409).json({ error: "Escalation is already resolved" })
+        return
+      }
+
+      await auditRepository.createAuditLog({
+        action: "ESCALATION_RESOLVED",
+        entity: "Escalation",
+        entityId: id,
+        userId,
+        outletId: escalation.outletId,
+        details: { reviewId: escalation.reviewId, note: validation.data.note ?? null },
+      })
+
+      res.status(200).json({
+        message: "Escalation resolved",
+        escalation: await escalationRepository.getById(id),
+      })
+    } catch (error) {
+      logger.error("Failed to resolve escalation", error)
+      res.status(500).json({ error: "Failed to resolve escalation" })
+    }
+  }
+
+  /**
+   * PUT /api/admin/escalations/:id/owner
+   */
+  async assign(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const userId = (req as any).userId
+
+      const validation = AssignSchema.safeParse(req.body)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const { ownerId } = validation.data
+      if (ownerId) {
+        const owner = await usersRepository.getUserById(ownerId)
+        if (!owner || owner.deletedAt || owner.role === UserRole.USER) {
+          res.status(400).json({ error: "Owner must be an active admin" })
+          return
+        }
+      }
+
+      const existing = await escalationRepository.getById(id)
+      if (!existing) {
+        res.status(404).json({ error: "Escalation not found" })
+        return
+      }
+
+      const escalation = await escalationRepository.assignOwner(id, ownerId)
+
+      await auditRepository.createAuditLog({
+        action: "ESCALATION_OWNER_CHANGED",
+        entity: "Escalation",
+        entityId: id,
+        userId,
+        outletId: existing.outletId,
+        details: { from: existing.ownerId, to: ownerId },
+      })
+
+      res.status(200).json({ message: "Escalation owner updated", escalation })
+    } catch (error) {
+      logger.error("Failed to update escalation owner", error)
+      res.status(500).json({ error: "Failed to update escalation owner" })
+    }
+  }
+}
+
+export const escalationsController = new EscalationsController()
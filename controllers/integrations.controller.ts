@@ -1,11 +1,24 @@
 import type { Request, Response } from "express";
+import { z } from "zod";
 import type { AuthRequest } from "../middleware/auth.middleware";
 import { whatsappService } from "../integrations/whatsapp";
 import { gmbService } from "../integrations/gmb";
 import { openaiService } from "../integrations/openai";
 import { googleConnectTokenRepository } from "../repository/google-connect-token.repo";
 import { googleIntegrationRepository } from "../repository/google-integration.repo";
+import { brandVoiceRepository } from "../repository/brand-voice.repo";
+import { outletsRepository } from "../repository/outlets.repo";
+import { whatsappReplyService } from "../services/whatsapp-reply.service";
+import { whatsappDeliveryService } from "../services/whatsapp-delivery.service";
+import { webhookEventRepository } from "../repository/webhook-event.repo";
+import { recordWebhookRejection } from "../middleware/webhook-signature.middleware";
 import { logger } from "../utils/logger";
+import { detectLanguage } from "../utils/language";
+
+const WebhookRejectionsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(7),
+  provider: z.string().min(1).optional(),
+});
 
 export class IntegrationsController {
   /**
@@ -207,40 +220,128 @@ export class IntegrationsController {
    */
 
   /**
-   * WhatsApp webhook handler (verification + incoming messages)
+   * WhatsApp webhook verification handshake (GET with hub.mode / hub.verify_token / hub.challenge)
+   */
+  async verifyWhatsAppWebhook(req: Request, res: Response): Promise<void> {
+    try {
+      const mode = req.query["hub.mode"];
+      const token = req.query["hub.verify_token"];
+      const challenge = req.query["hub.challenge"];
+
+      if (mode === "subscribe" && typeof token === "string" && whatsappService.verifyWebhook(token)) {
+        logger.info("WhatsApp webhook verified");
+        res.status(200).type("text/plain").send(String(challenge ?? ""));
+        return;
+      }
+
+      await recordWebhookRejection("whatsapp", "invalid_verify_token", req);
+      res.status(403).json({ error: "Invalid verify token" });
+    } catch (error) {
+      logger.error("Failed to verify WhatsApp webhook", error);
+      res.status(500).json({ error: "Failed to verify webhook" });
+    }
+  }
+
+  /**
+   * WhatsApp webhook deliveries (signature checked by verifyWhatsAppSignature).
+   * Each message/status is processed once; redelivered events are skipped.
+   * If any event fails, its claim is dropped and the delivery gets a 500 so
+   * Meta sends it again (events that went through are skipped then).
    */
   async handleWhatsAppWebhook(req: Request, res: Response): Promise<void> {
     try {
-      const hub = req.query.hub as any;
+      // Incoming message event: replies to review alerts/reminders
+      const messages = whatsappService.parseIncomingMessages(req.body);
+      const statuses = whatsappService.parseStatusUpdates(req.body);
+
+      logger.info("Received WhatsApp webhook", {
+        from: messages[0]?.from,
+        messages: messages.length,
+        statuses: statuses.length,
+      });
 
-      // Verification handshake
-      if (hub && hub.mode === "subscribe" && hub.verify_token) {
-        const isValid = whatsappService.verifyWebhook(hub.verify_token as string);
+      let duplicates = 0;
+      let failed = 0;
 
-        if (isValid) {
-          res.status(200).send(hub.challenge);
-          logger.info("WhatsApp webhook verified");
-          return;
+      for (const update of statuses) {
+        const eventId = `${update.messageId}:${update.status}`;
+        if (!(await webhookEventRepository.claim("whatsapp", eventId))) {
+          duplicates++;
+          await recordWebhookRejection("whatsapp", "duplicate_event", req);
+          continue;
         }
 
-        res.status(403).json({ error: "Invalid verify token" });
-        return;
+        try {
+          await whatsappDeliveryService.applyStatus(update);
+        } catch (error) {
+          failed++;
+          logger.error(`Failed to apply WhatsApp status for ${update.messageId}`, error);
+          await webhookEventRepository.release("whatsapp", eventId);
+        }
       }
 
-      // Incoming message event
-      const message = req.body;
+      let queued = 0;
+      for (const message of messages) {
+        if (!(await webhookEventRepository.claim("whatsapp", message.id))) {
+          duplicates++;
+          await recordWebhookRejection("whatsapp", "duplicate_event", req);
+          continue;
+        }
 
-      logger.info("Received WhatsApp webhook", {
-        from: message?.entry?.[0]?.changes?.[0]?.value?.messages?.[0]?.from,
-      });
+        try {
+          if (await whatsappReplyService.handleIncoming(message)) queued++;
+        } catch (error) {
+          failed++;
+          logger.error(`Failed to handle WhatsApp message ${message.id}`, error);
+          await webhookEventRepository.release("whatsapp", message.id);
+        }
+      }
+
+      if (failed) {
+        res.status(500).json({ error: "Failed to process webhook", failed, queued, duplicates });
+        return;
+      }
 
-      res.status(200).json({ received: true });
+      res.status(200).json({ received: true, queued, duplicates });
     } catch (error) {
       logger.error("Failed to handle WhatsApp webhook", error);
       res.status(500).json({ error: "Failed to process webhook" });
     }
   }
 
+  /**
+   * Rejected webhook counters per day and totals per reason (admin)
+   */
+  async getWebhookRejections(req: Request, res: Response): Promise<void> {
+    try {
+      const validation = WebhookRejectionsQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        });
+        return;
+      }
+
+      const { days, provider } = validation.data;
+      const from = new Date();
+      from.setUTCHours(0, 0, 0, 0);
+      from.setUTCDate(from.getUTCDate() - (days - 1));
+
+      const daily = await webhookEventRepository.getRejections(from, provider);
+
+      const totals: Record<string, number> = {};
+      for (const row of daily) {
+        totals[row.reason] = (totals[row.reason] ?? 0) + row.count;
+      }
+
+      res.status(200).json({ from, totals, daily });
+    } catch (error) {
+      logger.error("Failed to fetch webhook rejections", error);
+      res.status(500).json({ error: "Failed to fetch webhook rejections" });
+    }
+  }
+
   /**
    * ============================================================
    * WHATSAPP TEST (TEMPLATE ONLY)
@@ -293,8 +394,9 @@ export class IntegrationsController {
 
   /**
    * Test AI reply generation (matches your worker payload)
+   * Billed to `outletId`, which the caller must own (admins: any outlet)
    */
-  async generateAIReply(req: Request, res: Response): Promise<void> {
+  async generateAIReply(req: AuthRequest, res: Response): Promise<void> {
     try {
       const {
         rating,
@@ -303,31 +405,53 @@ export class IntegrationsController {
         outletName,
         storeLocation,
         businessCategory,
+        outletId,
       } = req.body;
 
-      if (rating == null || !customerName || !outletName || !storeLocation || !businessCategory) {
+      if (rating == null || !customerName || !outletName || !storeLocation || !businessCategory || !outletId) {
         res.status(400).json({
           error:
-            "rating, customerName, reviewText, outletName, storeLocation, businessCategory are required",
+            "rating, customerName, reviewText, outletName, storeLocation, businessCategory, outletId are required",
         });
         return;
       }
 
-      const reply = await openaiService.generateReply({
+      const outlet = await outletsRepository.getById(String(outletId));
+      if (!outlet) {
+        res.status(404).json({ error: "Outlet not found" });
+        return;
+      }
+
+      const isAdmin = req.userRole === "ADMIN" || req.userRole === "SUPER_ADMIN";
+      if (!isAdmin && outlet.userId !== req.userId) {
+        res.status(403).json({ error: "Forbidden: You do not own this outlet" });
+        return;
+      }
+
+      // outlet's brand voice; the call counts against its AI quota
+      const voice = await brandVoiceRepository.getByOutletId(outlet.id);
+
+      const generated = await openaiService.generateReplyWithSource({
         rating: Number(rating),
         customerName: String(customerName),
         reviewText: String(reviewText || ""),
         outletName: String(outletName),
         storeLocation: String(storeLocation),
         businessCategory: String(businessCategory),
-      });
+        voice,
+        language: detectLanguage(String(reviewText || "")),
+      }, { outletId: outlet.id });
 
-      if (!reply) {
+      if (!generated) {
         res.status(400).json({ error: "Failed to generate reply" });
         return;
       }
 
-      res.status(200).json({ reply });
+      res.status(200).json({
+        reply: generated.reply,
+        // quota exhausted -> reply is a standard template, not AI generated
+        templateFallback: generated.templateFallback,
+      });
     } catch (error) {
       logger.error("Failed to generate AI reply", error);
       res.status(500).json({ error: "Failed to generate reply" });
@@ -0,0 +1,140 @@
+import type { Request, Response } from "express"
+import { z } from "zod"
+import { NotificationChannel } from "@prisma/client"
+import { notificationPreferenceRepository } from "../repository/notification-preference.repo"
+import { usersRepository } from "../repository/users.repo"
+import { auditRepository } from "../repository/audit.repo"
+import { outboundWebhookService } from "../services/outbound-webhook.service"
+import { checkPublicUrl } from "../utils/url-guard"
+import { logger } from "../utils/logger"
+
+const NotificationPreferenceSchema = z
+  .object({
+    // fallback order: the next channel is used only if the previous one could not deliver
+    channels: z
+      .array(z.nativeEnum(NotificationChannel))
+      .min(1)
+      .refine((channels) => new Set(channels).size === channels.length, { message: "Channels must be unique" }),
+    smsNumber: z
+      .string()
+      .regex(/^\+?[0-9 ()-]{6,20}$/, { message: "Invalid phone number" })
+      .nullable()
+      .optional(),
+    webhookUrl: z
+      .string()
+      .url()
+      .refine((url) => url.startsWith("https://"), { message: "Webhook URL must use https" })
+      .nullable()
+      .optional(),
+  })
+  .refine((p) => !p.channels.includes(NotificationChannel.WEBHOOK) || !!p.webhookUrl, {
+    message: "webhookUrl is required for the WEBHOOK channel",
+    path: ["webhookUrl"],
+  })
+
+export class NotificationPreferencesController {
+  /**
+   * GET /api/user/notification-preferences
+   */
+  async getMine(req: Request, res: Response): Promise<void> {
+    await this.get((req as any).userId, res)
+  }
+
+  /**
+   * PUT /api/user/notification-preferences
+   */
+  async updateMine(req: Request, res: Response): Promise<void> {
+    await this.update((req as any).userId, req, res)
+  }
+
+  /**
+   * GET /api/admin/users/:userId/notification-preferences
+   */
+  async getForUser(req: Request, res: Response): Promise<void> {
+    await this.get(req.params.userId, res)
+  }
+
+  /**
+   * PUT /api/admin/users/:userId/notification-preferences
+   */
+  async updateForUser(req: Request, res: Response): Promise<void> {
+    await this.update(req.params.userId, req, res)
+  }
+
+  /**
+   * Effective preferences (NOTIFICATION_CHANNELS when the user has none)
+   */
+  private async get(userId: string, res: Response): Promise<void> {
+    try {
+      const user = await usersRepository.getById(userId)
+      if (!user) {
+        res.status(404).json({ error: "User not found" })
+        return
+      }
+
+      const { webhookSecret, ...preferences } = await notificationPreferenceRepository.resolve(userId)
+      res.status(200).json({ notificationPreferences: preferences, isDefault: preferences.isDefault })
+    } catch (error) {
+      logger.error("Failed to fetch notification preferences", error)
+      res.status(500).json({ error: "Failed to fetch notification preferences" })
+    }
+  }
+
+  private async update(userId: string, req: Request, res: Response): Promise<void> {
+    try {
+      const validation = NotificationPreferenceSchema.safeParse(req.body)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const user = await usersRepository.getById(userId)
+      if (!user) {
+        res.status(404).json({ error: "User not found" })
+        return
+      }
+
+      const { channels, smsNumber, webhookUrl } = validation.data
+
+      const unsafe = webhookUrl ? await checkPublicUrl(webhookUrl) : null
+      if (unsafe) {
+        res.status(400).json({ message: "Invalid input", errors: { webhookUrl: [unsafe] } })
+        return
+      }
+
+      // the signing secret is created with the first webhook URL and returned only then
+      const existing = await notificationPreferenceRepository.getByUserId(userId)
+      const newSecret = webhookUrl && !existing?.webhookSecret ? outboundWebhookService.newSecret() : undefined
+
+      await notificationPreferenceRepository.upsert(userId, {
+        channels,
+        smsNumber: smsNumber ?? null,
+        webhookUrl: webhookUrl ?? null,
+        ...(newSecret ? { webhookSecret: newSecret } : {}),
+      })
+
+      await auditRepository.createAuditLog({
+        action: "NOTIFICATION_PREFERENCES_UPDATED",
+        entity: "NotificationPreference",
+        entityId: userId,
+        userId: (req as any).userId,
+        details: validation.data,
+      })
+
+      const { webhookSecret, ...preferences } = await notificationPreferenceRepository.resolve(userId)
+      res.status(200).json({
+        message: "Notification preferences saved",
+        notificationPreferences: preferences,
+        ...(newSecret ? { webhookSecret: newSecret } : {}),
+      })
+    } catch (error) {
+      logger.error("Failed to save notification preferences", error)
+      res.status(500).json({ error: "Failed to save notification preferences" })
+    }
+  }
+}
+
+export const notificationPreferencesController = new NotificationPreferencesController()
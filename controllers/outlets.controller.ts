@@ -4,8 +4,10 @@ import { billingRepository } from "../repository/billing.repo";
 import { auditRepository } from "../repository/audit.repo";
 import { ManualReviewQueueRepository } from "../repository/manual-review-queue.repo";
 import { reviewsRepository } from "../repository/reviews.repo";
+import { outletSyncStateRepository } from "../repository/outlet-sync-state.repo";
 import { prisma } from "../database";
 import { logger } from "../utils/logger";
+import { outboundWebhookService } from "../services/outbound-webhook.service";
 import {
   ApiStatus,
   OnboardingStatus,
@@ -143,6 +145,8 @@ export class OutletsController {
         details: { status, remark }
       });
 
+      await outboundWebhookService.subscriptionChanged(id, { billingStatus: billing.status, source: "admin" });
+
       res.json({ message: "Subscription updated", billing });
     } catch (err) {
       logger.error("Subscription override failed", err);
@@ -263,6 +267,75 @@ export class OutletsController {
     }
   }
 
+  //
+  // -------- GMB SYNC STATE --------
+  //
+  async getSyncState(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const outlet = await outletRepo.getOutletById(id);
+      if (!outlet) return res.status(404).json({ error: "Outlet not found" });
+
+      const syncState = await outletSyncStateRepository.getByOutletId(id);
+
+      res.json({
+        outletId: id,
+        syncState: syncState ?? {
+          outletId: id,
+          lastSyncedAt: null,
+          lastPageToken: null,
+          sweepStartedAt: null,
+          lastAttemptAt: null,
+          lastError: null,
+          consecutiveFailures: 0
+        }
+      });
+    } catch (err) {
+      logger.error("getSyncState failed", err);
+      res.status(500).json({ error: "Failed to get sync state" });
+    }
+  }
+
+  /**
+   * Reset the GMB cursor. Optional body.since (ISO date) sets the cursor
+   * to that time; otherwise the next run re-scans all reviews.
+   */
+  async resetSyncState(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const { since } = req.body ?? {};
+      const actorId = (req as any).userId;
+
+      const outlet = await outletRepo.getOutletById(id);
+      if (!outlet) return res.status(404).json({ error: "Outlet not found" });
+
+      let sinceDate: Date | null = null;
+      if (since) {
+        sinceDate = new Date(since);
+        if (Number.isNaN(sinceDate.getTime())) {
+          return res.status(400).json({ error: "since must be a valid ISO date" });
+        }
+      }
+
+      const syncState = await outletSyncStateRepository.reset(id, sinceDate);
+
+      await auditRepository.createAuditLog({
+        action: "OUTLET_SYNC_STATE_RESET",
+        entity: "Outlet",
+        entityId: id,
+        userId: actorId,
+        outletId: id,
+        details: { since: sinceDate?.toISOString() ?? null }
+      });
+
+      res.json({ message: "Sync state reset", syncState });
+    } catch (err) {
+      logger.error("resetSyncState failed", err);
+      res.status(500).json({ error: "Failed to reset sync state" });
+    }
+  }
+
   async update(req: Request, res: Response) {
     try {
       const { id } = req.params;
@@ -4,6 +4,7 @@ import { billingRepository } from "../repository/billing.repo"
 import { logger } from "../utils/logger"
 import { auditRepository } from "../repository/audit.repo"
 import type { AuthRequest } from "../middleware/auth.middleware"
+import { outboundWebhookService } from "../services/outbound-webhook.service"
 import crypto from "crypto"
 
 // In production, use environment variables
@@ -103,7 +104,12 @@ export class PaymentController {
 
       // Update billing status if payment successful
       if (updatedPayment && outletId) {
-        await billingRepository.updatePaidUntil(outletId, new Date(Date.now() + 30 * 24 * 60 * 60 * 1000))
+        const billing = await billingRepository.updatePaidUntil(outletId, new Date(Date.now() + 30 * 24 * 60 * 60 * 1000))
+        await outboundWebhookService.subscriptionChanged(outletId, {
+          billingStatus: billing.status,
+          paidUntil: billing.paidUntil,
+          source: "payment",
+        })
       }
 
       logger.info(`Payment verified: ${razorpay_payment_id}`, {
@@ -165,7 +171,12 @@ export class PaymentController {
           await paymentRepository.updatePaymentStatus(paymentId, 'SUCCESS')
           // update billing
           if (payment.outletId) {
-            await billingRepository.updatePaidUntil(payment.outletId, new Date(Date.now() + 30 * 24 * 60 * 60 * 1000))
+            const billing = await billingRepository.updatePaidUntil(payment.outletId, new Date(Date.now() + 30 * 24 * 60 * 60 * 1000))
+            await outboundWebhookService.subscriptionChanged(payment.outletId, {
+              billingStatus: billing.status,
+              paidUntil: billing.paidUntil,
+              source: 'payment',
+            })
           }
         }
 
@@ -0,0 +1,382 @@
+import type { Request, Response } from "express"
+import { z } from "zod"
+import { AssignmentStrategy, ManualQueueStatus, UserRole } from "@prisma/client"
+import { prisma } from "../database"
+import { ManualReviewQueueRepository } from "../repository/manual-review-queue.repo"
+import { DEFAULT_ASSIGNMENT_GROUP, queueAssignmentRepository } from "../repository/queue-assignment.repo"
+import { usersRepository } from "../repository/users.repo"
+import { auditRepository } from "../repository/audit.repo"
+import { logger } from "../utils/logger"
+
+const manualQueueRepo = new ManualReviewQueueRepository(prisma)
+
+const AssignSchema = z.object({
+  adminId: z.string().min(1).nullable(),
+})
+
+const BulkReassignSchema = z.object({
+  fromAdminId: z.string().min(1),
+  // omitted = spread over the outlets' assignment groups, null = unassign
+  toAdminId: z.string().min(1).nullable().optional(),
+  queueIds: z.array(z.string().min(1)).min(1).max(500).optional(),
+})
+
+const MyQueueSchema = z.object({
+  status: z.nativeEnum(ManualQueueStatus).optional(),
+})
+
+const GroupSchema = z.object({
+  strategy: z.nativeEnum(AssignmentStrategy),
+  adminIds: z
+    .array(z.string().min(1))
+    .max(100)
+    .refine((ids) => new Set(ids).size === ids.length, "Admin ids must be unique"),
+  isActive: z.boolean().default(true),
+})
+
+/**
+ * Null if the user can hold queue items, otherwise the reason why not
+ */
+async function checkAssignable(adminId: string): Promise<string | null> {
+  const admin = await usersRepository.getUserById(adminId)
+  if (!admin || admin.deletedAt || admin.role === UserRole.USER) {
+    return "Assignee must be an active admin"
+  }
+  return null
+}
+
+export class QueueAssignmentController {
+  /**
+   * POST /api/admin/reviews/manual-queue/:queueId/assign
+   */
+  async assign(req: Request, res: Response): Promise<void> {
+    try {
+      const { queueId } = req.params
+      const userId = (req as any).userId
+
+      const validation = AssignSchema.safeParse(req.body)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const { adminId } = validation.data
+      if (adminId) {
+        const invalid = await checkAssignable(adminId)
+        if (invalid) {
+          res.status(400).json({ error: invalid })
+          return
+        }
+      }
+
+      const existing = await manualQueueRepo.getById(queueId)
+      if (!existing) {
+        res.status(404).json({ error: "Queue item not found" })
+        return
+      }
+
+      const item = await manualQueueRepo.assign(queueId, adminId)
+      if (!item) {
+        res.status(409).json({ error: "Queue item is already responded" })
+        return
+      }
+
+      await auditRepository.createAuditLog({
+        action: "QUEUE_ITEM_ASSIGNED",
+        entity: "ManualReviewQueue",
+        entityId: queueId,
+        userId,
+        outletId: existing.outletId,
+        details: { reviewId: existing.reviewId, from: existing.assignedAdminId, to: adminId },
+      })
+
+      res.status(200).json({ message: "Queue item assigned", item })
+    } catch (error) {
+      logger.error("Failed to assign queue item", error)
+      res.status(500).json({ error: "Failed to assign queue item" })
+    }
+  }
+
+  /**
+   * POST /api/admin/reviews/manual-queue/:queueId/claim
+   * Counts as the first response on the item
+   */
+  async claim(req: Request, res: Response): Promise<void> {
+    try {
+      const { queueId } = req.params
+      const userId = (req as any).userId
+
+      const existing = await manualQueueRepo.getById(queueId)
+      if (!existing) {
+        res.status(404).json({ error: "Queue item not found" })
+        return
+      }
+
+      const claimed = await manualQueueRepo.claim(queueId, userId)
+      if (!claimed) {
+        res.status(409).json({
+          error:
+            existing.status === ManualQueueStatus.RESPONDED
+              ? "Queue item is already responded"
+              : "Queue item is assigned to another admin",
+        })
+        return
+      }
+
+      await manualQueueRepo.recordFirstResponse(existing.reviewId)
+
+      if (existing.assignedAdminId !== userId) {
+        await auditRepository.createAuditLog({
+          action: "QUEUE_ITEM_CLAIMED",
+          entity: "ManualReviewQueue",
+          entityId: queueId,
+          userId,
+          outletId: existing.outletId,
+          details: { reviewId: existing.reviewId },
+        })
+      }
+
+      res.status(200).json({ message: "Queue item claimed", item: await manualQueueRepo.getById(queueId) })
+    } catch (error) {
+      logger.error("Failed to claim queue item", error)
+      res.status(500).json({ error: "Failed to claim queue item" })
+    }
+  }
+
+  /**
+   * POST /api/admin/reviews/manual-queue/:queueId/release
+   * Only the assignee (or a super admin) can release an item
+   */
+  async release(req: Request, res: Response): Promise<void> {
+    try {
+      const { queueId } = req.params
+      const userId = (req as any).userId
+      const isSuperAdmin = (req as any).userRole === UserRole.SUPER_ADMIN
+
+      const existing = await manualQueueRepo.getById(queueId)
+      if (!existing) {
+        res.status(404).json({ error: "Queue item not found" })
+        return
+      }
+
+      if (existing.assignedAdminId && existing.assignedAdminId !== userId && !isSuperAdmin) {
+        res.status(403).json({ error: "Queue item is assigned to another admin" })
+        return
+      }
+
+      const released = await manualQueueRepo.release(queueId, isSuperAdmin ? undefined : userId)
+      if (!released) {
+        res.status(409).json({ error: "Queue item is not assigned" })
+        return
+      }
+
+      await auditRepository.createAuditLog({
+        action: "QUEUE_ITEM_RELEASED",
+        entity: "ManualReviewQueue",
+        entityId: queueId,
+        userId,
+        outletId: existing.outletId,
+        details: { reviewId: existing.reviewId, from: existing.assignedAdminId },
+      })
+
+      res.status(200).json({ message: "Queue item released" })
+    } catch (error) {
+      logger.error("Failed to release queue item", error)
+      res.status(500).json({ error: "Failed to release queue item" })
+    }
+  }
+
+  /**
+   * POST /api/admin/reviews/manual-queue/reassign
+   * Moves an admin's open items (all or `queueIds`) to another admin, or
+   * re-runs automatic assignment for them without that admin
+   */
+  async bulkReassign(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId
+
+      const validation = BulkReassignSchema.safeParse(req.body)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const { fromAdminId, toAdminId, queueIds } = validation.data
+      if (toAdminId) {
+        if (toAdminId === fromAdminId) {
+          res.status(400).json({ error: "Source and target admin are the same" })
+          return
+        }
+
+        const invalid = await checkAssignable(toAdminId)
+        if (invalid) {
+          res.status(400).json({ error: invalid })
+          return
+        }
+      }
+
+      const items = await manualQueueRepo.getOpenByAdmin(fromAdminId, queueIds)
+
+      let reassigned = 0
+      let unassigned = 0
+      if (toAdminId !== undefined) {
+        const moved = await manualQueueRepo.reassignMany(
+          items.map((item) => item.id),
+          fromAdminId,
+          toAdminId
+        )
+        if (toAdminId) reassigned = moved
+        else unassigned = moved
+      } else {
+        for (const item of items) {
+          const adminId = await queueAssignmentRepository.pickAdmin(item.outletId, [fromAdminId])
+          const moved = await manualQueueRepo.reassignMany([item.id], fromAdminId, adminId)
+          if (adminId) reassigned += moved
+          else unassigned += moved
+        }
+      }
+
+      await auditRepository.createAuditLog({
+        action: "QUEUE_ITEMS_REASSIGNED",
+        entity: "User",
+        entityId: fromAdminId,
+        userId,
+        details: { toAdminId: toAdminId === undefined ? "auto" : toAdminId, reassigned, unassigned },
+      })
+
+      res.status(200).json({ message: "Queue items reassigned", reassigned, unassigned })
+    } catch (error) {
+      logger.error("Failed to reassign queue items", error)
+      res.status(500).json({ error: "Failed to reassign queue items" })
+    }
+  }
+
+  /**
+   * GET /api/admin/reviews/manual-queue/mine
+   * Caller's items (open unless `status` is given) with counts per status
+   */
+  async mine(req: Request, res: Response): Promise<void> {
+    try {
+      const validation = MyQueueSchema.safeParse(req.query)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const { items, counts } = await manualQueueRepo.getAdminQueue((req as any).userId, validation.data.status)
+      res.status(200).json({ queue: items, total: items.length, counts })
+    } catch (error) {
+      logger.error("Failed to fetch admin queue", error)
+      res.status(500).json({ error: "Failed to fetch admin queue" })
+    }
+  }
+
+  /**
+   * GET /api/admin/reviews/manual-queue/workload
+   * Open items per admin, including an `adminId: null` row for unassigned ones
+   */
+  async workload(_req: Request, res: Response): Promise<void> {
+    try {
+      const workload = await queueAssignmentRepository.getWorkload()
+      res.status(200).json({ workload })
+    } catch (error) {
+      logger.error("Failed to fetch queue workload", error)
+      res.status(500).json({ error: "Failed to fetch queue workload" })
+    }
+  }
+
+  /**
+   * GET /api/admin/queue-assignment/groups
+   */
+  async listGroups(_req: Request, res: Response): Promise<void> {
+    try {
+      const groups = await queueAssignmentRepository.getAll()
+      res.status(200).json({ groups, defaultGroupName: DEFAULT_ASSIGNMENT_GROUP })
+    } catch (error) {
+      logger.error("Failed to fetch assignment groups", error)
+      res.status(500).json({ error: "Failed to fetch assignment groups" })
+    }
+  }
+
+  /**
+   * PUT /api/admin/queue-assignment/groups/:groupName
+   * `*` configures every outlet whose group has no config of its own
+   */
+  async upsertGroup(req: Request, res: Response): Promise<void> {
+    try {
+      const { groupName } = req.params
+      const userId = (req as any).userId
+
+      const validation = GroupSchema.safeParse(req.body)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      for (const adminId of validation.data.adminIds) {
+        const invalid = await checkAssignable(adminId)
+        if (invalid) {
+          res.status(400).json({ error: `${invalid}: ${adminId}` })
+          return
+        }
+      }
+
+      const group = await queueAssignmentRepository.upsert(groupName, validation.data)
+
+      await auditRepository.createAuditLog({
+        action: "QUEUE_ASSIGNMENT_GROUP_UPDATED",
+        entity: "QueueAssignmentGroup",
+        entityId: groupName,
+        userId,
+        details: validation.data,
+      })
+
+      res.status(200).json({ message: "Assignment group saved", group })
+    } catch (error) {
+      logger.error("Failed to save assignment group", error)
+      res.status(500).json({ error: "Failed to save assignment group" })
+    }
+  }
+
+  /**
+   * DELETE /api/admin/queue-assignment/groups/:groupName
+   */
+  async deleteGroup(req: Request, res: Response): Promise<void> {
+    try {
+      const { groupName } = req.params
+      const userId = (req as any).userId
+
+      const { count } = await queueAssignmentRepository.delete(groupName)
+      if (count === 0) {
+        res.status(404).json({ error: "Assignment group not found" })
+        return
+      }
+
+      await auditRepository.createAuditLog({
+        action: "QUEUE_ASSIGNMENT_GROUP_DELETED",
+        entity: "QueueAssignmentGroup",
+        entityId: groupName,
+        userId,
+      })
+
+      res.status(200).json({ message: "Assignment group deleted" })
+    } catch (error) {
+      logger.error("Failed to delete assignment group", error)
+      res.status(500).json({ error: "Failed to delete assignment group" })
+    }
+  }
+}
+
+export const queueAssignmentController = new QueueAssignmentController()
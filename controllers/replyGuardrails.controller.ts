@@ -0,0 +1,96 @@
+import type { Request, Response } from "express"
+import { z } from "zod"
+import { outletsRepository } from "../repository/outlets.repo"
+import { replyValidationRepository } from "../repository/reply-validation.repo"
+import { auditRepository } from "../repository/audit.repo"
+import { REPLY_GUARDRAIL_RULES, replyGuardrailService } from "../services/reply-guardrail.service"
+import { logger } from "../utils/logger"
+
+const UpdateGuardrailsSchema = z.object({
+  disabledRules: z.array(z.enum(REPLY_GUARDRAIL_RULES)).max(REPLY_GUARDRAIL_RULES.length),
+})
+
+export class ReplyGuardrailsController {
+  /**
+   * GET /api/outlets/:id/reply-guardrails?days=30
+   * Active rules plus failures per rule and the latest rejected replies
+   */
+  async get(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const days = Math.min(Math.max(Number(req.query.days) || 30, 1), 365)
+
+      const outlet = await outletsRepository.getOutletById(id)
+      if (!outlet) {
+        res.status(404).json({ error: "Outlet not found" })
+        return
+      }
+
+      const from = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+      const [failuresByRule, recentFailures] = await Promise.all([
+        replyValidationRepository.countByRule(id, from),
+        replyValidationRepository.getRecentByOutlet(id, 20),
+      ])
+
+      res.status(200).json({
+        rules: REPLY_GUARDRAIL_RULES,
+        enabledRules: replyGuardrailService.enabledRules(outlet),
+        disabledRules: outlet.disabledReplyGuardrails,
+        days,
+        failuresByRule,
+        recentFailures,
+      })
+    } catch (error) {
+      logger.error("Failed to fetch reply guardrails", error)
+      res.status(500).json({ error: "Failed to fetch reply guardrails" })
+    }
+  }
+
+  /**
+   * PUT /api/outlets/:id/reply-guardrails
+   */
+  async update(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const userId = (req as any).userId
+
+      const validation = UpdateGuardrailsSchema.safeParse(req.body)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const outlet = await outletsRepository.getOutletById(id)
+      if (!outlet) {
+        res.status(404).json({ error: "Outlet not found" })
+        return
+      }
+
+      const disabledRules = [...new Set(validation.data.disabledRules)]
+      const updated = await outletsRepository.update(id, { disabledReplyGuardrails: disabledRules })
+
+      await auditRepository.createAuditLog({
+        action: "REPLY_GUARDRAILS_UPDATED",
+        entity: "Outlet",
+        entityId: id,
+        userId,
+        outletId: id,
+        details: { disabledRules },
+      })
+
+      res.status(200).json({
+        message: "Reply guardrails updated",
+        enabledRules: replyGuardrailService.enabledRules(updated),
+        disabledRules: updated.disabledReplyGuardrails,
+      })
+    } catch (error) {
+      logger.error("Failed to update reply guardrails", error)
+      res.status(500).json({ error: "Failed to update reply guardrails" })
+    }
+  }
+}
+
+export const replyGuardrailsController = new ReplyGuardrailsController()
@@ -0,0 +1,258 @@
+import type { Request, Response } from "express"
+import { z } from "zod"
+import { BusinessCategory, type ReplyTemplate } from "@prisma/client"
+import { replyTemplateRepository } from "../repository/reply-template.repo"
+import { outletsRepository } from "../repository/outlets.repo"
+import { auditRepository } from "../repository/audit.repo"
+import { replyTemplateService, TEMPLATE_VARIABLES } from "../services/reply-template.service"
+import { logger } from "../utils/logger"
+
+const RatingSchema = z.number().int().min(1).max(5)
+
+const ReplyTemplateSchema = z
+  .object({
+    name: z.string().trim().min(1, { message: "name is required" }).max(120),
+    body: z
+      .string()
+      .trim()
+      .min(1, { message: "body is required" })
+      .max(4000)
+      .refine((body) => replyTemplateService.unknownVariables(body).length === 0, {
+        message: `Only ${TEMPLATE_VARIABLES.map((v) => `{{${v}}}`).join(", ")} variables are supported`,
+      }),
+    // global templates only; outlet templates always apply to their outlet
+    category: z.nativeEnum(BusinessCategory).nullable().optional(),
+    minRating: RatingSchema.nullable().optional(),
+    maxRating: RatingSchema.nullable().optional(),
+    isActive: z.boolean().default(true),
+  })
+  .refine((t) => t.minRating == null || t.maxRating == null || t.minRating <= t.maxRating, {
+    message: "minRating must be <= maxRating",
+    path: ["minRating"],
+  })
+
+const ReplyTemplateUpdateSchema = ReplyTemplateSchema.innerType().partial()
+
+export class ReplyTemplatesController {
+  /**
+   * GET /api/outlets/:id/reply-templates
+   * GET /api/admin/reply-templates?category=
+   */
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const outletId = req.params.id
+
+      if (outletId) {
+        const outlet = await outletsRepository.getOutletById(outletId)
+        if (!outlet) {
+          res.status(404).json({ error: "Outlet not found" })
+          return
+        }
+
+        // own templates plus the category defaults the outlet inherits
+        const [templates, defaults] = await Promise.all([
+          replyTemplateRepository.getByOutlet(outletId),
+          replyTemplateRepository.getGlobal(outlet.category),
+        ])
+        res.status(200).json({ templates, defaults })
+        return
+      }
+
+      const category = req.query.category as string | undefined
+      if (category && !Object.values(BusinessCategory).includes(category as BusinessCategory)) {
+        res.status(400).json({ error: "Invalid business category" })
+        return
+      }
+
+      const templates = await replyTemplateRepository.getGlobal(category as BusinessCategory | undefined)
+      res.status(200).json({ templates })
+    } catch (error) {
+      logger.error("Failed to fetch reply templates", error)
+      res.status(500).json({ error: "Failed to fetch reply templates" })
+    }
+  }
+
+  /**
+   * POST /api/outlets/:id/reply-templates
+   * POST /api/admin/reply-templates
+   */
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const outletId = req.params.id ?? null
+      const userId = (req as any).userId
+
+      const validation = ReplyTemplateSchema.safeParse(req.body)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      if (outletId && !(await outletsRepository.getOutletById(outletId))) {
+        res.status(404).json({ error: "Outlet not found" })
+        return
+      }
+
+      const template = await replyTemplateRepository.create({
+        ...validation.data,
+        outletId,
+        category: outletId ? null : validation.data.category ?? null,
+        createdById: userId,
+      })
+
+      await auditRepository.createAuditLog({
+        action: "REPLY_TEMPLATE_CREATED",
+        entity: "ReplyTemplate",
+        entityId: template.id,
+        userId,
+        outletId,
+        details: { name: template.name, category: template.category },
+      })
+
+      res.status(201).json({ message: "Reply template created", template })
+    } catch (error) {
+      logger.error("Failed to create reply template", error)
+      res.status(500).json({ error: "Failed to create reply template" })
+    }
+  }
+
+  /**
+   * PUT /api/outlets/:id/reply-templates/:templateId
+   * PUT /api/admin/reply-templates/:templateId
+   */
+  async update(req: Request, res: Response): Promise<void> {
+    try {
+      const { templateId } = req.params
+      const userId = (req as any).userId
+
+      const validation = ReplyTemplateUpdateSchema.safeParse(req.body)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const existing = await this.getScoped(req, templateId)
+      if (!existing) {
+        res.status(404).json({ error: "Reply template not found" })
+        return
+      }
+
+      // re-check the rating range against the merged template
+      const merged = ReplyTemplateSchema.safeParse({ ...existing, ...validation.data })
+      if (!merged.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: merged.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const { category, ...data } = validation.data
+      const template = await replyTemplateRepository.update(templateId, {
+        ...data,
+        ...(existing.outletId || category === undefined ? {} : { category }),
+      })
+
+      await auditRepository.createAuditLog({
+        action: "REPLY_TEMPLATE_UPDATED",
+        entity: "ReplyTemplate",
+        entityId: templateId,
+        userId,
+        outletId: existing.outletId,
+        details: validation.data,
+      })
+
+      res.status(200).json({ message: "Reply template updated", template })
+    } catch (error) {
+      logger.error("Failed to update reply template", error)
+      res.status(500).json({ error: "Failed to update reply template" })
+    }
+  }
+
+  /**
+   * DELETE /api/outlets/:id/reply-templates/:templateId
+   * DELETE /api/admin/reply-templates/:templateId
+   */
+  async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const { templateId } = req.params
+      const userId = (req as any).userId
+
+      const existing = await this.getScoped(req, templateId)
+      if (!existing) {
+        res.status(404).json({ error: "Reply template not found" })
+        return
+      }
+
+      await replyTemplateRepository.delete(templateId)
+
+      await auditRepository.createAuditLog({
+        action: "REPLY_TEMPLATE_DELETED",
+        entity: "ReplyTemplate",
+        entityId: templateId,
+        userId,
+        outletId: existing.outletId,
+        details: { name: existing.name },
+      })
+
+      res.status(200).json({ message: "Reply template deleted" })
+    } catch (error) {
+      logger.error("Failed to delete reply template", error)
+      res.status(500).json({ error: "Failed to delete reply template" })
+    }
+  }
+
+  /**
+   * GET /api/user/outlets/:id/reply-templates?rating=
+   * Active templates the owner can reply with, rendered for the outlet
+   */
+  async listAvailable(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const userId = (req as any).userId
+      const rating = req.query.rating ? Number(req.query.rating) : undefined
+
+      if (rating !== undefined && !RatingSchema.safeParse(rating).success) {
+        res.status(400).json({ error: "rating must be between 1 and 5" })
+        return
+      }
+
+      const outlet = await outletsRepository.getOutletById(id)
+      if (!outlet || outlet.userId !== userId) {
+        res.status(404).json({ error: "Outlet not found" })
+        return
+      }
+
+      const templates = await replyTemplateRepository.getAvailableForOutlet(id, outlet.category, rating)
+
+      res.status(200).json({
+        templates: templates.map((t) => ({
+          ...t,
+          // customerName stays a placeholder until a review is picked
+          preview: replyTemplateService.render(t.body, { outletName: outlet.name, rating }),
+        })),
+      })
+    } catch (error) {
+      logger.error("Failed to fetch available reply templates", error)
+      res.status(500).json({ error: "Failed to fetch reply templates" })
+    }
+  }
+
+  /**
+   * Template in the route's scope: the outlet's own, or a global one on admin routes
+   */
+  private async getScoped(req: Request, templateId: string): Promise<ReplyTemplate | null> {
+    const template = await replyTemplateRepository.getById(templateId)
+    if (!template) return null
+
+    const outletId = req.params.id ?? null
+    return template.outletId === outletId ? template : null
+  }
+}
+
+export const replyTemplatesController = new ReplyTemplatesController()
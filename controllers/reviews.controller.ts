@@ -1,17 +1,112 @@
 import type { Request, Response } from "express"
-import { reviewsRepository } from "../repository/reviews.repo"
+import { z } from "zod"
+import { ReviewStatus, ReviewUrgency, Sentiment } from "@prisma/client"
+import {
+  decodeReviewCursor,
+  resolveReviewSort,
+  reviewsRepository,
+  REVIEW_SORTS,
+  type ReviewSearchParams,
+} from "../repository/reviews.repo"
 import { usersRepository } from "../repository/users.repo"
 import { gmbService } from "../integrations/gmb"
 import { auditRepository } from "../repository/audit.repo"
 import { logger } from "../utils/logger"
 import { prisma } from "../database"
 import { ManualReviewQueueRepository } from "../repository/manual-review-queue.repo"
+import { replyTemplateService, TemplateReplySchema } from "../services/reply-template.service"
+import { REVIEW_TOPICS } from "../integrations/llm"
+import { ANALYTICS_INTERVALS } from "../repository/review-analytics.repo"
+import { reviewAnalyticsService } from "../services/review-analytics.service"
+import { outboundWebhookService } from "../services/outbound-webhook.service"
+
+const QueryBoolean = z.enum(["true", "false"]).transform((v) => v === "true")
+const QueryRating = z.coerce.number().int().min(1).max(5)
+const QueryScore = z.coerce.number().min(-1).max(1)
+
+/**
+ * Query string of the review search endpoints (admin and user app)
+ */
+export const ReviewSearchSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  outletId: z.string().min(1).optional(),
+  platform: z.string().trim().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  hasReply: QueryBoolean.optional(),
+  assignedAdminId: z.string().min(1).optional(),
+  sort: z.enum(REVIEW_SORTS).optional(),
+  cursor: z.string().min(1).optional(),
+  // offset paging was replaced by cursors; reject it rather than silently returning page one
+  offset: z.never({ invalid_type_error: "offset is not supported, page with cursor=<nextCursor>" }).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  status: z.nativeEnum(ReviewStatus).optional(),
+  minRating: QueryRating.optional(),
+  maxRating: QueryRating.optional(),
+  sentiment: z.nativeEnum(Sentiment).optional(),
+  urgency: z.nativeEnum(ReviewUrgency).optional(),
+  topic: z.enum(REVIEW_TOPICS).optional(),
+  safetyIssue: QueryBoolean.optional(),
+  legalIssue: QueryBoolean.optional(),
+  minSentimentScore: QueryScore.optional(),
+  maxSentimentScore: QueryScore.optional(),
+})
+
+// status changes that mean an admin acted on a queued review (closing is handled by markAsClosed);
+// moving it back to e.g. MANUAL_PENDING is not a response
+const FIRST_RESPONSE_STATUSES: ReviewStatus[] = [ReviewStatus.ESCALATED, ReviewStatus.COMPLETED]
+
+const MAX_BUCKETS = 400
+const INTERVAL_DAYS = { day: 1, week: 7, month: 30 } as const
+
+const AnalyticsRangeSchema = z
+  .object({
+    interval: z.enum(ANALYTICS_INTERVALS).default("day"),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .refine((q) => !q.from || !q.to || q.from < q.to, {
+    message: "from must be before to",
+    path: ["from"],
+  })
+
+const TrendsQuerySchema = AnalyticsRangeSchema.innerType().extend({
+  outletId: z.string().min(1).optional(),
+  groupName: z.string().trim().min(1).optional(),
+})
+
+/**
+ * Validated query -> repository params; null when the cursor is unusable
+ */
+export function toReviewSearchParams(query: z.infer<typeof ReviewSearchSchema>): ReviewSearchParams | null {
+  const { cursor: rawCursor, ...rest } = query
+
+  const cursor = rawCursor ? decodeReviewCursor(rawCursor) : null
+  if (rawCursor && (!cursor || cursor.s !== resolveReviewSort(query.sort, query.q))) return null
+
+  return { ...rest, cursor }
+}
 
 export class ReviewsController {
   async getAll(req: Request, res: Response): Promise<void> {
     try {
-      const reviews = await reviewsRepository.getAllReviews()
-      res.status(200).json(reviews)
+      const validation = ReviewSearchSchema.safeParse(req.query)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid filters",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const params = toReviewSearchParams(validation.data)
+      if (!params) {
+        res.status(400).json({ error: "Invalid cursor" })
+        return
+      }
+
+      const result = await reviewsRepository.search(params)
+      res.status(200).json(result)
     } catch (error) {
       logger.error("Failed to fetch reviews", error)
       res.status(500).json({ error: "Failed to fetch reviews" })
@@ -76,6 +171,8 @@ export class ReviewsController {
         await manualQueueRepo.addToQueue(review.id, outletId)
       }
 
+      await outboundWebhookService.reviewCreated(review)
+
       res.status(201).json({
         message: "Review created successfully",
         review,
@@ -91,8 +188,15 @@ export class ReviewsController {
       const { id } = req.params
       const { status } = req.body
 
+      const previous = await prisma.review.findUnique({ where: { id }, select: { status: true } })
       const review = await reviewsRepository.updateReviewStatus(id, status)
 
+      // an admin acting on a queued review counts towards its SLA
+      if (previous?.status !== status && FIRST_RESPONSE_STATUSES.includes(status)) {
+        const manualQueueRepo = new ManualReviewQueueRepository(prisma)
+        await manualQueueRepo.recordFirstResponse(id)
+      }
+
       res.status(200).json({
         message: "Status updated",
         review,
@@ -118,11 +222,21 @@ export class ReviewsController {
   async addManualReply(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params
-      const { manualReply } = req.body
+      let { manualReply } = req.body
       const userId = (req as any).userId
 
-      if (!manualReply || typeof manualReply !== "string" || manualReply.trim().length === 0) {
-        res.status(400).json({ error: "Manual reply text is required" })
+      // either free text or a library template (templateId + overrides)
+      const fromTemplate = req.body?.templateId ? TemplateReplySchema.safeParse(req.body) : null
+      if (fromTemplate && !fromTemplate.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: fromTemplate.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      if (!fromTemplate && (!manualReply || typeof manualReply !== "string" || manualReply.trim().length === 0)) {
+        res.status(400).json({ error: "Manual reply text or templateId is required" })
         return
       }
 
@@ -139,24 +253,29 @@ export class ReviewsController {
         return
       }
 
+      if (fromTemplate?.success) {
+        const { templateId, overrides } = fromTemplate.data
+        manualReply = await replyTemplateService.renderForReview(templateId, review, outlet, overrides)
+        if (!manualReply) {
+          res.status(404).json({ error: "Reply template not found" })
+          return
+        }
+      }
+
       // Update review
       await prisma.review.update({
         where: { id },
         data: {
           manualReplyText: manualReply,
+          replyTemplateId: fromTemplate?.success ? fromTemplate.data.templateId : null,
+          repliedAt: new Date(),
           status: "CLOSED",
         }
       })
 
-      // Remove from manual queue if present
-      const queueItem = await prisma.manualReviewQueue.findFirst({
-        where: { reviewId: id },
-      })
-
-      if (queueItem) {
-        const manualQueueRepo = new ManualReviewQueueRepository(prisma)
-        await manualQueueRepo.markAsResponded(queueItem.id)
-      }
+      // Close the manual queue item if present, and any escalation
+      const manualQueueRepo = new ManualReviewQueueRepository(prisma)
+      await manualQueueRepo.markReviewResponded(id)
 
       // Post to GMB if credentials available
       const user = await usersRepository.getUserById(userId)
@@ -169,13 +288,15 @@ export class ReviewsController {
         )
       }
 
+      await outboundWebhookService.reviewReplied(id, { text: manualReply, source: "manual" })
+
       // Audit log
       await auditRepository.createAuditLog({
         action: "MANUAL_REPLY_POSTED",
         entity: "Review",
         entityId: id,
         userId,
-        details: `Manual reply posted (length=${manualReply.length})`,
+        details: `Manual reply posted (length=${manualReply.length}${fromTemplate?.success ? `, template=${fromTemplate.data.templateId}` : ""})`,
       })
 
       res.status(200).json({
@@ -205,6 +326,81 @@ export class ReviewsController {
     }
   }
 
+  /**
+   * GET /api/reviews/analytics/trends
+   * Bucketed volume, rating, response rate and median response time with period-over-period deltas
+   */
+  async trends(req: Request, res: Response): Promise<void> {
+    try {
+      const validation = TrendsQuerySchema.safeParse(req.query)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const { interval, outletId, groupName } = validation.data
+      const { from, to } = reviewAnalyticsService.resolveRange(interval, validation.data.from, validation.data.to)
+
+      if (from >= to) {
+        res.status(400).json({ error: "from must be before to" })
+        return
+      }
+      if ((to.getTime() - from.getTime()) / (INTERVAL_DAYS[interval] * 24 * 60 * 60 * 1000) > MAX_BUCKETS) {
+        res.status(400).json({ error: `Range too large for ${interval} buckets (max ${MAX_BUCKETS})` })
+        return
+      }
+
+      const data = await reviewAnalyticsService.getTrends({ outletId, groupName }, interval, from, to)
+      res.status(200).json(data)
+    } catch (error) {
+      logger.error("Failed to get review trends", error)
+      res.status(500).json({ error: "Failed to get review trends" })
+    }
+  }
+
+  /**
+   * GET /api/reviews/analytics/groups/:groupName
+   * Compare the outlets of a group (Outlet.groupName) for a period vs the previous one
+   */
+  async compareGroup(req: Request, res: Response): Promise<void> {
+    try {
+      const { groupName } = req.params
+
+      const validation = AnalyticsRangeSchema.safeParse(req.query)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const { from, to } = reviewAnalyticsService.resolveRange(
+        validation.data.interval,
+        validation.data.from,
+        validation.data.to
+      )
+      if (from >= to) {
+        res.status(400).json({ error: "from must be before to" })
+        return
+      }
+
+      const data = await reviewAnalyticsService.compareGroup(groupName, from, to)
+      if (!data) {
+        res.status(404).json({ error: "Outlet group not found" })
+        return
+      }
+
+      res.status(200).json(data)
+    } catch (error) {
+      logger.error("Failed to compare outlet group", error)
+      res.status(500).json({ error: "Failed to compare outlet group" })
+    }
+  }
+
   async delete(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params
@@ -0,0 +1,237 @@
+import type { Request, Response } from "express"
+import { z } from "zod"
+import { SubscriptionPlan } from "@prisma/client"
+import env from "../config/env"
+import { SLA_REPORT_GROUPS, slaRepository } from "../repository/sla.repo"
+import { outletsRepository } from "../repository/outlets.repo"
+import { auditRepository } from "../repository/audit.repo"
+import { logger } from "../utils/logger"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// up to 90 days
+const MinutesSchema = z.number().int().min(1).max(90 * 24 * 60)
+
+const PlanTargetSchema = z
+  .object({
+    firstResponseMinutes: MinutesSchema,
+    closeMinutes: MinutesSchema,
+  })
+  .refine((t) => t.firstResponseMinutes <= t.closeMinutes, {
+    message: "firstResponseMinutes must be <= closeMinutes",
+    path: ["firstResponseMinutes"],
+  })
+
+// null clears the override
+const OutletTargetSchema = z.object({
+  firstResponseMinutes: MinutesSchema.nullable(),
+  closeMinutes: MinutesSchema.nullable(),
+})
+
+const ReportQuerySchema = z
+  .object({
+    groupBy: z.enum(SLA_REPORT_GROUPS).default("outlet"),
+    outletId: z.string().min(1).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .refine((q) => !q.from || !q.to || q.from < q.to, {
+    message: "from must be before to",
+    path: ["from"],
+  })
+
+export class SlaController {
+  /**
+   * GET /api/admin/sla/targets
+   * Effective target per plan (SlaPlanTarget row or env default)
+   */
+  async getPlanTargets(req: Request, res: Response): Promise<void> {
+    try {
+      const rows = await slaRepository.getAllPlanTargets()
+      const byPlan = new Map(rows.map((row) => [row.plan, row]))
+
+      const targets = Object.values(SubscriptionPlan).map((plan) => {
+        const row = byPlan.get(plan)
+        return {
+          plan,
+          firstResponseMinutes: row?.firstResponseMinutes ?? env.SLA_FIRST_RESPONSE_MINUTES,
+          closeMinutes: row?.closeMinutes ?? env.SLA_CLOSE_MINUTES,
+          source: row ? "plan" : "default",
+        }
+      })
+
+      res.status(200).json(targets)
+    } catch (error) {
+      logger.error("Failed to fetch SLA targets", error)
+      res.status(500).json({ error: "Failed to fetch SLA targets" })
+    }
+  }
+
+  /**
+   * PUT /api/admin/sla/targets/:plan
+   * Applies to items entering the queue from now on
+   */
+  async updatePlanTarget(req: Request, res: Response): Promise<void> {
+    try {
+      const plan = req.params.plan as SubscriptionPlan
+      const userId = (req as any).userId
+
+      if (!Object.values(SubscriptionPlan).includes(plan)) {
+        res.status(400).json({ error: "Invalid subscription plan" })
+        return
+      }
+
+      const validation = PlanTargetSchema.safeParse(req.body)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const target = await slaRepository.upsertPlanTarget(plan, validation.data)
+
+      await auditRepository.createAuditLog({
+        action: "SLA_PLAN_TARGET_UPDATED",
+        entity: "SlaPlanTarget",
+        entityId: plan,
+        userId,
+        details: validation.data,
+      })
+
+      res.status(200).json({ message: "SLA target updated", target })
+    } catch (error) {
+      logger.error("Failed to update SLA target", error)
+      res.status(500).json({ error: "Failed to update SLA target" })
+    }
+  }
+
+  /**
+   * GET /api/outlets/:id/sla
+   */
+  async getOutletTargets(req: Request, res: Response): Promise<void> {
+    try {
+      const outlet = await outletsRepository.getOutletById(req.params.id)
+      if (!outlet) {
+        res.status(404).json({ error: "Outlet not found" })
+        return
+      }
+
+      res.status(200).json({
+        targets: await slaRepository.resolveTargets(outlet),
+        overrides: {
+          firstResponseMinutes: outlet.slaFirstResponseMinutes,
+          closeMinutes: outlet.slaCloseMinutes,
+        },
+      })
+    } catch (error) {
+      logger.error("Failed to fetch outlet SLA targets", error)
+      res.status(500).json({ error: "Failed to fetch outlet SLA targets" })
+    }
+  }
+
+  /**
+   * PUT /api/outlets/:id/sla
+   */
+  async updateOutletTargets(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const userId = (req as any).userId
+
+      const validation = OutletTargetSchema.safeParse(req.body)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const outlet = await outletsRepository.getOutletById(id)
+      if (!outlet) {
+        res.status(404).json({ error: "Outlet not found" })
+        return
+      }
+
+      const { firstResponseMinutes, closeMinutes } = validation.data
+
+      // check the merged targets, an override may combine with a plan target
+      const targets = await slaRepository.resolveTargets({
+        subscriptionPlan: outlet.subscriptionPlan,
+        slaFirstResponseMinutes: firstResponseMinutes,
+        slaCloseMinutes: closeMinutes,
+      })
+      if (targets.firstResponseMinutes > targets.closeMinutes) {
+        res.status(400).json({ error: "firstResponseMinutes must be <= closeMinutes" })
+        return
+      }
+
+      await outletsRepository.update(id, {
+        slaFirstResponseMinutes: firstResponseMinutes,
+        slaCloseMinutes: closeMinutes,
+      })
+
+      await auditRepository.createAuditLog({
+        action: "SLA_OUTLET_TARGET_UPDATED",
+        entity: "Outlet",
+        entityId: id,
+        userId,
+        outletId: id,
+        details: validation.data,
+      })
+
+      res.status(200).json({ message: "Outlet SLA updated", targets })
+    } catch (error) {
+      logger.error("Failed to update outlet SLA targets", error)
+      res.status(500).json({ error: "Failed to update outlet SLA targets" })
+    }
+  }
+
+  /**
+   * GET /api/admin/sla/report?groupBy=outlet|admin&from=&to=&outletId=
+   */
+  async report(req: Request, res: Response): Promise<void> {
+    try {
+      const validation = ReportQuerySchema.safeParse(req.query)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const { groupBy, outletId } = validation.data
+      const to = validation.data.to ?? new Date()
+      const from = validation.data.from ?? new Date(to.getTime() - 30 * DAY_MS)
+
+      const rows = await slaRepository.getReport(groupBy, from, to, outletId)
+
+      res.status(200).json({ groupBy, from, to, rows })
+    } catch (error) {
+      logger.error("Failed to build SLA report", error)
+      res.status(500).json({ error: "Failed to build SLA report" })
+    }
+  }
+
+  /**
+   * GET /api/admin/sla/breaches?outletId=&limit=
+   * Open queue items past a due date
+   */
+  async breaches(req: Request, res: Response): Promise<void> {
+    try {
+      const outletId = req.query.outletId as string | undefined
+      const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200)
+
+      const items = await slaRepository.getOpenBreaches(outletId, limit)
+
+      res.status(200).json({ items })
+    } catch (error) {
+      logger.error("Failed to fetch SLA breaches", error)
+      res.status(500).json({ error: "Failed to fetch SLA breaches" })
+    }
+  }
+}
+
+export const slaController = new SlaController()
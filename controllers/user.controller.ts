@@ -6,6 +6,9 @@ import { reviewsRepository } from "../repository/reviews.repo"
 import { outletsRepository } from "../repository/outlets.repo"
 import { logger } from "../utils/logger"
 import { whatsappService } from "../integrations/whatsapp"
+import { replyApprovalService } from "../services/reply-approval.service"
+import { auditRepository } from "../repository/audit.repo"
+import { ReviewSearchSchema, toReviewSearchParams } from "./reviews.controller"
 import { google } from "googleapis"
 import env from "../config/env"
 
@@ -18,6 +21,15 @@ const WhatsAppConnectSchema = z.object({
   phoneNumber: z.string().min(1, { message: "phoneNumber is required" }),
 })
 
+const ReplyApprovalSettingsSchema = z.object({
+  replyApprovalRequired: z.boolean(),
+  autoApproveAfterMinutes: z.number().int().min(1).max(7 * 24 * 60).nullable().optional(),
+})
+
+const ApproveReplySchema = z.object({
+  replyText: z.string().trim().min(1).max(4000).optional(),
+})
+
 export class UserController {
   /**
    * GET /api/user/me
@@ -115,39 +127,37 @@ export class UserController {
   async getReviews(req: Request, res: Response): Promise<void> {
     try {
       const userId = (req as any).userId
-      const { limit = "50", offset = "0", status } = req.query
 
-      // Get user's outlets
-      const outlets = await outletsRepository.getOutletsByUserId(userId)
-      const outletIds = outlets.map((o) => o.id)
+      // "ALL" is what the user app sends for no status filter
+      const query = { ...req.query }
+      if (query.status === "ALL") delete query.status
 
-      if (outletIds.length === 0) {
-        res.status(200).json({
-          reviews: [],
-          total: 0,
+      const validation = ReviewSearchSchema.safeParse(query)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid filters",
+          errors: validation.error.formErrors.fieldErrors,
         })
         return
       }
 
-      // Get reviews for all outlets
-      let reviews: any[] = []
-      for (const outletId of outletIds) {
-        const outletReviews = await reviewsRepository.getReviewsByOutlet(
-          outletId,
-          Number.parseInt(limit as string, 10),
-          Number.parseInt(offset as string, 10),
-        )
-        reviews = reviews.concat(outletReviews)
+      const params = toReviewSearchParams(validation.data)
+      if (!params) {
+        res.status(400).json({ error: "Invalid cursor" })
+        return
       }
 
-      // Filter by status if provided
-      if (status && status !== "ALL") {
-        reviews = reviews.filter((r) => r.status === status)
-      }
+      // Only the user's outlets (search returns nothing for an empty list)
+      const outlets = await outletsRepository.getOutletsByUserId(userId)
+      const { reviews, nextCursor } = await reviewsRepository.search({
+        ...params,
+        outletIds: outlets.map((o) => o.id),
+      })
 
       res.status(200).json({
         reviews,
         total: reviews.length,
+        nextCursor,
       })
     } catch (error) {
       logger.error("Get user reviews error", error)
@@ -307,6 +317,152 @@ export class UserController {
     })
   }
 
+  /**
+   * PUT /api/user/outlets/:id/reply-approval
+   * Turn draft-then-approve mode for AI replies on/off for an owned outlet
+   */
+  async updateReplyApproval(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId
+      const { id } = req.params
+
+      const validation = ReplyApprovalSettingsSchema.safeParse(req.body)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const outlet = await outletsRepository.getOutletById(id)
+      if (!outlet || outlet.userId !== userId) {
+        res.status(404).json({ error: "Outlet not found" })
+        return
+      }
+
+      const updated = await outletsRepository.update(id, {
+        replyApprovalRequired: validation.data.replyApprovalRequired,
+        autoApproveAfterMinutes: validation.data.autoApproveAfterMinutes ?? null,
+      })
+
+      await auditRepository.createAuditLog({
+        action: "OUTLET_REPLY_APPROVAL_UPDATED",
+        entity: "Outlet",
+        entityId: id,
+        userId,
+        outletId: id,
+        details: validation.data,
+      })
+
+      res.status(200).json({
+        message: "Reply approval settings updated",
+        outlet: {
+          id: updated.id,
+          replyApprovalRequired: updated.replyApprovalRequired,
+          autoApproveAfterMinutes: updated.autoApproveAfterMinutes,
+        },
+      })
+    } catch (error) {
+      logger.error("Update reply approval settings error", error)
+      res.status(500).json({ error: "Failed to update reply approval settings" })
+    }
+  }
+
+  /**
+   * POST /api/user/reviews/:id/approve
+   * Approve the AI draft (optionally edited via replyText); it is then posted to Google
+   */
+  async approveReply(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId
+      const { id } = req.params
+
+      const validation = ApproveReplySchema.safeParse(req.body ?? {})
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const review = await this.getOwnedReview(id, userId)
+      if (!review) {
+        res.status(404).json({ error: "Review not found" })
+        return
+      }
+
+      const approved = await replyApprovalService.approve(review, {
+        replyText: validation.data.replyText,
+        userId,
+      })
+      if (!approved) {
+        res.status(409).json({ error: "Review has no reply awaiting approval" })
+        return
+      }
+
+      await auditRepository.createAuditLog({
+        action: "AI_REPLY_APPROVED",
+        entity: "Review",
+        entityId: id,
+        userId,
+        outletId: review.outletId,
+        details: { edited: !!validation.data.replyText && validation.data.replyText !== review.draftReplyText },
+      })
+
+      res.status(200).json({ message: "Reply approved and queued for posting" })
+    } catch (error) {
+      logger.error("Approve reply error", error)
+      res.status(500).json({ error: "Failed to approve reply" })
+    }
+  }
+
+  /**
+   * POST /api/user/reviews/:id/reject
+   * Reject the AI draft; the review moves to the manual queue
+   */
+  async rejectReply(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId
+      const { id } = req.params
+
+      const review = await this.getOwnedReview(id, userId)
+      if (!review) {
+        res.status(404).json({ error: "Review not found" })
+        return
+      }
+
+      const rejected = await replyApprovalService.reject(review, userId)
+      if (!rejected) {
+        res.status(409).json({ error: "Review has no reply awaiting approval" })
+        return
+      }
+
+      await auditRepository.createAuditLog({
+        action: "AI_REPLY_REJECTED",
+        entity: "Review",
+        entityId: id,
+        userId,
+        outletId: review.outletId,
+      })
+
+      res.status(200).json({ message: "Reply rejected, review moved to manual queue" })
+    } catch (error) {
+      logger.error("Reject reply error", error)
+      res.status(500).json({ error: "Failed to reject reply" })
+    }
+  }
+
+  /**
+   * Review scoped to the current user's outlets
+   */
+  private async getOwnedReview(reviewId: string, userId: string) {
+    const review = await reviewsRepository.getById(reviewId)
+    if (!review || review.outlet?.userId !== userId) return null
+    return review
+  }
+
   async connectWhatsApp(req: Request, res: Response): Promise<void> {
     try {
       const userId = (req as any).userId
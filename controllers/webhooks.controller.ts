@@ -0,0 +1,348 @@
+import type { Request, Response } from "express"
+import { z } from "zod"
+import { WebhookDeliveryStatus } from "@prisma/client"
+import env from "../config/env"
+import {
+  webhookSubscriptionRepository,
+  OUTBOUND_WEBHOOK_EVENTS,
+  OUTBOUND_WEBHOOK_TEST_EVENT,
+} from "../repository/webhook-subscription.repo"
+import { outletsRepository } from "../repository/outlets.repo"
+import { auditRepository } from "../repository/audit.repo"
+import {
+  outboundWebhookService,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from "../services/outbound-webhook.service"
+import { checkPublicUrl } from "../utils/url-guard"
+import { logger } from "../utils/logger"
+
+const WebhookUrlSchema = z
+  .string()
+  .url()
+  // plain http only for local receivers during development
+  .refine((url) => url.startsWith("https://") || (env.NODE_ENV === "development" && url.startsWith("http://")), {
+    message: "Webhook URL must use https",
+  })
+
+const EventsSchema = z
+  .array(z.enum(OUTBOUND_WEBHOOK_EVENTS))
+  .min(1)
+  .refine((events) => new Set(events).size === events.length, { message: "Events must be unique" })
+
+const CreateSubscriptionSchema = z.object({
+  outletId: z.string().min(1),
+  url: WebhookUrlSchema,
+  events: EventsSchema,
+  description: z.string().trim().max(200).nullable().optional(),
+  isActive: z.boolean().default(true),
+})
+
+const UpdateSubscriptionSchema = z.object({
+  url: WebhookUrlSchema.optional(),
+  events: EventsSchema.optional(),
+  description: z.string().trim().max(200).nullable().optional(),
+  isActive: z.boolean().optional(),
+})
+
+const ListQuerySchema = z.object({
+  outletId: z.string().min(1).optional(),
+})
+
+const DeliveriesQuerySchema = z.object({
+  status: z.nativeEnum(WebhookDeliveryStatus).optional(),
+  event: z.string().min(1).optional(),
+  eventId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+})
+
+export class WebhooksController {
+  /**
+   * GET /api/webhooks/events
+   * Subscribable events and how deliveries are signed
+   */
+  async listEvents(_req: Request, res: Response): Promise<void> {
+    res.status(200).json({
+      events: OUTBOUND_WEBHOOK_EVENTS,
+      testEvent: OUTBOUND_WEBHOOK_TEST_EVENT,
+      signature: {
+        header: WEBHOOK_SIGNATURE_HEADER,
+        timestampHeader: WEBHOOK_TIMESTAMP_HEADER,
+        algorithm: "HMAC-SHA256 of `${timestamp}.${body}` with the subscription secret, hex, prefixed with sha256=",
+      },
+    })
+  }
+
+  /**
+   * GET /api/webhooks?outletId=
+   */
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const validation = ListQuerySchema.safeParse(req.query)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const subscriptions = await webhookSubscriptionRepository.list(validation.data.outletId)
+      res.status(200).json({ subscriptions })
+    } catch (error) {
+      logger.error("Failed to fetch webhook subscriptions", error)
+      res.status(500).json({ error: "Failed to fetch webhook subscriptions" })
+    }
+  }
+
+  /**
+   * GET /api/webhooks/:id
+   */
+  async get(req: Request, res: Response): Promise<void> {
+    try {
+      const subscription = await webhookSubscriptionRepository.getPublicById(req.params.id)
+      if (!subscription) {
+        res.status(404).json({ error: "Webhook subscription not found" })
+        return
+      }
+
+      res.status(200).json({ subscription })
+    } catch (error) {
+      logger.error("Failed to fetch webhook subscription", error)
+      res.status(500).json({ error: "Failed to fetch webhook subscription" })
+    }
+  }
+
+  /**
+   * POST /api/webhooks
+   * The signing secret is returned once, here (and on rotation)
+   */
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId
+
+      const validation = CreateSubscriptionSchema.safeParse(req.body)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const unsafe = await checkPublicUrl(validation.data.url)
+      if (unsafe) {
+        res.status(400).json({ message: "Invalid input", errors: { url: [unsafe] } })
+        return
+      }
+
+      const outlet = await outletsRepository.getOutletById(validation.data.outletId)
+      if (!outlet) {
+        res.status(404).json({ error: "Outlet not found" })
+        return
+      }
+
+      const subscription = await webhookSubscriptionRepository.create({
+        ...validation.data,
+        description: validation.data.description ?? null,
+        secret: outboundWebhookService.newSecret(),
+        createdById: userId,
+      })
+
+      await auditRepository.createAuditLog({
+        action: "WEBHOOK_SUBSCRIPTION_CREATED",
+        entity: "WebhookSubscription",
+        entityId: subscription.id,
+        userId,
+        outletId: subscription.outletId,
+        details: { url: subscription.url, events: subscription.events },
+      })
+
+      res.status(201).json({ message: "Webhook subscription created", subscription })
+    } catch (error) {
+      logger.error("Failed to create webhook subscription", error)
+      res.status(500).json({ error: "Failed to create webhook subscription" })
+    }
+  }
+
+  /**
+   * PUT /api/webhooks/:id
+   */
+  async update(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const userId = (req as any).userId
+
+      const validation = UpdateSubscriptionSchema.safeParse(req.body)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const unsafe = validation.data.url ? await checkPublicUrl(validation.data.url) : null
+      if (unsafe) {
+        res.status(400).json({ message: "Invalid input", errors: { url: [unsafe] } })
+        return
+      }
+
+      const existing = await webhookSubscriptionRepository.getById(id)
+      if (!existing) {
+        res.status(404).json({ error: "Webhook subscription not found" })
+        return
+      }
+
+      await webhookSubscriptionRepository.update(id, validation.data)
+
+      await auditRepository.createAuditLog({
+        action: "WEBHOOK_SUBSCRIPTION_UPDATED",
+        entity: "WebhookSubscription",
+        entityId: id,
+        userId,
+        outletId: existing.outletId,
+        details: validation.data,
+      })
+
+      res.status(200).json({
+        message: "Webhook subscription updated",
+        subscription: await webhookSubscriptionRepository.getPublicById(id),
+      })
+    } catch (error) {
+      logger.error("Failed to update webhook subscription", error)
+      res.status(500).json({ error: "Failed to update webhook subscription" })
+    }
+  }
+
+  /**
+   * DELETE /api/webhooks/:id
+   * Queued deliveries for it are dropped; its delivery log goes with it
+   */
+  async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const userId = (req as any).userId
+
+      const existing = await webhookSubscriptionRepository.getById(id)
+      if (!existing) {
+        res.status(404).json({ error: "Webhook subscription not found" })
+        return
+      }
+
+      await webhookSubscriptionRepository.delete(id)
+
+      await auditRepository.createAuditLog({
+        action: "WEBHOOK_SUBSCRIPTION_DELETED",
+        entity: "WebhookSubscription",
+        entityId: id,
+        userId,
+        outletId: existing.outletId,
+        details: { url: existing.url },
+      })
+
+      res.status(200).json({ message: "Webhook subscription deleted" })
+    } catch (error) {
+      logger.error("Failed to delete webhook subscription", error)
+      res.status(500).json({ error: "Failed to delete webhook subscription" })
+    }
+  }
+
+  /**
+   * POST /api/webhooks/:id/rotate-secret
+   * The old secret stops working immediately, including for queued retries
+   */
+  async rotateSecret(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const userId = (req as any).userId
+
+      const existing = await webhookSubscriptionRepository.getById(id)
+      if (!existing) {
+        res.status(404).json({ error: "Webhook subscription not found" })
+        return
+      }
+
+      const subscription = await webhookSubscriptionRepository.update(id, {
+        secret: outboundWebhookService.newSecret(),
+      })
+
+      await auditRepository.createAuditLog({
+        action: "WEBHOOK_SECRET_ROTATED",
+        entity: "WebhookSubscription",
+        entityId: id,
+        userId,
+        outletId: existing.outletId,
+      })
+
+      res.status(200).json({ message: "Webhook secret rotated", secret: subscription.secret })
+    } catch (error) {
+      logger.error("Failed to rotate webhook secret", error)
+      res.status(500).json({ error: "Failed to rotate webhook secret" })
+    }
+  }
+
+  /**
+   * POST /api/webhooks/:id/test
+   * Sends a signed webhook.test event right away (no retries), also to disabled subscriptions.
+   * Only the status of the attempt is returned, never what the endpoint answered.
+   */
+  async sendTest(req: Request, res: Response): Promise<void> {
+    try {
+      const subscription = await webhookSubscriptionRepository.getById(req.params.id)
+      if (!subscription) {
+        res.status(404).json({ error: "Webhook subscription not found" })
+        return
+      }
+
+      const { responseBody, ...delivery } = await outboundWebhookService.sendTest(subscription)
+
+      res.status(200).json({
+        message: delivery.status === WebhookDeliveryStatus.SUCCESS ? "Test event delivered" : "Test event failed",
+        delivery,
+      })
+    } catch (error) {
+      logger.error("Failed to send test webhook", error)
+      res.status(500).json({ error: "Failed to send test webhook" })
+    }
+  }
+
+  /**
+   * GET /api/webhooks/:id/deliveries
+   * Delivery log, newest first; retries of one event share its eventId
+   */
+  async listDeliveries(req: Request, res: Response): Promise<void> {
+    try {
+      const validation = DeliveriesQuerySchema.safeParse(req.query)
+      if (!validation.success) {
+        res.status(400).json({
+          message: "Invalid input",
+          errors: validation.error.formErrors.fieldErrors,
+        })
+        return
+      }
+
+      const subscription = await webhookSubscriptionRepository.getPublicById(req.params.id)
+      if (!subscription) {
+        res.status(404).json({ error: "Webhook subscription not found" })
+        return
+      }
+
+      const { limit, offset, ...filters } = validation.data
+      const { deliveries, total } = await webhookSubscriptionRepository.getDeliveries(
+        subscription.id,
+        filters,
+        limit,
+        offset
+      )
+
+      res.status(200).json({ deliveries, total })
+    } catch (error) {
+      logger.error("Failed to fetch webhook deliveries", error)
+      res.status(500).json({ error: "Failed to fetch webhook deliveries" })
+    }
+  }
+}
+
+export const webhooksController = new WebhooksController()
@@ -22,8 +22,10 @@ import auditRoutes from "./routes/audit.routes"
 import adminRoutes from "./routes/admin.routes"
 import paymentRoutes from "./routes/payment.routes"
 import integrationsRoutes from "./routes/integrations.routes"
+import webhooksRoutes from "./routes/webhooks.routes"
 
 import { logger } from "./utils/logger" // <- safe if exists
+import type { RawBodyRequest } from "./middleware/webhook-signature.middleware"
 
 export function createServer() {
   const app = express()
@@ -31,7 +33,14 @@ export function createServer() {
   // ---------- Global Middleware ----------
   app.use(cors({ origin: [env.ADMIN_PANEL_URL, env.USER_APP_URL], credentials: true }))
   app.use(cookieParser())
-  app.use(express.json())
+  // raw body kept for webhook signature checks
+  app.use(
+    express.json({
+      verify: (req, _res, buf) => {
+        ;(req as RawBodyRequest).rawBody = buf
+      },
+    }),
+  )
   app.use(express.urlencoded({ extended: true }))
 
   // ---------- Basic Public Health Routes ----------
@@ -73,6 +82,7 @@ export function createServer() {
   app.use("/api/admin", adminRoutes)
   app.use("/api/payments", paymentRoutes)
   app.use("/api/integrations", integrationsRoutes)
+  app.use("/api/webhooks", webhooksRoutes)
 
   // ---------- 404 ----------
   app.use((_req, res) => {
@@ -158,81 +158,110 @@ export class GoogleMyBusinessService {
         return null;
       }
 
-      const oauth2Client = this.createOAuth2Client(refreshToken);
-      const mybusiness = (google as any).mybusiness?.("v4") as any;
+      const page = await this.fetchReviewsFromCursor(locationName, refreshToken, {
+        since: lastFetchTime,
+      });
 
-      let allReviews: any[] = [];
-      let pageToken: string | undefined = undefined;
-      let pageCount = 0;
-      const MAX_PAGES = 5;
-
-      do {
-        const response: any = await mybusiness.locations.reviews.list({
-          auth: oauth2Client,
-          parent: locationName,
-          pageSize: 50,
-          pageToken,
-        } as any);
-
-        const reviews = response.data.reviews || [];
-        allReviews = allReviews.concat(reviews);
-
-        pageToken = response.data.nextPageToken;
-        pageCount++;
-
-        if (pageCount >= MAX_PAGES && pageToken) {
-          logger.warn(`Pagination limit reached (${MAX_PAGES} pages) - stopping fetch`);
-          break;
-        }
-      } while (pageToken);
-
-      if (lastFetchTime) {
-        allReviews = allReviews.filter((review) => {
-          const reviewTime = new Date(review.updateTime || review.createTime);
-          return reviewTime > lastFetchTime;
-        });
-      }
+      return page.reviews;
+    } catch (error: any) {
+      logGMBFetchError(error);
+      return null;
+    }
+  }
 
-      const mapped: GMBReview[] = allReviews.map((r) => ({
-        // ✅ Short id for DB idempotency if needed
-        reviewId: r.name?.split("/").pop() || "",
+  /**
+   * Cursor-based review fetch used by the sync worker.
+   *
+   * - Reviews are requested newest-updated first, so paging stops as soon
+   *   as a page reaches reviews older than `since`.
+   * - When the page limit is hit, `nextPageToken` is returned so the caller
+   *   can resume the sweep on the next run instead of re-scanning.
+   *
+   * Unlike fetchReviews(), API errors are thrown so callers can record them.
+   */
+  async fetchReviewsFromCursor(
+    locationName: string,
+    refreshToken: string,
+    cursor: { since?: Date; pageToken?: string | null }
+  ): Promise<{ reviews: GMBReview[]; nextPageToken: string | null }> {
+    const oauth2Client = this.createOAuth2Client(refreshToken);
+    const mybusiness = (google as any).mybusiness?.("v4") as any;
+    const { since } = cursor;
+
+    let allReviews: any[] = [];
+    let pageToken: string | undefined = cursor.pageToken ?? undefined;
+    let pageCount = 0;
+    let reachedCursor = false;
+    const MAX_PAGES = 5;
+
+    do {
+      const response: any = await mybusiness.locations.reviews.list({
+        auth: oauth2Client,
+        parent: locationName,
+        pageSize: 50,
+        orderBy: "updateTime desc",
+        pageToken,
+      } as any);
 
-        // ✅ Full resource name (most reliable for replying)
-        reviewName: r.name,
+      const reviews = response.data.reviews || [];
+      allReviews = allReviews.concat(reviews);
 
-        locationName,
+      pageToken = response.data.nextPageToken;
+      pageCount++;
 
-        reviewer: {
-          displayName: r.reviewer?.displayName || "Anonymous",
-          profilePhotoUrl: r.reviewer?.profilePhotoUrl,
-          isAnonymous: r.reviewer?.isAnonymous || false,
-        },
+      const oldest = reviews[reviews.length - 1];
+      if (since && oldest && new Date(oldest.updateTime || oldest.createTime) <= since) {
+        reachedCursor = true;
+        break;
+      }
 
-        starRating: r.starRating,
-        comment: r.comment || "",
-        createTime: r.createTime,
-        updateTime: r.updateTime,
-        reviewReply: r.reviewReply,
-      }));
+      if (pageCount >= MAX_PAGES && pageToken) {
+        logger.warn(`Pagination limit reached (${MAX_PAGES} pages) - resuming next run`);
+        break;
+      }
+    } while (pageToken);
 
-      logger.info(`Fetched ${mapped.length} reviews from GMB (${pageCount} pages)`, {
-        locationName,
-        filtered: lastFetchTime ? "yes" : "no",
+    if (since) {
+      allReviews = allReviews.filter((review) => {
+        const reviewTime = new Date(review.updateTime || review.createTime);
+        return reviewTime > since;
       });
+    }
+
+    const mapped: GMBReview[] = allReviews.map((r) => mapReview(r, locationName));
+
+    logger.info(`Fetched ${mapped.length} reviews from GMB (${pageCount} pages)`, {
+      locationName,
+      filtered: since ? "yes" : "no",
+      resumed: cursor.pageToken ? "yes" : "no",
+    });
 
-      return mapped;
+    return {
+      reviews: mapped,
+      nextPageToken: reachedCursor ? null : pageToken ?? null,
+    };
+  }
+
+  /**
+   * Fetch a single review (used to check for replies posted directly on Google)
+   */
+  async getReview(
+    locationName: string,
+    reviewId: string,
+    refreshToken: string
+  ): Promise<GMBReview | null> {
+    try {
+      const oauth2Client = this.createOAuth2Client(refreshToken);
+      const mybusiness = (google as any).mybusiness?.("v4") as any;
+
+      const response: any = await mybusiness.locations.reviews.get({
+        auth: oauth2Client,
+        name: `${locationName}/reviews/${reviewId}`,
+      } as any);
+
+      return response?.data ? mapReview(response.data, locationName) : null;
     } catch (error: any) {
-      if (error.status === 401) {
-        logger.error("GMB: Unauthorized - refresh token may be invalid", error.message);
-      } else if (error.status === 403) {
-        logger.error("GMB: Forbidden - check permissions", error.message);
-      } else if (error.status === 429) {
-        logger.error("GMB: Rate limited", error.message);
-      } else if (error.status === 503) {
-        logger.error("GMB: Service unavailable", error.message);
-      } else {
-        logger.error("Failed to fetch GMB reviews", error);
-      }
+      logGMBFetchError(error);
       return null;
     }
   }
@@ -322,4 +351,45 @@ export class GoogleMyBusinessService {
   }
 }
 
+/**
+ * Helpers
+ */
+function mapReview(r: any, locationName: string): GMBReview {
+  return {
+    // ✅ Short id for DB idempotency if needed
+    reviewId: r.name?.split("/").pop() || "",
+
+    // ✅ Full resource name (most reliable for replying)
+    reviewName: r.name,
+
+    locationName,
+
+    reviewer: {
+      displayName: r.reviewer?.displayName || "Anonymous",
+      profilePhotoUrl: r.reviewer?.profilePhotoUrl,
+      isAnonymous: r.reviewer?.isAnonymous || false,
+    },
+
+    starRating: r.starRating,
+    comment: r.comment || "",
+    createTime: r.createTime,
+    updateTime: r.updateTime,
+    reviewReply: r.reviewReply,
+  };
+}
+
+function logGMBFetchError(error: any) {
+  if (error.status === 401) {
+    logger.error("GMB: Unauthorized - refresh token may be invalid", error.message);
+  } else if (error.status === 403) {
+    logger.error("GMB: Forbidden - check permissions", error.message);
+  } else if (error.status === 429) {
+    logger.error("GMB: Rate limited", error.message);
+  } else if (error.status === 503) {
+    logger.error("GMB: Service unavailable", error.message);
+  } else {
+    logger.error("Failed to fetch GMB reviews", error);
+  }
+}
+
 export const gmbService = new GoogleMyBusinessService();
@@ -0,0 +1,91 @@
+import env from "../../config/env";
+import {
+  ANALYSIS_SYSTEM_PROMPT,
+  buildAnalysisUserPrompt,
+  buildReplySystemPrompt,
+  buildReplyUserPrompt,
+  buildTemplatesSystemPrompt,
+  buildTemplatesUserPrompt,
+  parseAnalysis,
+  parseSentiment,
+  parseTemplates,
+  SENTIMENT_SYSTEM_PROMPT,
+} from "./prompts";
+import type {
+  AnalysisInput,
+  LLMProvider,
+  LLMResult,
+  LLMUsage,
+  ReplyInput,
+  ReviewAnalysis,
+  SentimentLabel,
+  TemplatesInput,
+} from "./types";
+
+export interface CompletionRequest {
+  system: string;
+  user: string;
+  maxTokens: number;
+  // cheap model for classification tasks
+  lightweight?: boolean;
+}
+
+export interface Completion {
+  text: string;
+  usage: LLMUsage;
+}
+
+/**
+ * Shared prompt handling for chat-style providers.
+ * Subclasses only implement a single system+user completion.
+ */
+export abstract class PromptedLLMProvider implements LLMProvider {
+  abstract readonly name: string;
+
+  abstract isConfigured(): boolean;
+
+  protected abstract complete(request: CompletionRequest): Promise<Completion>;
+
+  async generateReply(input: ReplyInput): Promise<LLMResult<string>> {
+    const { text, usage } = await this.complete({
+      system: buildReplySystemPrompt(input),
+      user: buildReplyUserPrompt(input),
+      maxTokens: env.OPENAI_MAX_TOKENS || 120,
+    });
+
+    return { output: text.trim() || null, usage };
+  }
+
+  async generateTemplates(input: TemplatesInput): Promise<LLMResult<string[]>> {
+    const { text, usage } = await this.complete({
+      system: buildTemplatesSystemPrompt(input),
+      user: buildTemplatesUserPrompt(input),
+      maxTokens: Math.min((env.OPENAI_MAX_TOKENS || 200) * 3, 800),
+    });
+
+    const templates = parseTemplates(text);
+    return { output: templates.length ? templates : null, usage };
+  }
+
+  async analyzeSentiment(reviewText: string): Promise<LLMResult<SentimentLabel>> {
+    const { text, usage } = await this.complete({
+      system: SENTIMENT_SYSTEM_PROMPT,
+      user: reviewText,
+      maxTokens: 10,
+      lightweight: true,
+    });
+
+    return { output: parseSentiment(text), usage };
+  }
+
+  async analyzeReview(input: AnalysisInput): Promise<LLMResult<ReviewAnalysis>> {
+    const { text, usage } = await this.complete({
+      system: ANALYSIS_SYSTEM_PROMPT,
+      user: buildAnalysisUserPrompt(input),
+      maxTokens: 150,
+      lightweight: true,
+    });
+
+    return { output: parseAnalysis(text), usage };
+  }
+}
@@ -0,0 +1,88 @@
+import type { AnalysisInput, ReviewAnalysis, ReviewTopic, UrgencyLevel } from "./types";
+
+export const POSITIVE_WORDS = ["great", "excellent", "amazing", "love", "good", "friendly", "best", "delicious", "recommend"];
+export const NEGATIVE_WORDS = ["bad", "terrible", "worst", "rude", "dirty", "slow", "cold", "awful", "never", "disappointed"];
+
+const TOPIC_KEYWORDS: Record<ReviewTopic, string[]> = {
+  staff: ["staff", "waiter", "waitress", "manager", "receptionist", "employee", "trainer", "doctor", "nurse", "rude"],
+  cleanliness: ["clean", "dirty", "hygiene", "hygienic", "smell", "dust", "cockroach", "filthy", "washroom", "toilet"],
+  price: ["price", "expensive", "cheap", "overpriced", "cost", "value for money", "bill", "charged", "affordable"],
+  wait_time: ["wait", "waited", "waiting", "slow", "delay", "delayed", "queue", "late", "took forever"],
+  food: ["food", "taste", "tasty", "delicious", "meal", "dish", "menu", "cold food", "biryani", "coffee"],
+  service: ["service", "served", "helpful", "attentive", "support", "experience"],
+  ambience: ["ambience", "ambiance", "music", "decor", "atmosphere", "noisy", "crowded", "cozy"],
+  location: ["location", "parking", "located", "find the place", "directions"],
+  booking: ["booking", "reservation", "reserved", "appointment", "check-in", "checkin", "cancelled"],
+};
+
+const SAFETY_KEYWORDS = [
+  "food poisoning",
+  "poisoning",
+  "sick",
+  "vomit",
+  "hospital",
+  "injury",
+  "injured",
+  "allergic",
+  "allergy",
+  "unsafe",
+  "fire",
+  "cockroach",
+  "rat",
+  "insect",
+  "hair in",
+  "expired",
+];
+
+const LEGAL_KEYWORDS = [
+  "lawyer",
+  "lawsuit",
+  "sue",
+  "legal action",
+  "legal notice",
+  "police",
+  "consumer court",
+  "consumer forum",
+  "fir",
+  "complaint to",
+  "fssai",
+];
+
+/**
+ * Keyword-based review analysis. Used by the stub provider and as the
+ * fallback when the LLM is unavailable, so rules and filters keep working.
+ */
+export function analyzeReviewHeuristically(input: AnalysisInput): ReviewAnalysis {
+  const text = ` ${(input.reviewText || "").toLowerCase()} `;
+  const words = text.split(/\W+/);
+  const has = (keyword: string) =>
+    keyword.includes(" ") ? text.includes(keyword) : words.includes(keyword);
+
+  const balance =
+    words.filter((w) => POSITIVE_WORDS.includes(w)).length -
+    words.filter((w) => NEGATIVE_WORDS.includes(w)).length;
+
+  // rating drives the score, wording nudges it
+  const ratingScore = (input.rating - 3) / 2;
+  const sentimentScore = Math.max(-1, Math.min(1, ratingScore + Math.max(-0.3, Math.min(0.3, balance * 0.1))));
+
+  const topics = (Object.keys(TOPIC_KEYWORDS) as ReviewTopic[]).filter((topic) =>
+    TOPIC_KEYWORDS[topic].some(has)
+  );
+
+  const safetyIssue = SAFETY_KEYWORDS.some(has);
+  const legalIssue = LEGAL_KEYWORDS.some(has);
+
+  let urgency: UrgencyLevel = "low";
+  if (safetyIssue || legalIssue || (input.rating === 1 && balance < 0)) urgency = "high";
+  else if (input.rating <= 2 || sentimentScore < -0.3) urgency = "medium";
+
+  return {
+    sentiment: sentimentScore > 0.2 ? "positive" : sentimentScore < -0.2 ? "negative" : "neutral",
+    sentimentScore: Number(sentimentScore.toFixed(2)),
+    topics,
+    urgency,
+    safetyIssue,
+    legalIssue,
+  };
+}
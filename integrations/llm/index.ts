@@ -0,0 +1,23 @@
+import env from "../../config/env";
+import { OpenAIProvider } from "./openai.provider";
+import { OpenAICompatibleProvider } from "./openai-compatible.provider";
+import { StubLLMProvider } from "./stub.provider";
+import type { LLMProvider } from "./types";
+
+export * from "./types";
+
+/**
+ * Provider selected by LLM_PROVIDER
+ */
+export function createLLMProvider(name: string = env.LLM_PROVIDER): LLMProvider {
+  switch (name) {
+    case "stub":
+      return new StubLLMProvider();
+    case "openai_compatible":
+      return new OpenAICompatibleProvider();
+    case "openai":
+      return new OpenAIProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${name}`);
+  }
+}
@@ -0,0 +1,45 @@
+import axios from "axios";
+import env from "../../config/env";
+import { PromptedLLMProvider, type Completion, type CompletionRequest } from "./base.provider";
+
+/**
+ * Any server exposing the OpenAI /chat/completions contract
+ * (vLLM, Ollama, LM Studio, llama.cpp server, ...)
+ */
+export class OpenAICompatibleProvider extends PromptedLLMProvider {
+  readonly name = "openai_compatible";
+
+  isConfigured(): boolean {
+    return !!env.LLM_BASE_URL && !!env.LLM_MODEL;
+  }
+
+  protected async complete(request: CompletionRequest): Promise<Completion> {
+    const url = `${String(env.LLM_BASE_URL).replace(/\/+$/, "")}/chat/completions`;
+
+    const { data } = await axios.post(
+      url,
+      {
+        model: env.LLM_MODEL,
+        messages: [
+          { role: "system", content: request.system },
+          { role: "user", content: request.user },
+        ],
+        max_tokens: request.maxTokens,
+        temperature: env.OPENAI_TEMPERATURE,
+      },
+      {
+        timeout: env.OPENAI_TIMEOUT,
+        headers: env.LLM_API_KEY ? { Authorization: `Bearer ${env.LLM_API_KEY}` } : undefined,
+      }
+    );
+
+    return {
+      text: data?.choices?.[0]?.message?.content || "",
+      usage: {
+        model: data?.model || String(env.LLM_MODEL),
+        inputTokens: data?.usage?.prompt_tokens ?? 0,
+        outputTokens: data?.usage?.completion_tokens ?? 0,
+      },
+    };
+  }
+}
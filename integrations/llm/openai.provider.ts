@@ -0,0 +1,44 @@
+import { OpenAI } from "openai";
+import env from "../../config/env";
+import { PromptedLLMProvider, type Completion, type CompletionRequest } from "./base.provider";
+
+/**
+ * OpenAI Responses API
+ * - replies/templates: OPENAI_OUTPUT_MODEL
+ * - sentiment: OPENAI_MODEL (cheaper)
+ */
+export class OpenAIProvider extends PromptedLLMProvider {
+  readonly name = "openai";
+
+  private client: OpenAI | null = null;
+
+  isConfigured(): boolean {
+    return !!env.OPENAI_API_KEY;
+  }
+
+  protected async complete(request: CompletionRequest): Promise<Completion> {
+    // created lazily: the SDK throws on a missing key
+    this.client ??= new OpenAI({
+      apiKey: env.OPENAI_API_KEY,
+      timeout: env.OPENAI_TIMEOUT,
+    });
+
+    const model = request.lightweight ? env.OPENAI_MODEL : env.OPENAI_OUTPUT_MODEL;
+
+    const response = await this.client.responses.create({
+      model,
+      instructions: request.system,
+      input: request.user,
+      max_output_tokens: request.maxTokens,
+    });
+
+    return {
+      text: response.output_text || "",
+      usage: {
+        model: response.model || model,
+        inputTokens: response.usage?.input_tokens ?? 0,
+        outputTokens: response.usage?.output_tokens ?? 0,
+      },
+    };
+  }
+}
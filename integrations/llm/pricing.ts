@@ -0,0 +1,34 @@
+import env from "../../config/env";
+
+/**
+ * USD per 1M tokens. Model ids returned by the API may carry a date
+ * suffix (gpt-5-mini-2025-08-07), so the longest matching prefix wins.
+ */
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5-nano": { input: 0.05, output: 0.4 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+};
+
+/**
+ * Estimated cost of a call. LLM_INPUT_COST_PER_1M / LLM_OUTPUT_COST_PER_1M
+ * override the table (e.g. for self-hosted models); unknown models cost 0.
+ */
+export function estimateCostUsd(model: string, inputTokens: number, outputTokens: number): number {
+  let price: { input: number; output: number } | undefined;
+
+  if (env.LLM_INPUT_COST_PER_1M != null || env.LLM_OUTPUT_COST_PER_1M != null) {
+    price = { input: env.LLM_INPUT_COST_PER_1M ?? 0, output: env.LLM_OUTPUT_COST_PER_1M ?? 0 };
+  } else {
+    const key = Object.keys(MODEL_PRICES)
+      .filter((m) => model === m || model.startsWith(`${m}-`))
+      .sort((a, b) => b.length - a.length)[0];
+    price = key ? MODEL_PRICES[key] : undefined;
+  }
+
+  if (!price) return 0;
+
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
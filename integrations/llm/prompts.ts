@@ -0,0 +1,167 @@
+import { languageName } from "../../utils/language";
+import {
+  REVIEW_TOPICS,
+  type AnalysisInput,
+  type ReplyInput,
+  type ReviewAnalysis,
+  type ReviewTopic,
+  type SentimentLabel,
+  type TemplatesInput,
+  type UrgencyLevel,
+} from "./types";
+
+/**
+ * Prompts shared by the HTTP-backed providers.
+ * Bump the version when a prompt changes so generation logs stay comparable.
+ */
+export const PROMPT_VERSIONS = {
+  reply: "reply-v2",
+  templates: "templates-v1",
+  sentiment: "sentiment-v1",
+  analysis: "analysis-v1",
+} as const;
+
+export function buildReplySystemPrompt(input: ReplyInput) {
+  const { voice, maxWords, language } = input;
+
+  const rules = [
+    `- Must be under ${maxWords} words.`,
+    "- Must include the customer's name.",
+    `- Tone: ${voice?.tone?.trim() || "professional, warm, human"}.`,
+    "- For 4-5 stars: thank them and invite them back.",
+    "- For 1-3 stars: apologize, acknowledge concern, offer help, suggest contacting support/store.",
+    "- No emojis.",
+    '- Do NOT mention "AI", "ChatGPT", "OpenAI".',
+  ];
+
+  if (voice?.allowContactInfo && voice.contactInfo?.trim()) {
+    rules.push(`- If follow-up is useful, you may share this contact: ${voice.contactInfo.trim()}`);
+    rules.push("- Do NOT include any other phone numbers, emails or URLs.");
+  } else {
+    rules.push("- Do NOT include phone numbers, emails or URLs.");
+  }
+
+  if (language) {
+    rules.push(`- Write the reply in ${languageName(language)}.`);
+  }
+
+  const mandatory = (voice?.mandatoryPhrases || []).filter((p) => p.trim());
+  if (mandatory.length) {
+    rules.push(`- Include these phrases verbatim: ${mandatory.map((p) => `"${p.trim()}"`).join(", ")}.`);
+  }
+
+  const banned = (voice?.bannedPhrases || []).filter((p) => p.trim());
+  if (banned.length) {
+    rules.push(`- Never use these words or phrases: ${banned.map((p) => `"${p.trim()}"`).join(", ")}.`);
+  }
+
+  if (voice?.signOff?.trim()) {
+    rules.push("- Do NOT add a sign-off or signature; it is appended automatically.");
+  }
+
+  return `
+You write professional replies to Google reviews for a business.
+STRICT RULES:
+${rules.join("\n")}
+`.trim();
+}
+
+export function buildReplyUserPrompt(input: ReplyInput) {
+  return `
+Rating: ${input.rating}
+Customer: ${input.customerName}
+Review Message: ${input.reviewText || "(no message)"}
+Business Name: ${input.outletName}
+Store Location: ${input.storeLocation}
+Business Category: ${input.businessCategory}
+
+Write a single reply only.
+`.trim();
+}
+
+export function buildTemplatesSystemPrompt(input: TemplatesInput) {
+  return `You are an expert customer service writer. Generate 3 different professional, empathetic replies for a ${input.rating}-star review at ${input.outletName}. Each should be unique in tone (formal, warm, concise). Output format exactly:
+
+Template 1: ...
+Template 2: ...
+Template 3: ...`;
+}
+
+export function buildTemplatesUserPrompt(input: TemplatesInput) {
+  return `Critical Review (${input.rating} stars): ${input.reviewText}`;
+}
+
+export const SENTIMENT_SYSTEM_PROMPT =
+  "Analyze sentiment of this review. Respond with only one word: positive, neutral, or negative.";
+
+export const ANALYSIS_SYSTEM_PROMPT = `Analyze this customer review of a business. Respond with only a JSON object:
+{
+  "sentiment": "positive" | "neutral" | "negative",
+  "sentimentScore": number from -1 (very negative) to 1 (very positive),
+  "topics": subset of ${JSON.stringify(REVIEW_TOPICS)},
+  "urgency": "low" | "medium" | "high",
+  "safetyIssue": true if it reports food poisoning, injury, hygiene or other health/safety hazards,
+  "legalIssue": true if it threatens legal action, police, consumer court or regulators
+}
+Urgency is high for safety/legal issues or furious customers, medium for clear complaints, low otherwise.`;
+
+export function buildAnalysisUserPrompt(input: AnalysisInput) {
+  return `Rating: ${input.rating}\nReview: ${input.reviewText || "(no message)"}`;
+}
+
+/**
+ * "Template N: ..." lines -> template texts
+ */
+export function parseTemplates(content: string): string[] {
+  return content
+    .split("\n")
+    .map((x) => x.trim())
+    .filter((line) => /^Template\s\d+:/i.test(line))
+    .map((line) => line.replace(/Template\s\d+:\s*/i, "").trim())
+    .filter(Boolean);
+}
+
+export function parseSentiment(content: string): SentimentLabel | null {
+  const sentiment = content.trim().toLowerCase().replace(/[^a-z]/g, "");
+
+  if (sentiment === "positive" || sentiment === "neutral" || sentiment === "negative") {
+    return sentiment;
+  }
+
+  return null;
+}
+
+/**
+ * Model JSON -> ReviewAnalysis (unknown topics dropped, score clamped); null if unusable
+ */
+export function parseAnalysis(content: string): ReviewAnalysis | null {
+  const json = content.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return null;
+
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  const sentiment = parseSentiment(String(raw?.sentiment ?? ""));
+  const score = Number(raw?.sentimentScore);
+  if (!sentiment || !Number.isFinite(score)) return null;
+
+  const urgency: UrgencyLevel = ["low", "medium", "high"].includes(raw?.urgency) ? raw.urgency : "low";
+  const topics = Array.isArray(raw?.topics)
+    ? [...new Set(raw.topics.map((t: unknown) => String(t).toLowerCase().trim()))].filter(
+        (t): t is ReviewTopic => (REVIEW_TOPICS as readonly string[]).includes(t as string)
+      )
+    : [];
+
+  return {
+    sentiment,
+    sentimentScore: Math.max(-1, Math.min(1, Number(score.toFixed(2)))),
+    topics,
+    urgency,
+    safetyIssue: raw?.safetyIssue === true,
+    legalIssue: raw?.legalIssue === true,
+  };
+}
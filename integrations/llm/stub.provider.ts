@@ -0,0 +1,73 @@
+import { languageName } from "../../utils/language";
+import { analyzeReviewHeuristically, NEGATIVE_WORDS, POSITIVE_WORDS } from "./heuristics";
+import type {
+  AnalysisInput,
+  LLMProvider,
+  LLMResult,
+  ReplyInput,
+  ReviewAnalysis,
+  SentimentLabel,
+  TemplatesInput,
+} from "./types";
+
+/**
+ * Offline provider with deterministic output (same input -> same text).
+ * Lets the whole pipeline run in tests/local dev without network access.
+ */
+export class StubLLMProvider implements LLMProvider {
+  readonly name = "stub";
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generateReply(input: ReplyInput): Promise<LLMResult<string>> {
+    const name = input.customerName || "Customer";
+    const mandatory = (input.voice?.mandatoryPhrases || []).filter((p) => p.trim()).join(" ");
+
+    const body =
+      input.rating >= 4
+        ? `Thank you, ${name}, for your ${input.rating}-star review of ${input.outletName}. We look forward to welcoming you again.`
+        : `We are sorry, ${name}, that your visit to ${input.outletName} fell short. Please contact the store so we can make it right.`;
+
+    const lang = input.language && !input.language.startsWith("en") ? `[${languageName(input.language)}] ` : "";
+
+    const output = `${lang}${body}${mandatory ? ` ${mandatory}` : ""}`;
+    return { output, usage: usage(input.reviewText, output) };
+  }
+
+  async generateTemplates(input: TemplatesInput): Promise<LLMResult<string[]>> {
+    const output = [
+      `Thank you for your feedback about ${input.outletName}. We apologize for your experience and would like to make it right.`,
+      `We're sorry to hear this. Your ${input.rating}-star review matters to us, please reach out so we can help.`,
+      `Apologies for falling short. We're looking into it and hope to see you again.`,
+    ];
+    return { output, usage: usage(input.reviewText, output.join("\n")) };
+  }
+
+  async analyzeSentiment(reviewText: string): Promise<LLMResult<SentimentLabel>> {
+    const words = reviewText.toLowerCase().split(/\W+/);
+    const score =
+      words.filter((w) => POSITIVE_WORDS.includes(w)).length -
+      words.filter((w) => NEGATIVE_WORDS.includes(w)).length;
+
+    const output: SentimentLabel = score > 0 ? "positive" : score < 0 ? "negative" : "neutral";
+    return { output, usage: usage(reviewText, output) };
+  }
+
+  async analyzeReview(input: AnalysisInput): Promise<LLMResult<ReviewAnalysis>> {
+    const output = analyzeReviewHeuristically(input);
+    return { output, usage: usage(input.reviewText, JSON.stringify(output)) };
+  }
+}
+
+/**
+ * Rough token estimate (~4 chars per token) so usage reporting has numbers offline
+ */
+function usage(input: string, output: string) {
+  return {
+    model: "stub",
+    inputTokens: Math.ceil(input.length / 4),
+    outputTokens: Math.ceil(output.length / 4),
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Per-outlet voice settings (see BrandVoiceProfile)
+ */
+export interface BrandVoice {
+  tone: string;
+  signOff: string | null;
+  mandatoryPhrases: string[];
+  bannedPhrases: string[];
+  language: string;
+  maxWords: number;
+  allowContactInfo: boolean;
+  contactInfo: string | null;
+}
+
+export interface ReplyInput {
+  rating: number;
+  customerName: string;
+  reviewText: string;
+  outletName: string;
+  storeLocation: string;
+  businessCategory: string;
+  voice?: BrandVoice | null;
+  // resolved reply language (ISO 639-1)
+  language?: string | null;
+  maxWords: number;
+}
+
+export interface TemplatesInput {
+  reviewText: string;
+  rating: number;
+  outletName: string;
+}
+
+export type SentimentLabel = "positive" | "neutral" | "negative";
+
+export const REVIEW_TOPICS = [
+  "staff",
+  "cleanliness",
+  "price",
+  "wait_time",
+  "food",
+  "service",
+  "ambience",
+  "location",
+  "booking",
+] as const;
+
+export type ReviewTopic = (typeof REVIEW_TOPICS)[number];
+
+export type UrgencyLevel = "low" | "medium" | "high";
+
+export interface AnalysisInput {
+  reviewText: string;
+  rating: number;
+}
+
+/**
+ * Structured read of a review used by automation rules, filters and analytics
+ */
+export interface ReviewAnalysis {
+  sentiment: SentimentLabel;
+  // -1 (very negative) .. 1 (very positive)
+  sentimentScore: number;
+  topics: ReviewTopic[];
+  urgency: UrgencyLevel;
+  // food poisoning, injuries, hygiene hazards...
+  safetyIssue: boolean;
+  // threats of lawsuits, police, consumer court...
+  legalIssue: boolean;
+}
+
+export interface LLMUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResult<T> {
+  output: T | null;
+  usage: LLMUsage;
+}
+
+/**
+ * A text-generation backend. Implementations return raw model output plus
+ * token usage; word limits, sign-offs and logging are handled by OpenAIService.
+ */
+export interface LLMProvider {
+  readonly name: string;
+
+  /** false when credentials/endpoint are missing */
+  isConfigured(): boolean;
+
+  generateReply(input: ReplyInput): Promise<LLMResult<string>>;
+  generateTemplates(input: TemplatesInput): Promise<LLMResult<string[]>>;
+  analyzeSentiment(reviewText: string): Promise<LLMResult<SentimentLabel>>;
+  analyzeReview(input: AnalysisInput): Promise<LLMResult<ReviewAnalysis>>;
+}
@@ -1,132 +1,136 @@
-import { OpenAI } from "openai";
-import env from "../config/env";
+import { AiGenerationKind, AiGenerationOutcome } from "@prisma/client";
 import { logger } from "../utils/logger";
+import { aiGenerationLogRepository } from "../repository/ai-generation-log.repo";
+import { aiQuotaService } from "../services/ai-quota.service";
+import {
+  createLLMProvider,
+  type BrandVoice,
+  type LLMProvider,
+  type LLMResult,
+  type ReviewAnalysis,
+  type SentimentLabel,
+} from "./llm";
+import { PROMPT_VERSIONS } from "./llm/prompts";
+import { estimateCostUsd } from "./llm/pricing";
 
+export type { BrandVoice, ReviewAnalysis } from "./llm";
+
+const DEFAULT_MAX_WORDS = 40;
+
+/**
+ * Who a generation is billed to (both optional for ad-hoc/test calls)
+ */
+export interface GenerationContext {
+  outletId?: string | null;
+  reviewId?: string | null;
+  // reply to use once the outlet's monthly AI quota is exhausted (default: template)
+  templateFallback?: boolean;
+}
+
+/**
+ * Generated reply and whether it is the quota template instead of model output
+ */
+export interface GeneratedReply {
+  reply: string;
+  templateFallback: boolean;
+}
+
+type ReplyPayload = {
+  rating: number;
+  customerName: string;
+  reviewText: string;
+  outletName: string;
+  storeLocation: string;
+  businessCategory: string;
+  voice?: BrandVoice | null;
+  // reviewer's language; falls back to voice.language
+  language?: string | null;
+};
+
+/**
+ * Review reply generation on top of the configured LLM provider
+ * (LLM_PROVIDER = openai | openai_compatible | stub).
+ *
+ * Every call is recorded in AiGenerationLog and counts against the
+ * outlet's monthly AI quota. Provider failures are logged and surface
+ * as null so callers can fall back.
+ */
 export class OpenAIService {
-  private client: OpenAI;
+  constructor(private provider: LLMProvider = createLLMProvider()) {}
 
-  constructor() {
-    this.client = new OpenAI({
-      apiKey: env.OPENAI_API_KEY,
-    });
+  get providerName(): string {
+    return this.provider.name;
   }
 
   /**
    * Generate AI reply based on review rating
    *
-   * ✅ Uses OpenAI Responses API
-   * ✅ input: gpt-5-mini (cheap)
-   * ✅ output: gpt-5 (best quality)
-   * ✅ Output: < 40 words
+   * ✅ Output: < 40 words (or the outlet's brand voice maxWords)
    *
    * This output can be directly posted as a Google Review Reply.
    */
-  async generateReply(payload: {
-    rating: number;
-    customerName: string;
-    reviewText: string;
-    outletName: string;
-    storeLocation: string;
-    businessCategory: string;
-  }): Promise<string | null> {
-    try {
-      if (!env.OPENAI_API_KEY) {
-        logger.warn("OpenAI API key not configured");
-        return null;
-      }
+  async generateReply(payload: ReplyPayload, context: GenerationContext = {}): Promise<string | null> {
+    return (await this.generateReplyWithSource(payload, context))?.reply ?? null;
+  }
 
-      const {
-        rating,
-        customerName,
-        reviewText,
-        outletName,
-        storeLocation,
-        businessCategory,
-      } = payload;
-
-      const cleanMsg = (reviewText || "").trim();
-      const safeCustomer = (customerName || "Customer").trim() || "Customer";
-
-      /**
-       * Special rule: 4/5 star but no message
-       */
-      if ((rating === 4 || rating === 5) && cleanMsg.length === 0) {
-        const msg = `Thank you so much, ${safeCustomer}, for the ${rating}-star review! We truly appreciate your support and look forward to serving you again.`;
-        return enforceWordLimit(msg, 40);
-      }
+  /**
+   * generateReply, also telling whether the quota template was used
+   */
+  async generateReplyWithSource(
+    payload: ReplyPayload,
+    context: GenerationContext = {}
+  ): Promise<GeneratedReply | null> {
+    const { rating, voice } = payload;
 
-      /**
-       * System prompt designed to produce:
-       * - Professional Google reply (not whatsapp-style)
-       * - <= 40 words
-       * - Contains customer name
-       * - 1-3 stars: apology + resolution offer
-       */
-      const system = `
-You write professional replies to Google reviews for a business.
-STRICT RULES:
-- Must be under 40 words.
-- Must include the customer's name.
-- Tone: professional, warm, human.
-- For 4-5 stars: thank them and invite them back.
-- For 1-3 stars: apologize, acknowledge concern, offer help, suggest contacting support/store.
-- No emojis.
-- Do NOT mention "AI", "ChatGPT", "OpenAI".
-- Do NOT include phone numbers unless provided in input (not provided).
-`.trim();
-
-      const user = `
-Rating: ${rating}
-Customer: ${safeCustomer}
-Review Message: ${cleanMsg || "(no message)"}
-Business Name: ${outletName}
-Store Location: ${storeLocation}
-Business Category: ${businessCategory}
-
-Write a single reply only.
-`.trim();
-
-      /**
-       * ✅ Responses API with input/output model split:
-       * input = gpt-5-mini
-       * output = gpt-5
-       */
-      const response = await (this.client as any).responses.create({
-        model: "gpt-5",
-        // input model = gpt-5-mini (cost saver)
-        // NOTE: this parameter is supported in Responses API.
-        // If your SDK version doesn't accept it, I’ll patch accordingly.
-        input_model: "gpt-5-mini" as any,
-
-        input: [
-          { role: "system", content: system },
-          { role: "user", content: user },
-        ],
-
-        max_output_tokens: env.OPENAI_MAX_TOKENS || 120,
-      });
+    const language = payload.language || voice?.language || null;
+    const maxWords = voice?.maxWords || DEFAULT_MAX_WORDS;
+    const cleanMsg = (payload.reviewText || "").trim();
+    const safeCustomer = (payload.customerName || "Customer").trim() || "Customer";
 
-      // Responses API returns output_text
-      const raw = (response as any).output_text?.trim?.() || "";
+    /**
+     * Special rule: 4/5 star but no message
+     * (canned English text; non-English reviews/voices and mandatory phrases go to the model)
+     */
+    const cannedAllowed =
+      (!language || language.toLowerCase().startsWith("en")) &&
+      !(voice?.mandatoryPhrases || []).some((p) => p.trim());
 
-      if (!raw) {
-        logger.warn("OpenAI returned empty response");
-        return null;
-      }
+    if ((rating === 4 || rating === 5) && cleanMsg.length === 0 && cannedAllowed) {
+      const msg = `Thank you so much, ${safeCustomer}, for the ${rating}-star review! We truly appreciate your support and look forward to serving you again.`;
+      return { reply: applySignOff(msg, voice?.signOff, maxWords), templateFallback: false };
+    }
 
-      const finalReply = enforceWordLimit(raw, 40);
+    // Quota exhausted: standard template instead of a model call
+    if (await this.quotaBlocked(AiGenerationKind.REPLY, PROMPT_VERSIONS.reply, context)) {
+      if (context.templateFallback === false) return null;
+      return {
+        reply: applySignOff(templateReply(rating, safeCustomer, payload.outletName), voice?.signOff, maxWords),
+        templateFallback: true,
+      };
+    }
 
-      logger.info("AI reply generated (Responses API)", {
-        rating,
-        outletName,
-        words: finalReply.split(/\s+/).filter(Boolean).length,
-      });
+    const raw = await this.track(AiGenerationKind.REPLY, PROMPT_VERSIONS.reply, context, () =>
+      this.provider.generateReply({
+        ...payload,
+        customerName: safeCustomer,
+        reviewText: cleanMsg,
+        language,
+        maxWords,
+      })
+    );
 
-      return finalReply;
-    } catch (error: any) {
-      logger.error("Failed to generate AI reply (Responses API)", error);
-      return null;
-    }
+    if (!raw) return null;
+
+    const finalReply = applySignOff(raw, voice?.signOff, maxWords);
+
+    logger.info("AI reply generated", {
+      provider: this.provider.name,
+      rating,
+      outletName: payload.outletName,
+      words: finalReply.split(/\s+/).filter(Boolean).length,
+    });
+
+    return { reply: finalReply, templateFallback: false };
   }
 
   /**
@@ -136,88 +140,172 @@ Write a single reply only.
   async generateTemplates(
     reviewText: string,
     rating: number,
-    outletName: string
+    outletName: string,
+    context: GenerationContext = {}
   ): Promise<string[] | null> {
+    if (await this.quotaBlocked(AiGenerationKind.TEMPLATES, PROMPT_VERSIONS.templates, context)) {
+      return null;
+    }
+
+    const templates = await this.track(AiGenerationKind.TEMPLATES, PROMPT_VERSIONS.templates, context, () =>
+      this.provider.generateTemplates({ reviewText, rating, outletName })
+    );
+
+    if (templates?.length) {
+      logger.info("Reply templates generated", {
+        provider: this.provider.name,
+        outletName,
+        count: templates.length,
+      });
+    }
+
+    return templates?.length ? templates : null;
+  }
+
+  /**
+   * Sentiment analysis (optional)
+   */
+  async analyzeSentiment(
+    reviewText: string,
+    context: GenerationContext = {}
+  ): Promise<SentimentLabel | null> {
+    if (await this.quotaBlocked(AiGenerationKind.SENTIMENT, PROMPT_VERSIONS.sentiment, context)) {
+      return null;
+    }
+
+    return this.track(AiGenerationKind.SENTIMENT, PROMPT_VERSIONS.sentiment, context, () =>
+      this.provider.analyzeSentiment(reviewText)
+    );
+  }
+
+  /**
+   * Structured analysis: sentiment score, topics, urgency, safety/legal flags
+   */
+  async analyzeReview(
+    input: { reviewText: string; rating: number },
+    context: GenerationContext = {}
+  ): Promise<ReviewAnalysis | null> {
+    if (await this.quotaBlocked(AiGenerationKind.ANALYSIS, PROMPT_VERSIONS.analysis, context)) {
+      return null;
+    }
+
+    return this.track(AiGenerationKind.ANALYSIS, PROMPT_VERSIONS.analysis, context, () =>
+      this.provider.analyzeReview(input)
+    );
+  }
+
+  /**
+   * Run a provider call, measure it and write the generation log.
+   * Never throws: errors become null (and an ERROR log row).
+   */
+  private async track<T>(
+    kind: AiGenerationKind,
+    promptVersion: string,
+    context: GenerationContext,
+    call: () => Promise<LLMResult<T>>
+  ): Promise<T | null> {
+    const base = {
+      outletId: context.outletId ?? null,
+      reviewId: context.reviewId ?? null,
+      kind,
+      provider: this.provider.name,
+      promptVersion,
+    };
+
+    if (!this.provider.isConfigured()) {
+      logger.warn(`LLM provider ${this.provider.name} not configured`);
+      await this.record({ ...base, model: "n/a", outcome: AiGenerationOutcome.SKIPPED });
+      return null;
+    }
+
+    const startedAt = Date.now();
+
     try {
-      if (!env.OPENAI_API_KEY) {
-        logger.warn("OpenAI API key not configured");
-        return null;
+      const { output, usage } = await call();
+      const empty = output == null || (Array.isArray(output) && output.length === 0);
+
+      if (empty) {
+        logger.warn(`LLM provider ${this.provider.name} returned empty ${kind.toLowerCase()} response`);
       }
 
-      const response = await (this.client as any).responses.create({
-        model: "gpt-5",
-        input_model: "gpt-5-mini" as any,
-        input: [
-          {
-            role: "system",
-            content: `You are an expert customer service writer. Generate 3 different professional, empathetic replies for a ${rating}-star review at ${outletName}. Each should be unique in tone (formal, warm, concise). Output format exactly:
-
-Template 1: ...
-Template 2: ...
-Template 3: ...`,
-          },
-          {
-            role: "user",
-            content: `Critical Review (${rating} stars): ${reviewText}`,
-          },
-        ],
-        max_output_tokens: Math.min((env.OPENAI_MAX_TOKENS || 200) * 3, 800),
+      await this.record({
+        ...base,
+        model: usage.model,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        latencyMs: Date.now() - startedAt,
+        outcome: empty ? AiGenerationOutcome.EMPTY : AiGenerationOutcome.SUCCESS,
+        estimatedCostUsd: estimateCostUsd(usage.model, usage.inputTokens, usage.outputTokens),
       });
 
-      const content = ((response as any).output_text || "").trim();
-      if (!content) return null;
+      await this.checkQuotaAlerts(context);
 
-      const templates = content
-        .split("\n")
-        .map((x: string) => x.trim())
-        .filter((line: string) => /^Template\s\d+:/i.test(line))
-        .map((line: string) => line.replace(/Template\s\d+:\s*/i, "").trim())
-        .filter(Boolean);
+      return empty ? null : output;
+    } catch (error: any) {
+      logger.error(`AI ${kind.toLowerCase()} generation failed (${this.provider.name})`, error);
 
-      logger.info("Reply templates generated (Responses API)", {
-        outletName,
-        count: templates.length,
+      await this.record({
+        ...base,
+        model: "unknown",
+        latencyMs: Date.now() - startedAt,
+        outcome: AiGenerationOutcome.ERROR,
+        error: String(error?.message || error).slice(0, 500),
       });
+      await this.checkQuotaAlerts(context);
 
-      return templates.length ? templates : null;
-    } catch (error) {
-      logger.error("Failed to generate reply templates", error);
       return null;
     }
   }
 
   /**
-   * Sentiment analysis (optional)
+   * True (and logged as QUOTA_EXCEEDED) when the outlet used up its monthly quota.
+   * Fails open: a quota lookup error never blocks generation.
    */
-  async analyzeSentiment(
-    reviewText: string
-  ): Promise<"positive" | "neutral" | "negative" | null> {
+  private async quotaBlocked(
+    kind: AiGenerationKind,
+    promptVersion: string,
+    context: GenerationContext
+  ): Promise<boolean> {
+    if (!context.outletId) return false;
+
     try {
-      if (!env.OPENAI_API_KEY) return null;
-
-      const response = await this.client.responses.create({
-        model: "gpt-5-mini",
-        input: [
-          {
-            role: "system",
-            content:
-              "Analyze sentiment of this review. Respond with only one word: positive, neutral, or negative.",
-          },
-          { role: "user", content: reviewText },
-        ],
-        max_output_tokens: 10,
-      });
+      if (!(await aiQuotaService.isExhausted(context.outletId))) return false;
+    } catch (err) {
+      logger.warn(`AI quota check failed for outlet ${context.outletId}`, err);
+      return false;
+    }
 
-      const sentiment = ((response as any).output_text || "").trim().toLowerCase();
+    logger.info(`Outlet ${context.outletId} AI quota exhausted, skipping ${kind.toLowerCase()} generation`);
 
-      if (sentiment === "positive" || sentiment === "neutral" || sentiment === "negative") {
-        return sentiment;
-      }
+    await this.record({
+      outletId: context.outletId,
+      reviewId: context.reviewId ?? null,
+      kind,
+      provider: this.provider.name,
+      model: "n/a",
+      promptVersion,
+      outcome: AiGenerationOutcome.QUOTA_EXCEEDED,
+    });
 
-      return null;
-    } catch (error) {
-      logger.error("Failed to analyze sentiment", error);
-      return null;
+    return true;
+  }
+
+  private async checkQuotaAlerts(context: GenerationContext) {
+    if (!context.outletId) return;
+
+    try {
+      await aiQuotaService.checkThresholds(context.outletId);
+    } catch (err) {
+      logger.warn(`AI quota alert check failed for outlet ${context.outletId}`, err);
+    }
+  }
+
+  private async record(data: Parameters<typeof aiGenerationLogRepository.create>[0]) {
+    try {
+      await aiGenerationLogRepository.create(data);
+    } catch (err) {
+      // usage logging must never break reply generation
+      logger.warn("Failed to write AI generation log", err);
     }
   }
 }
@@ -225,6 +313,32 @@ Template 3: ...`,
 /**
  * Helpers
  */
+
+/**
+ * Standard reply used when the outlet's AI quota is exhausted
+ */
+function templateReply(rating: number, customerName: string, outletName: string) {
+  if (rating >= 4) {
+    return `Thank you, ${customerName}, for your ${rating}-star review! We're glad you enjoyed ${outletName} and look forward to welcoming you back.`;
+  }
+  if (rating === 3) {
+    return `Thank you for your feedback, ${customerName}. We appreciate you visiting ${outletName} and will use your comments to improve.`;
+  }
+  return `We're sorry, ${customerName}, that your experience at ${outletName} fell short. Please contact the store so we can make it right.`;
+}
+
+/**
+ * Append the outlet sign-off while keeping the whole reply within the word limit
+ */
+function applySignOff(text: string, signOff: string | null | undefined, limit: number) {
+  const suffix = (signOff || "").trim();
+  if (!suffix) return enforceWordLimit(text, limit);
+
+  const suffixWords = suffix.split(/\s+/).filter(Boolean).length;
+  const body = enforceWordLimit(text, Math.max(1, limit - suffixWords));
+  return `${body}\n\n${suffix}`;
+}
+
 function enforceWordLimit(text: string, limit: number) {
   const words = String(text).trim().split(/\s+/).filter(Boolean);
   if (words.length <= limit) return words.join(" ");
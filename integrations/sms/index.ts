@@ -0,0 +1,22 @@
+import env from "../../config/env";
+import { LogSmsProvider } from "./log.provider";
+import { TwilioSmsProvider } from "./twilio.provider";
+import type { SmsProvider } from "./types";
+
+export * from "./types";
+
+/**
+ * Provider selected by SMS_PROVIDER; null when SMS is switched off
+ */
+export function createSmsProvider(name: string = env.SMS_PROVIDER): SmsProvider | null {
+  switch (name) {
+    case "none":
+      return null;
+    case "log":
+      return new LogSmsProvider();
+    case "twilio":
+      return new TwilioSmsProvider();
+    default:
+      throw new Error(`Unknown SMS_PROVIDER: ${name}`);
+  }
+}
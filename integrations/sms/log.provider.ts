@@ -0,0 +1,18 @@
+import { logger } from "../../utils/logger";
+import type { SmsProvider, SmsResult } from "./types";
+
+/**
+ * Writes messages to the log instead of sending them (local dev)
+ */
+export class LogSmsProvider implements SmsProvider {
+  readonly name = "log";
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async send(toNumber: string, text: string): Promise<SmsResult> {
+    logger.info(`SMS to ${toNumber} (not sent, SMS_PROVIDER=log)`, { text });
+    return { ok: true };
+  }
+}
@@ -0,0 +1,43 @@
+import axios from "axios";
+import env from "../../config/env";
+import { logger } from "../../utils/logger";
+import type { SmsProvider, SmsResult } from "./types";
+
+/**
+ * Twilio Programmable Messaging over its REST API
+ */
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = "twilio";
+
+  isConfigured(): boolean {
+    return !!env.TWILIO_ACCOUNT_SID && !!env.TWILIO_AUTH_TOKEN && !!env.TWILIO_FROM_NUMBER;
+  }
+
+  async send(toNumber: string, text: string): Promise<SmsResult> {
+    if (!this.isConfigured()) {
+      logger.warn("Twilio SMS credentials not configured");
+      return { ok: false, skipped: true };
+    }
+
+    try {
+      const response = await axios.post(
+        `https://api.twilio.com/2010-04-01/Accounts/${env.TWILIO_ACCOUNT_SID}/Messages.json`,
+        new URLSearchParams({
+          To: `+${toNumber.replace(/\D/g, "")}`,
+          From: String(env.TWILIO_FROM_NUMBER),
+          Body: text,
+        }),
+        {
+          auth: { username: String(env.TWILIO_ACCOUNT_SID), password: String(env.TWILIO_AUTH_TOKEN) },
+          timeout: 10000,
+        }
+      );
+
+      logger.info(`SMS sent to ${toNumber}`, { messageId: response.data?.sid });
+      return { ok: true, messageId: response.data?.sid };
+    } catch (error) {
+      logger.error(`Failed to send SMS to ${toNumber}`, error);
+      return { ok: false };
+    }
+  }
+}
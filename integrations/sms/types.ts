@@ -0,0 +1,15 @@
+export interface SmsResult {
+  ok: boolean;
+  // provider not configured; nothing was attempted
+  skipped?: boolean;
+  messageId?: string;
+}
+
+/**
+ * SMS gateway behind the SMS notification channel (SMS_PROVIDER)
+ */
+export interface SmsProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  send(toNumber: string, text: string): Promise<SmsResult>;
+}
@@ -1,6 +1,7 @@
 import axios from "axios";
 import env from "../config/env";
 import { logger } from "../utils/logger";
+import { whatsappMessageLogRepository } from "../repository/whatsapp-message-log.repo";
 
 interface WhatsAppMessage {
   messaging_product: string;
@@ -24,6 +25,55 @@ interface WhatsAppMessage {
   };
 }
 
+export interface SendResult {
+  ok: boolean;
+  skipped?: boolean;
+  // Cloud API message id (wamid); replies quote it as their context
+  messageId?: string;
+}
+
+/**
+ * What a message is about; recorded with it in WhatsAppMessageLog
+ */
+export interface MessageContext {
+  reviewId?: string | null;
+  outletId?: string | null;
+  // AI suggestion the "approve" button posts (low rating alert)
+  suggestedReply?: string | null;
+}
+
+export interface SendOptions {
+  // quick-reply payloads, one per template button
+  quickReplies?: string[];
+  context?: MessageContext;
+}
+
+/**
+ * Delivery status from a webhook delivery
+ */
+export interface WhatsAppStatusUpdate {
+  messageId: string;
+  status: "SENT" | "DELIVERED" | "READ" | "FAILED";
+  at: Date;
+  errorCode: string | null;
+  errorMessage: string | null;
+}
+
+/**
+ * Text or quick-reply button message from a webhook delivery
+ */
+export interface IncomingWhatsAppMessage {
+  id: string;
+  // sender wa_id (digits only)
+  from: string;
+  // id of the message being answered (quoted message or the template with the button)
+  contextId: string | null;
+  type: "text" | "button";
+  text: string;
+  // quick-reply payload, buttons only
+  payload: string | null;
+}
+
 /**
  * ============================================================
  * TEMPLATE-ONLY WHATSAPP POLICY (ENFORCED)
@@ -46,6 +96,8 @@ interface WhatsAppMessage {
  *    Customer: {{3}}
  *    Review: {{4}}
  *    Suggested reply: {{5}}
+ *    Buttons: quick reply "Post suggested reply"
+ *    (payload set per message, see WA_BUTTON_APPROVE_REPLY)
  *
  * 2) freddie_manual_review_reminder_v1 (en_US)
  *    Body:
@@ -67,9 +119,12 @@ interface WhatsAppMessage {
  * These template names are hardcoded so your system is stable.
  */
 const WA_LANG = "en_US";
-const WA_TPL_LOW_RATING = "freddie_low_rating_review_v1";
-const WA_TPL_REMINDER = "freddie_manual_review_reminder_v1";
-const WA_TPL_ESCALATION = "freddie_review_escalation_v1";
+export const WA_TPL_LOW_RATING = "freddie_low_rating_review_v1";
+export const WA_TPL_REMINDER = "freddie_manual_review_reminder_v1";
+export const WA_TPL_ESCALATION = "freddie_review_escalation_v1";
+
+// quick-reply payload: post the alert's suggested reply to Google
+export const WA_BUTTON_APPROVE_REPLY = "APPROVE_REPLY";
 
 export class WhatsAppService {
   private baseUrl = "https://graph.facebook.com/v18.0";
@@ -128,8 +183,9 @@ export class WhatsAppService {
     toNumber: string,
     templateName: string,
     languageCode: string = WA_LANG,
-    parameters?: string[]
-  ): Promise<{ ok: boolean; skipped?: boolean }> {
+    parameters?: string[],
+    options: SendOptions = {}
+  ): Promise<SendResult> {
     try {
       if (!process.env.WHATSAPP_ACCESS_TOKEN) {
         logger.warn("WhatsApp disabled: missing access token");
@@ -149,7 +205,7 @@ export class WhatsAppService {
         return { ok: false };
       }
 
-      const components = [];
+      const components: any[] = [];
       if (parameters && parameters.length > 0) {
         components.push({
           type: "body",
@@ -157,6 +213,16 @@ export class WhatsAppService {
         });
       }
 
+      // payloads come back in the webhook when the button is tapped
+      (options.quickReplies || []).forEach((payload, index) => {
+        components.push({
+          type: "button",
+          sub_type: "quick_reply",
+          index: String(index),
+          parameters: [{ type: "payload", payload }],
+        });
+      });
+
       const payload: WhatsAppMessage = {
         messaging_product: "whatsapp",
         to: toNumber.replace(/\D/g, ""),
@@ -181,18 +247,56 @@ export class WhatsAppService {
         }
       );
 
+      const messageId: string | undefined = response.data?.messages?.[0]?.id;
+
       logger.info(`WhatsApp template sent to ${toNumber}`, {
         template: templateName,
-        messageId: response.data?.messages?.[0]?.id,
+        messageId,
+      });
+
+      await this.record(toNumber, templateName, languageCode, options.context, {
+        waMessageId: messageId ?? null,
       });
 
-      return { ok: true };
-    } catch (error) {
+      return { ok: true, messageId };
+    } catch (error: any) {
       logger.error(`Failed to send WhatsApp template to ${toNumber}`, error);
+
+      const apiError = error?.response?.data?.error;
+      await this.record(toNumber, templateName, languageCode, options.context, {
+        status: "FAILED",
+        failedAt: new Date(),
+        errorCode: apiError?.code != null ? String(apiError.code) : null,
+        errorMessage: apiError?.message ?? error?.message ?? null,
+      });
+
       return { ok: false };
     }
   }
 
+  private async record(
+    toNumber: string,
+    template: string,
+    language: string,
+    context: MessageContext = {},
+    outcome: Omit<Parameters<typeof whatsappMessageLogRepository.record>[0], "template" | "toNumber">
+  ) {
+    try {
+      await whatsappMessageLogRepository.record({
+        template,
+        language,
+        toNumber,
+        reviewId: context.reviewId ?? null,
+        outletId: context.outletId ?? null,
+        suggestedReply: context.suggestedReply ?? null,
+        ...outcome,
+      });
+    } catch (err) {
+      // the message went out (or not) either way
+      logger.warn("Failed to write WhatsApp message log", err);
+    }
+  }
+
   /**
    * ❌ DISABLED: Text messages not allowed by business requirement
    */
@@ -220,14 +324,20 @@ export class WhatsAppService {
     customerName: string,
     reviewText: string,
     suggestedReply: string
-  ): Promise<{ ok: boolean; skipped?: boolean }> {
-    return this.sendTemplate(toNumber, WA_TPL_LOW_RATING, WA_LANG, [
-      outletName,
-      `${rating} star${rating !== 1 ? "s" : ""}`,
-      customerName,
-      (reviewText || "(no message)").substring(0, 250),
-      (suggestedReply || "").substring(0, 300),
-    ]);
+  ): Promise<SendResult> {
+    return this.sendTemplate(
+      toNumber,
+      WA_TPL_LOW_RATING,
+      WA_LANG,
+      [
+        outletName,
+        `${rating} star${rating !== 1 ? "s" : ""}`,
+        customerName,
+        (reviewText || "(no message)").substring(0, 250),
+        (suggestedReply || "").substring(0, 300),
+      ],
+      { quickReplies: [WA_BUTTON_APPROVE_REPLY], context: { suggestedReply } }
+    );
   }
 
   /**
@@ -246,7 +356,7 @@ export class WhatsAppService {
     customerName: string,
     rating: number,
     reminderNumber: number
-  ): Promise<{ ok: boolean; skipped?: boolean }> {
+  ): Promise<SendResult> {
     return this.sendTemplate(toNumber, WA_TPL_REMINDER, WA_LANG, [
       outletName,
       `${rating} star${rating !== 1 ? "s" : ""}`,
@@ -270,21 +380,92 @@ export class WhatsAppService {
     outletName: string,
     customerName: string,
     rating: number,
-    hoursPending: number
-  ): Promise<{ ok: boolean; skipped?: boolean }> {
-    return this.sendTemplate(toNumber, WA_TPL_ESCALATION, WA_LANG, [
-      outletName,
-      `${rating} star${rating !== 1 ? "s" : ""}`,
-      customerName,
-      String(hoursPending),
-    ]);
+    hoursPending: number,
+    context?: MessageContext
+  ): Promise<SendResult> {
+    return this.sendTemplate(
+      toNumber,
+      WA_TPL_ESCALATION,
+      WA_LANG,
+      [outletName, `${rating} star${rating !== 1 ? "s" : ""}`, customerName, String(hoursPending)],
+      { context }
+    );
   }
 
   /**
    * Verify webhook token
    */
   verifyWebhook(token: string): boolean {
-    return token === env.WHATSAPP_VERIFY_TOKEN;
+    return !!env.WHATSAPP_VERIFY_TOKEN && token === env.WHATSAPP_VERIFY_TOKEN;
+  }
+
+  /**
+   * Delivery status updates (sent, delivered, read, failed) in a webhook delivery
+   */
+  parseStatusUpdates(body: any): WhatsAppStatusUpdate[] {
+    const updates: WhatsAppStatusUpdate[] = [];
+    const known = ["sent", "delivered", "read", "failed"];
+
+    for (const entry of body?.entry || []) {
+      for (const change of entry?.changes || []) {
+        for (const st of change?.value?.statuses || []) {
+          if (!st?.id || !known.includes(st.status)) continue;
+
+          const error = st.errors?.[0];
+          const seconds = Number(st.timestamp);
+          updates.push({
+            messageId: String(st.id),
+            status: String(st.status).toUpperCase() as WhatsAppStatusUpdate["status"],
+            at: Number.isFinite(seconds) && seconds > 0 ? new Date(seconds * 1000) : new Date(),
+            errorCode: error?.code != null ? String(error.code) : null,
+            errorMessage: error?.error_data?.details || error?.message || error?.title || null,
+          });
+        }
+      }
+    }
+
+    return updates;
+  }
+
+  /**
+   * Text and button messages in a webhook delivery.
+   * Status updates and other message types (media, location, ...) are left out.
+   */
+  parseIncomingMessages(body: any): IncomingWhatsAppMessage[] {
+    const messages: IncomingWhatsAppMessage[] = [];
+
+    for (const entry of body?.entry || []) {
+      for (const change of entry?.changes || []) {
+        for (const msg of change?.value?.messages || []) {
+          const base = {
+            id: String(msg.id),
+            from: String(msg.from || "").replace(/\D/g, ""),
+            contextId: msg.context?.id ?? null,
+          };
+
+          if (msg.type === "text" && msg.text?.body) {
+            messages.push({ ...base, type: "text", text: msg.text.body, payload: null });
+          } else if (msg.type === "button" && msg.button) {
+            // template quick reply
+            messages.push({
+              ...base,
+              type: "button",
+              text: msg.button.text || "",
+              payload: msg.button.payload ?? null,
+            });
+          } else if (msg.type === "interactive" && msg.interactive?.button_reply) {
+            messages.push({
+              ...base,
+              type: "button",
+              text: msg.interactive.button_reply.title || "",
+              payload: msg.interactive.button_reply.id ?? null,
+            });
+          }
+        }
+      }
+    }
+
+    return messages;
   }
 
   /**
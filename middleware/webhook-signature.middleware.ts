@@ -0,0 +1,58 @@
+import type { Request, Response, NextFunction } from "express"
+import crypto from "crypto"
+import env from "../config/env"
+import { webhookEventRepository, type WebhookRejectionReason } from "../repository/webhook-event.repo"
+import { logger } from "../utils/logger"
+
+/**
+ * Request with the unparsed body, kept by express.json() (see index.ts)
+ */
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer
+}
+
+/**
+ * Count a rejected webhook; the counter must never turn into a 500 itself
+ */
+export async function recordWebhookRejection(provider: string, reason: WebhookRejectionReason, req: Request) {
+  logger.warn(`Rejected ${provider} webhook: ${reason}`, {
+    path: req.originalUrl,
+    ip: req.ip,
+  })
+
+  try {
+    await webhookEventRepository.recordRejection(provider, reason)
+  } catch (err) {
+    logger.warn("Failed to record webhook rejection", err)
+  }
+}
+
+/**
+ * X-Hub-Signature-256: HMAC-SHA256 of the raw body with the Meta app secret
+ */
+export async function verifyWhatsAppSignature(req: RawBodyRequest, res: Response, next: NextFunction) {
+  const secret = env.WHATSAPP_APP_SECRET
+  if (!secret) {
+    await recordWebhookRejection("whatsapp", "not_configured", req)
+    res.status(500).json({ error: "Webhook secret not configured" })
+    return
+  }
+
+  const header = req.get("x-hub-signature-256")
+  if (!header || !header.startsWith("sha256=") || !req.rawBody) {
+    await recordWebhookRejection("whatsapp", "missing_signature", req)
+    res.status(401).json({ error: "Missing signature" })
+    return
+  }
+
+  const expected = crypto.createHmac("sha256", secret).update(req.rawBody).digest()
+  const given = Buffer.from(header.slice("sha256=".length), "hex")
+
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    await recordWebhookRejection("whatsapp", "invalid_signature", req)
+    res.status(401).json({ error: "Invalid signature" })
+    return
+  }
+
+  next()
+}
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "OutletSyncState" (
+    "outletId" TEXT NOT NULL,
+    "lastSyncedAt" TIMESTAMP(3),
+    "lastPageToken" TEXT,
+    "sweepStartedAt" TIMESTAMP(3),
+    "lastAttemptAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "consecutiveFailures" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OutletSyncState_pkey" PRIMARY KEY ("outletId")
+);
+
+-- CreateIndex
+CREATE INDEX "OutletSyncState_consecutiveFailures_idx" ON "OutletSyncState"("consecutiveFailures");
+
+-- AddForeignKey
+ALTER TABLE "OutletSyncState" ADD CONSTRAINT "OutletSyncState_outletId_fkey" FOREIGN KEY ("outletId") REFERENCES "Outlet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "googleUpdateTime" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ReviewRevision" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "rating" INTEGER NOT NULL,
+    "reviewText" TEXT NOT NULL,
+    "googleUpdateTime" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReviewRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReviewRevision_reviewId_googleUpdateTime_key" ON "ReviewRevision"("reviewId", "googleUpdateTime");
+
+-- CreateIndex
+CREATE INDEX "ReviewRevision_reviewId_idx" ON "ReviewRevision"("reviewId");
+
+-- AddForeignKey
+ALTER TABLE "ReviewRevision" ADD CONSTRAINT "ReviewRevision_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "externalReply" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "externalReplyAt" TIMESTAMP(3);
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "AutomationAction" AS ENUM ('AUTO_REPLY', 'MANUAL_REVIEW');
+
+-- CreateEnum
+CREATE TYPE "Sentiment" AS ENUM ('POSITIVE', 'NEUTRAL', 'NEGATIVE');
+
+-- CreateTable
+CREATE TABLE "AutomationRule" (
+    "id" TEXT NOT NULL,
+    "outletId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 100,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "action" "AutomationAction" NOT NULL,
+    "minRating" INTEGER,
+    "maxRating" INTEGER,
+    "keywords" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "sentiment" "Sentiment",
+    "minTextLength" INTEGER,
+    "maxTextLength" INTEGER,
+    "reviewerNames" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AutomationRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AutomationRule_outletId_enabled_idx" ON "AutomationRule"("outletId", "enabled");
+
+-- AddForeignKey
+ALTER TABLE "AutomationRule" ADD CONSTRAINT "AutomationRule_outletId_fkey" FOREIGN KEY ("outletId") REFERENCES "Outlet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- AlterEnum
+ALTER TYPE "ReviewStatus" ADD VALUE 'AWAITING_APPROVAL';
+
+-- CreateEnum
+CREATE TYPE "ReplyDraftStatus" AS ENUM ('PENDING', 'APPROVED', 'EDITED', 'REJECTED', 'AUTO_APPROVED');
+
+-- AlterTable
+ALTER TABLE "Outlet" ADD COLUMN     "autoApproveAfterMinutes" INTEGER,
+ADD COLUMN     "replyApprovalRequired" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "draftCreatedAt" TIMESTAMP(3),
+ADD COLUMN     "draftDecidedAt" TIMESTAMP(3),
+ADD COLUMN     "draftDecidedById" TEXT,
+ADD COLUMN     "draftReplyText" TEXT,
+ADD COLUMN     "draftStatus" "ReplyDraftStatus";
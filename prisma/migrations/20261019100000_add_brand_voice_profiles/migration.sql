@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "BrandVoiceProfile" (
+    "outletId" TEXT NOT NULL,
+    "tone" TEXT NOT NULL DEFAULT 'professional, warm, human',
+    "signOff" TEXT,
+    "mandatoryPhrases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "bannedPhrases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "language" TEXT NOT NULL DEFAULT 'en',
+    "maxWords" INTEGER NOT NULL DEFAULT 40,
+    "allowContactInfo" BOOLEAN NOT NULL DEFAULT false,
+    "contactInfo" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BrandVoiceProfile_pkey" PRIMARY KEY ("outletId")
+);
+
+-- AddForeignKey
+ALTER TABLE "BrandVoiceProfile" ADD CONSTRAINT "BrandVoiceProfile_outletId_fkey" FOREIGN KEY ("outletId") REFERENCES "Outlet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "AiGenerationKind" AS ENUM ('REPLY', 'TEMPLATES', 'SENTIMENT');
+
+-- CreateEnum
+CREATE TYPE "AiGenerationOutcome" AS ENUM ('SUCCESS', 'EMPTY', 'ERROR', 'SKIPPED');
+
+-- CreateTable
+CREATE TABLE "AiGenerationLog" (
+    "id" TEXT NOT NULL,
+    "outletId" TEXT,
+    "reviewId" TEXT,
+    "kind" "AiGenerationKind" NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptVersion" TEXT NOT NULL,
+    "inputTokens" INTEGER NOT NULL DEFAULT 0,
+    "outputTokens" INTEGER NOT NULL DEFAULT 0,
+    "latencyMs" INTEGER NOT NULL DEFAULT 0,
+    "outcome" "AiGenerationOutcome" NOT NULL,
+    "error" TEXT,
+    "estimatedCostUsd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AiGenerationLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AiGenerationLog_outletId_createdAt_idx" ON "AiGenerationLog"("outletId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AiGenerationLog_reviewId_idx" ON "AiGenerationLog"("reviewId");
+
+-- CreateIndex
+CREATE INDEX "AiGenerationLog_createdAt_idx" ON "AiGenerationLog"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "AiGenerationLog" ADD CONSTRAINT "AiGenerationLog_outletId_fkey" FOREIGN KEY ("outletId") REFERENCES "Outlet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AiGenerationLog" ADD CONSTRAINT "AiGenerationLog_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE SET NULL ON UPDATE CASCADE;
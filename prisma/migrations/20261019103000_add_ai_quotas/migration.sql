@@ -0,0 +1,30 @@
+-- AlterEnum
+ALTER TYPE "AiGenerationOutcome" ADD VALUE 'QUOTA_EXCEEDED';
+
+-- CreateTable
+CREATE TABLE "AiPlanQuota" (
+    "plan" "SubscriptionPlan" NOT NULL,
+    "monthlyCalls" INTEGER,
+    "monthlyTokens" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AiPlanQuota_pkey" PRIMARY KEY ("plan")
+);
+
+-- CreateTable
+CREATE TABLE "AiQuotaAlert" (
+    "id" TEXT NOT NULL,
+    "outletId" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "threshold" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AiQuotaAlert_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AiQuotaAlert_outletId_period_threshold_key" ON "AiQuotaAlert"("outletId", "period", "threshold");
+
+-- AddForeignKey
+ALTER TABLE "AiQuotaAlert" ADD CONSTRAINT "AiQuotaAlert_outletId_fkey" FOREIGN KEY ("outletId") REFERENCES "Outlet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "Outlet" ADD COLUMN     "disabledReplyGuardrails" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "ReplyValidationFailure" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "outletId" TEXT NOT NULL,
+    "rule" TEXT NOT NULL,
+    "detail" TEXT,
+    "replyText" TEXT NOT NULL,
+    "attempt" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReplyValidationFailure_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReplyValidationFailure_outletId_createdAt_idx" ON "ReplyValidationFailure"("outletId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ReplyValidationFailure_reviewId_idx" ON "ReplyValidationFailure"("reviewId");
+
+-- CreateIndex
+CREATE INDEX "ReplyValidationFailure_rule_idx" ON "ReplyValidationFailure"("rule");
+
+-- AddForeignKey
+ALTER TABLE "ReplyValidationFailure" ADD CONSTRAINT "ReplyValidationFailure_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReplyValidationFailure" ADD CONSTRAINT "ReplyValidationFailure_outletId_fkey" FOREIGN KEY ("outletId") REFERENCES "Outlet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "replyTemplateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ReplyTemplate" (
+    "id" TEXT NOT NULL,
+    "outletId" TEXT,
+    "category" "BusinessCategory",
+    "name" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "minRating" INTEGER,
+    "maxRating" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReplyTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReplyTemplate_outletId_idx" ON "ReplyTemplate"("outletId");
+
+-- CreateIndex
+CREATE INDEX "ReplyTemplate_category_idx" ON "ReplyTemplate"("category");
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_replyTemplateId_fkey" FOREIGN KEY ("replyTemplateId") REFERENCES "ReplyTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReplyTemplate" ADD CONSTRAINT "ReplyTemplate_outletId_fkey" FOREIGN KEY ("outletId") REFERENCES "Outlet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- AlterEnum
+ALTER TYPE "AiGenerationKind" ADD VALUE 'ANALYSIS';
+
+-- CreateEnum
+CREATE TYPE "ReviewUrgency" AS ENUM ('LOW', 'MEDIUM', 'HIGH');
+
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "sentiment" "Sentiment",
+ADD COLUMN     "sentimentScore" DOUBLE PRECISION,
+ADD COLUMN     "topics" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "urgency" "ReviewUrgency",
+ADD COLUMN     "safetyIssue" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "legalIssue" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "analyzedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "AutomationRule" ADD COLUMN     "topics" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "minUrgency" "ReviewUrgency",
+ADD COLUMN     "minSentimentScore" DOUBLE PRECISION,
+ADD COLUMN     "maxSentimentScore" DOUBLE PRECISION,
+ADD COLUMN     "safetyOrLegalOnly" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "Review_urgency_idx" ON "Review"("urgency");
+
+-- CreateIndex
+CREATE INDEX "Review_sentiment_idx" ON "Review"("sentiment");
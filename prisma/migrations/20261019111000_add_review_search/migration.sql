@@ -0,0 +1,11 @@
+-- AlterTable
+-- Generated column kept in sync by Postgres; 'simple' config because reviews are multilingual
+ALTER TABLE "Review" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    to_tsvector('simple', coalesce("reviewText", '') || ' ' || coalesce("customerName", ''))
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Review_searchVector_idx" ON "Review" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Review_outletId_createdAt_idx" ON "Review"("outletId", "createdAt");
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "repliedAt" TIMESTAMP(3);
+
+-- Backfill: best available reply time for reviews already answered
+UPDATE "Review"
+SET "repliedAt" = COALESCE("externalReplyAt", "updatedAt")
+WHERE "status" = 'CLOSED'
+  AND ("manualReplyText" IS NOT NULL OR "aiReplyText" IS NOT NULL);
+
+-- CreateIndex
+CREATE INDEX "Review_outletId_repliedAt_idx" ON "Review"("outletId", "repliedAt");
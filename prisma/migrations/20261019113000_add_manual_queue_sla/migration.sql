@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "Outlet" ADD COLUMN     "slaCloseMinutes" INTEGER,
+ADD COLUMN     "slaFirstResponseMinutes" INTEGER;
+
+-- AlterTable
+ALTER TABLE "ManualReviewQueue" ADD COLUMN     "closeBreached" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "closeDueAt" TIMESTAMP(3),
+ADD COLUMN     "closedAt" TIMESTAMP(3),
+ADD COLUMN     "firstResponseAt" TIMESTAMP(3),
+ADD COLUMN     "firstResponseBreached" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "firstResponseDueAt" TIMESTAMP(3),
+ADD COLUMN     "queuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Backfill: existing items started their clock when created; answered ones closed at their last update
+UPDATE "ManualReviewQueue" SET "queuedAt" = "createdAt";
+UPDATE "ManualReviewQueue"
+SET "firstResponseAt" = "updatedAt", "closedAt" = "updatedAt"
+WHERE "status" = 'RESPONDED';
+
+-- CreateTable
+CREATE TABLE "SlaPlanTarget" (
+    "plan" "SubscriptionPlan" NOT NULL,
+    "firstResponseMinutes" INTEGER NOT NULL,
+    "closeMinutes" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SlaPlanTarget_pkey" PRIMARY KEY ("plan")
+);
+
+-- CreateIndex
+CREATE INDEX "ManualReviewQueue_queuedAt_idx" ON "ManualReviewQueue"("queuedAt");
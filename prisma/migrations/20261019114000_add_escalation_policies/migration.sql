@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "EscalationTarget" AS ENUM ('OWNER', 'ASSIGNED_ADMIN', 'SUPER_ADMIN');
+
+-- AlterTable
+ALTER TABLE "Outlet" ADD COLUMN     "timezone" TEXT;
+
+-- AlterTable
+ALTER TABLE "ManualReviewQueue" ADD COLUMN     "escalationLevel" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "EscalationPolicy" (
+    "outletId" TEXT NOT NULL,
+    "reminderIntervalsMinutes" INTEGER[],
+    "maxReminders" INTEGER NOT NULL DEFAULT 5,
+    "chain" "EscalationTarget"[] DEFAULT ARRAY['OWNER', 'ASSIGNED_ADMIN', 'SUPER_ADMIN']::"EscalationTarget"[],
+    "quietHoursStart" TEXT,
+    "quietHoursEnd" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EscalationPolicy_pkey" PRIMARY KEY ("outletId")
+);
+
+-- AddForeignKey
+ALTER TABLE "EscalationPolicy" ADD CONSTRAINT "EscalationPolicy_outletId_fkey" FOREIGN KEY ("outletId") REFERENCES "Outlet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "EscalationStatus" AS ENUM ('OPEN', 'ACKNOWLEDGED', 'RESOLVED');
+
+-- CreateTable
+CREATE TABLE "Escalation" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "outletId" TEXT NOT NULL,
+    "ownerId" TEXT,
+    "status" "EscalationStatus" NOT NULL DEFAULT 'OPEN',
+    "reason" TEXT NOT NULL,
+    "dueAt" TIMESTAMP(3) NOT NULL,
+    "notifiedAt" TIMESTAMP(3),
+    "acknowledgedAt" TIMESTAMP(3),
+    "acknowledgedById" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedById" TEXT,
+    "resolutionNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Escalation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Escalation_reviewId_idx" ON "Escalation"("reviewId");
+
+-- CreateIndex
+CREATE INDEX "Escalation_outletId_idx" ON "Escalation"("outletId");
+
+-- CreateIndex
+CREATE INDEX "Escalation_ownerId_idx" ON "Escalation"("ownerId");
+
+-- CreateIndex
+CREATE INDEX "Escalation_status_dueAt_idx" ON "Escalation"("status", "dueAt");
+
+-- AddForeignKey
+ALTER TABLE "Escalation" ADD CONSTRAINT "Escalation_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Escalation" ADD CONSTRAINT "Escalation_outletId_fkey" FOREIGN KEY ("outletId") REFERENCES "Outlet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Escalation" ADD CONSTRAINT "Escalation_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
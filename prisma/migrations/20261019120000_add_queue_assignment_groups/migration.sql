@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "AssignmentStrategy" AS ENUM ('ROUND_ROBIN', 'LEAST_LOADED');
+
+-- CreateTable
+CREATE TABLE "QueueAssignmentGroup" (
+    "groupName" TEXT NOT NULL,
+    "strategy" "AssignmentStrategy" NOT NULL DEFAULT 'ROUND_ROBIN',
+    "adminIds" TEXT[],
+    "lastAssignedAdminId" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "QueueAssignmentGroup_pkey" PRIMARY KEY ("groupName")
+);
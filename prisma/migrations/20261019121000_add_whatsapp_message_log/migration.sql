@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "WhatsAppMessageLog" (
+    "id" TEXT NOT NULL,
+    "waMessageId" TEXT NOT NULL,
+    "template" TEXT NOT NULL,
+    "toNumber" TEXT NOT NULL,
+    "reviewId" TEXT,
+    "outletId" TEXT,
+    "suggestedReply" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WhatsAppMessageLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WhatsAppMessageLog_waMessageId_key" ON "WhatsAppMessageLog"("waMessageId");
+
+-- CreateIndex
+CREATE INDEX "WhatsAppMessageLog_reviewId_idx" ON "WhatsAppMessageLog"("reviewId");
+
+-- AddForeignKey
+ALTER TABLE "WhatsAppMessageLog" ADD CONSTRAINT "WhatsAppMessageLog_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
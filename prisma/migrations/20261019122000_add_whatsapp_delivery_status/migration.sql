@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "WhatsAppMessageStatus" AS ENUM ('ACCEPTED', 'SENT', 'DELIVERED', 'READ', 'FAILED', 'SKIPPED');
+
+-- DropIndex
+DROP INDEX "WhatsAppMessageLog_reviewId_idx";
+
+-- AlterTable
+ALTER TABLE "WhatsAppMessageLog" ALTER COLUMN "waMessageId" DROP NOT NULL,
+ADD COLUMN     "language" TEXT,
+ADD COLUMN     "status" "WhatsAppMessageStatus" NOT NULL DEFAULT 'ACCEPTED',
+ADD COLUMN     "sentAt" TIMESTAMP(3),
+ADD COLUMN     "deliveredAt" TIMESTAMP(3),
+ADD COLUMN     "readAt" TIMESTAMP(3),
+ADD COLUMN     "failedAt" TIMESTAMP(3),
+ADD COLUMN     "errorCode" TEXT,
+ADD COLUMN     "errorMessage" TEXT,
+ADD COLUMN     "emailFallbackAt" TIMESTAMP(3),
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- the default only backfills existing rows; Prisma sets updatedAt (@updatedAt)
+ALTER TABLE "WhatsAppMessageLog" ALTER COLUMN "updatedAt" DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX "WhatsAppMessageLog_reviewId_toNumber_createdAt_idx" ON "WhatsAppMessageLog"("reviewId", "toNumber", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "WhatsAppMessageLog_status_createdAt_idx" ON "WhatsAppMessageLog"("status", "createdAt");
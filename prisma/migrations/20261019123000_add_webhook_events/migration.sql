@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "WebhookEvent" (
+    "provider" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WebhookEvent_pkey" PRIMARY KEY ("provider","eventId")
+);
+
+-- CreateTable
+CREATE TABLE "WebhookRejection" (
+    "provider" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "day" DATE NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "lastAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WebhookRejection_pkey" PRIMARY KEY ("provider","reason","day")
+);
+
+-- CreateIndex
+CREATE INDEX "WebhookEvent_receivedAt_idx" ON "WebhookEvent"("receivedAt");
@@ -0,0 +1,18 @@
+-- Backfill: open items queued before SLA tracking get due dates from queuedAt,
+-- using the outlet override, then the plan target, then the default targets
+-- (SLA_FIRST_RESPONSE_MINUTES = 240, SLA_CLOSE_MINUTES = 1440)
+UPDATE "ManualReviewQueue" q
+SET
+    "firstResponseDueAt" = COALESCE(
+        q."firstResponseDueAt",
+        q."queuedAt" + COALESCE(o."slaFirstResponseMinutes", p."firstResponseMinutes", 240) * INTERVAL '1 minute'
+    ),
+    "closeDueAt" = COALESCE(
+        q."closeDueAt",
+        q."queuedAt" + COALESCE(o."slaCloseMinutes", p."closeMinutes", 1440) * INTERVAL '1 minute'
+    )
+FROM "Outlet" o
+LEFT JOIN "SlaPlanTarget" p ON p."plan" = o."subscriptionPlan"
+WHERE q."outletId" = o."id"
+  AND q."status" <> 'RESPONDED'
+  AND (q."firstResponseDueAt" IS NULL OR q."closeDueAt" IS NULL);
@@ -0,0 +1,2 @@
+-- AlterTable: same default as ESCALATION_CHAIN (owner only)
+ALTER TABLE "EscalationPolicy" ALTER COLUMN "chain" SET DEFAULT ARRAY['OWNER']::"EscalationTarget"[];
@@ -0,0 +1,149 @@
+import { prisma } from '../database';
+import { AiGenerationLog, AiGenerationOutcome, Prisma } from '@prisma/client';
+
+export interface AiUsageTotals {
+  calls: number;
+  successfulCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCostUsd: number;
+}
+
+export class AiGenerationLogRepository {
+  async create(data: Prisma.AiGenerationLogUncheckedCreateInput): Promise<AiGenerationLog> {
+    return prisma.aiGenerationLog.create({ data });
+  }
+
+  /**
+   * Usage totals for one outlet in [from, to), with a per-kind breakdown
+   */
+  async getOutletUsage(outletId: string, from: Date, to: Date = new Date()) {
+    const where = { outletId, createdAt: { gte: from, lt: to } };
+
+    const [totals, successes, byKind] = await Promise.all([
+      prisma.aiGenerationLog.aggregate({
+        where,
+        _count: { _all: true },
+        _sum: { inputTokens: true, outputTokens: true, estimatedCostUsd: true }
+      }),
+      prisma.aiGenerationLog.count({
+        where: { ...where, outcome: AiGenerationOutcome.SUCCESS }
+      }),
+      prisma.aiGenerationLog.groupBy({
+        by: ['kind'],
+        where,
+        _count: { _all: true },
+        _sum: { inputTokens: true, outputTokens: true, estimatedCostUsd: true }
+      })
+    ]);
+
+    return {
+      outletId,
+      from,
+      to,
+      ...toTotals(totals._count._all, successes, totals._sum),
+      byKind: byKind.map((row) => ({
+        kind: row.kind,
+        calls: row._count._all,
+        inputTokens: row._sum.inputTokens ?? 0,
+        outputTokens: row._sum.outputTokens ?? 0,
+        estimatedCostUsd: row._sum.estimatedCostUsd ?? 0
+      }))
+    };
+  }
+
+  /**
+   * Usage totals per outlet in [from, to), most expensive first
+   */
+  async getUsageByOutlet(from: Date, to: Date = new Date()) {
+    const where = { outletId: { not: null }, createdAt: { gte: from, lt: to } };
+
+    const [rows, successes] = await Promise.all([
+      prisma.aiGenerationLog.groupBy({
+        by: ['outletId'],
+        where,
+        _count: { _all: true },
+        _sum: { inputTokens: true, outputTokens: true, estimatedCostUsd: true }
+      }),
+      prisma.aiGenerationLog.groupBy({
+        by: ['outletId'],
+        where: { ...where, outcome: AiGenerationOutcome.SUCCESS },
+        _count: { _all: true }
+      })
+    ]);
+
+    const outlets = await prisma.outlet.findMany({
+      where: { id: { in: rows.map((r) => r.outletId!) } },
+      select: { id: true, name: true }
+    });
+    const names = new Map(outlets.map((o) => [o.id, o.name]));
+    const successCounts = new Map(successes.map((r) => [r.outletId, r._count._all]));
+
+    return rows
+      .map((row) => ({
+        outletId: row.outletId!,
+        outletName: names.get(row.outletId!) ?? null,
+        ...toTotals(row._count._all, successCounts.get(row.outletId) ?? 0, row._sum)
+      }))
+      .sort((a, b) => b.estimatedCostUsd - a.estimatedCostUsd);
+  }
+
+  /**
+   * Calls and tokens that count against an outlet's quota since `from`
+   * (skipped and quota-blocked calls never reached a provider)
+   */
+  async getBillableUsage(outletId: string, from: Date) {
+    const result = await prisma.aiGenerationLog.aggregate({
+      where: {
+        outletId,
+        createdAt: { gte: from },
+        outcome: {
+          in: [AiGenerationOutcome.SUCCESS, AiGenerationOutcome.EMPTY, AiGenerationOutcome.ERROR]
+        }
+      },
+      _count: { _all: true },
+      _sum: { inputTokens: true, outputTokens: true }
+    });
+
+    return {
+      calls: result._count._all,
+      tokens: (result._sum.inputTokens ?? 0) + (result._sum.outputTokens ?? 0)
+    };
+  }
+
+  /**
+   * Platform-wide totals in [from, to)
+   */
+  async getTotals(from: Date, to: Date = new Date()): Promise<AiUsageTotals> {
+    const where = { createdAt: { gte: from, lt: to } };
+
+    const [totals, successes] = await Promise.all([
+      prisma.aiGenerationLog.aggregate({
+        where,
+        _count: { _all: true },
+        _sum: { inputTokens: true, outputTokens: true, estimatedCostUsd: true }
+      }),
+      prisma.aiGenerationLog.count({
+        where: { ...where, outcome: AiGenerationOutcome.SUCCESS }
+      })
+    ]);
+
+    return toTotals(totals._count._all, successes, totals._sum);
+  }
+}
+
+function toTotals(
+  calls: number,
+  successfulCalls: number,
+  sum: { inputTokens: number | null; outputTokens: number | null; estimatedCostUsd: number | null }
+): AiUsageTotals {
+  return {
+    calls,
+    successfulCalls,
+    inputTokens: sum.inputTokens ?? 0,
+    outputTokens: sum.outputTokens ?? 0,
+    estimatedCostUsd: Number((sum.estimatedCostUsd ?? 0).toFixed(6))
+  };
+}
+
+export const aiGenerationLogRepository = new AiGenerationLogRepository();
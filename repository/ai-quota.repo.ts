@@ -0,0 +1,40 @@
+import { prisma } from '../database';
+import { AiPlanQuota, Prisma, SubscriptionPlan } from '@prisma/client';
+
+export class AiQuotaRepository {
+  async getPlanQuota(plan: SubscriptionPlan): Promise<AiPlanQuota | null> {
+    return prisma.aiPlanQuota.findUnique({ where: { plan } });
+  }
+
+  async getAllPlanQuotas(): Promise<AiPlanQuota[]> {
+    return prisma.aiPlanQuota.findMany({ orderBy: { plan: 'asc' } });
+  }
+
+  async upsertPlanQuota(
+    plan: SubscriptionPlan,
+    data: { monthlyCalls: number | null; monthlyTokens: number | null }
+  ): Promise<AiPlanQuota> {
+    return prisma.aiPlanQuota.upsert({
+      where: { plan },
+      create: { plan, ...data },
+      update: data
+    });
+  }
+
+  /**
+   * Claim an alert slot; false if this threshold was already alerted for the period
+   */
+  async recordAlert(outletId: string, period: string, threshold: number): Promise<boolean> {
+    try {
+      await prisma.aiQuotaAlert.create({ data: { outletId, period, threshold } });
+      return true;
+    } catch (err) {
+      if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+        return false;
+      }
+      throw err;
+    }
+  }
+}
+
+export const aiQuotaRepository = new AiQuotaRepository();
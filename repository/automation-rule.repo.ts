@@ -0,0 +1,52 @@
+import { prisma } from '../database';
+import { AutomationRule, Prisma } from '@prisma/client';
+
+export type AutomationRuleInput = Omit<
+  Prisma.AutomationRuleUncheckedCreateInput,
+  'id' | 'outletId' | 'createdAt' | 'updatedAt'
+>;
+
+export class AutomationRuleRepository {
+  /**
+   * All rules for an outlet in evaluation order
+   */
+  async getByOutlet(outletId: string): Promise<AutomationRule[]> {
+    return prisma.automationRule.findMany({
+      where: { outletId },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }]
+    });
+  }
+
+  /**
+   * Enabled rules for an outlet in evaluation order
+   */
+  async getEnabledByOutlet(outletId: string): Promise<AutomationRule[]> {
+    return prisma.automationRule.findMany({
+      where: { outletId, enabled: true },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }]
+    });
+  }
+
+  async getById(id: string): Promise<AutomationRule | null> {
+    return prisma.automationRule.findUnique({ where: { id } });
+  }
+
+  async create(outletId: string, data: AutomationRuleInput): Promise<AutomationRule> {
+    return prisma.automationRule.create({
+      data: { ...data, outletId }
+    });
+  }
+
+  async update(id: string, data: Partial<AutomationRuleInput>): Promise<AutomationRule> {
+    return prisma.automationRule.update({
+      where: { id },
+      data
+    });
+  }
+
+  async delete(id: string): Promise<AutomationRule> {
+    return prisma.automationRule.delete({ where: { id } });
+  }
+}
+
+export const automationRuleRepository = new AutomationRuleRepository();
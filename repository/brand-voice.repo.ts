@@ -0,0 +1,33 @@
+import { prisma } from '../database';
+import { BrandVoiceProfile, Prisma } from '@prisma/client';
+
+export type BrandVoiceInput = Omit<
+  Prisma.BrandVoiceProfileUncheckedCreateInput,
+  'outletId' | 'createdAt' | 'updatedAt'
+>;
+
+export class BrandVoiceRepository {
+  async getByOutletId(outletId: string): Promise<BrandVoiceProfile | null> {
+    return prisma.brandVoiceProfile.findUnique({ where: { outletId } });
+  }
+
+  /**
+   * Create or update the outlet's voice profile
+   */
+  async upsert(outletId: string, data: BrandVoiceInput): Promise<BrandVoiceProfile> {
+    return prisma.brandVoiceProfile.upsert({
+      where: { outletId },
+      create: { ...data, outletId },
+      update: data
+    });
+  }
+
+  /**
+   * Remove the profile; replies fall back to the default voice
+   */
+  async delete(outletId: string) {
+    return prisma.brandVoiceProfile.deleteMany({ where: { outletId } });
+  }
+}
+
+export const brandVoiceRepository = new BrandVoiceRepository();
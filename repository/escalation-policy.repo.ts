@@ -0,0 +1,112 @@
+import { prisma } from '../database';
+import { EscalationPolicy, EscalationTarget, Prisma } from '@prisma/client';
+import env from '../config/env';
+import { deferPastQuietHours, type QuietHours } from '../utils/quiet-hours';
+
+export type EscalationPolicyInput = Omit<
+  Prisma.EscalationPolicyUncheckedCreateInput,
+  'outletId' | 'createdAt' | 'updatedAt'
+>;
+
+export interface ResolvedEscalationPolicy {
+  reminderIntervalsMinutes: number[];
+  maxReminders: number;
+  chain: EscalationTarget[];
+  quietHours: QuietHours | null;
+  timezone: string;
+  isDefault: boolean;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Policy for outlets without an EscalationPolicy row
+ */
+export function defaultEscalationPolicy(): Pick<
+  ResolvedEscalationPolicy,
+  'reminderIntervalsMinutes' | 'maxReminders' | 'chain'
+> {
+  const chain = env.ESCALATION_CHAIN.split(',')
+    .map((t) => t.trim())
+    .filter((t): t is EscalationTarget => t in EscalationTarget);
+
+  return {
+    reminderIntervalsMinutes: [
+      env.WHATSAPP_REMINDER_15M,
+      env.WHATSAPP_REMINDER_2H,
+      env.WHATSAPP_REMINDER_6H,
+      env.WHATSAPP_REMINDER_12H,
+      env.WHATSAPP_REMINDER_24H
+    ].map((ms) => Math.max(1, Math.round(ms / MINUTE_MS))),
+    maxReminders: env.WHATSAPP_REMINDER_MAX,
+    chain: chain.length ? chain : [EscalationTarget.OWNER]
+  };
+}
+
+export class EscalationPolicyRepository {
+  async getByOutletId(outletId: string): Promise<EscalationPolicy | null> {
+    return prisma.escalationPolicy.findUnique({ where: { outletId } });
+  }
+
+  async upsert(outletId: string, data: EscalationPolicyInput): Promise<EscalationPolicy> {
+    return prisma.escalationPolicy.upsert({
+      where: { outletId },
+      create: { ...data, outletId },
+      update: data
+    });
+  }
+
+  /**
+   * Remove the policy; the outlet falls back to the default ladder
+   */
+  async delete(outletId: string) {
+    return prisma.escalationPolicy.deleteMany({ where: { outletId } });
+  }
+
+  /**
+   * The outlet's policy merged with the defaults and its timezone
+   */
+  async resolve(outletId: string): Promise<ResolvedEscalationPolicy> {
+    const outlet = await prisma.outlet.findUnique({
+      where: { id: outletId },
+      select: { timezone: true, escalationPolicy: true }
+    });
+
+    const timezone = outlet?.timezone || env.DEFAULT_TIMEZONE;
+    const policy = outlet?.escalationPolicy;
+    const defaults = defaultEscalationPolicy();
+
+    if (!policy) {
+      return { ...defaults, quietHours: null, timezone, isDefault: true };
+    }
+
+    return {
+      reminderIntervalsMinutes: policy.reminderIntervalsMinutes.length
+        ? policy.reminderIntervalsMinutes
+        : defaults.reminderIntervalsMinutes,
+      maxReminders: policy.maxReminders,
+      chain: policy.chain.length ? policy.chain : defaults.chain,
+      quietHours:
+        policy.quietHoursStart && policy.quietHoursEnd
+          ? { start: policy.quietHoursStart, end: policy.quietHoursEnd, timezone }
+          : null,
+      timezone,
+      isDefault: false
+    };
+  }
+
+  /**
+   * When reminder number `index` (0 = first) is due after `from`, outside quiet hours
+   */
+  reminderAt(policy: ResolvedEscalationPolicy, index: number, from: Date = new Date()): Date {
+    const intervals = policy.reminderIntervalsMinutes;
+    const minutes = intervals[Math.min(index, intervals.length - 1)];
+    return deferPastQuietHours(new Date(from.getTime() + minutes * MINUTE_MS), policy.quietHours);
+  }
+
+  async getFirstReminderAt(outletId: string, from: Date = new Date()): Promise<Date> {
+    return this.reminderAt(await this.resolve(outletId), 0, from);
+  }
+}
+
+export const escalationPolicyRepository = new EscalationPolicyRepository();
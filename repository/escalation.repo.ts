@@ -0,0 +1,149 @@
+import { prisma } from '../database';
+import { EscalationStatus, Prisma } from '@prisma/client';
+
+export interface EscalationFilters {
+  status?: EscalationStatus;
+  ownerId?: string;
+  outletId?: string;
+  // past dueAt and not resolved
+  overdue?: boolean;
+}
+
+const ACTIVE = { status: { not: EscalationStatus.RESOLVED } };
+
+const INBOX_INCLUDE = {
+  review: {
+    select: {
+      id: true,
+      rating: true,
+      customerName: true,
+      reviewText: true,
+      status: true,
+      createdAt: true
+    }
+  },
+  outlet: { select: { id: true, name: true } },
+  owner: { select: { id: true, name: true, email: true } }
+} satisfies Prisma.EscalationInclude;
+
+export class EscalationRepository {
+  /**
+   * Open or acknowledged escalation for a review (at most one is active)
+   */
+  async getActiveForReview(reviewId: string) {
+    return prisma.escalation.findFirst({ where: { reviewId, ...ACTIVE } });
+  }
+
+  async create(data: Prisma.EscalationUncheckedCreateInput) {
+    return prisma.escalation.create({ data });
+  }
+
+  async getById(id: string) {
+    return prisma.escalation.findUnique({ where: { id }, include: INBOX_INCLUDE });
+  }
+
+  /**
+   * Escalation with everything needed to notify the chain
+   */
+  async getForNotification(id: string) {
+    return prisma.escalation.findUnique({
+      where: { id },
+      include: {
+        owner: { select: { id: true, name: true, email: true, whatsappNumber: true, phoneNumber: true } },
+        review: {
+          include: {
+            outlet: {
+              include: {
+                user: { select: { id: true, name: true, email: true, whatsappNumber: true, phoneNumber: true } }
+              }
+            },
+            manualQueue: {
+              include: {
+                assignedAdmin: { select: { id: true, name: true, email: true, whatsappNumber: true, phoneNumber: true } }
+              }
+            }
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Inbox: active first, then by due date
+   */
+  async list(filters: EscalationFilters, limit = 50) {
+    const where: Prisma.EscalationWhereInput = {
+      ...(filters.status ? { status: filters.status } : {}),
+      ...(filters.ownerId ? { ownerId: filters.ownerId } : {}),
+      ...(filters.outletId ? { outletId: filters.outletId } : {}),
+      ...(filters.overdue ? { ...ACTIVE, dueAt: { lt: new Date() } } : {})
+    };
+
+    const [escalations, total] = await Promise.all([
+      prisma.escalation.findMany({
+        where,
+        include: INBOX_INCLUDE,
+        orderBy: [{ status: 'asc' }, { dueAt: 'asc' }],
+        take: limit
+      }),
+      prisma.escalation.count({ where })
+    ]);
+
+    return { escalations, total };
+  }
+
+  async countByStatus() {
+    const rows = await prisma.escalation.groupBy({ by: ['status'], _count: { _all: true } });
+
+    const counts = { OPEN: 0, ACKNOWLEDGED: 0, RESOLVED: 0 } as Record<EscalationStatus, number>;
+    for (const row of rows) counts[row.status] = row._count._all;
+    return counts;
+  }
+
+  async markNotified(id: string) {
+    return prisma.escalation.update({ where: { id }, data: { notifiedAt: new Date() } });
+  }
+
+  /**
+   * OPEN -> ACKNOWLEDGED; an unowned escalation goes to whoever acknowledged it.
+   * False if it was no longer open.
+   */
+  async acknowledge(id: string, userId: string): Promise<boolean> {
+    return prisma.$transaction(async (tx) => {
+      const { count } = await tx.escalation.updateMany({
+        where: { id, status: EscalationStatus.OPEN },
+        data: {
+          status: EscalationStatus.ACKNOWLEDGED,
+          acknowledgedAt: new Date(),
+          acknowledgedById: userId
+        }
+      });
+      if (count === 0) return false;
+
+      await tx.escalation.updateMany({ where: { id, ownerId: null }, data: { ownerId: userId } });
+      return true;
+    });
+  }
+
+  /**
+   * False if it was already resolved
+   */
+  async resolve(id: string, userId: string, note: string | null): Promise<boolean> {
+    const { count } = await prisma.escalation.updateMany({
+      where: { id, ...ACTIVE },
+      data: {
+        status: EscalationStatus.RESOLVED,
+        resolvedAt: new Date(),
+        resolvedById: userId,
+        resolutionNote: note
+      }
+    });
+    return count > 0;
+  }
+
+  async assignOwner(id: string, ownerId: string | null) {
+    return prisma.escalation.update({ where: { id }, data: { ownerId }, include: INBOX_INCLUDE });
+  }
+}
+
+export const escalationRepository = new EscalationRepository();
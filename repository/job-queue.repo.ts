@@ -0,0 +1,282 @@
+import { Prisma, JobStatus, type Job } from "@prisma/client";
+import { prisma } from "../database";
+import env from "../config/env";
+
+export enum JobType {
+  FETCH_REVIEWS = "FETCH_REVIEWS",
+  GENERATE_AI_REPLY = "GENERATE_AI_REPLY",
+  POST_GMB_REPLY = "POST_GMB_REPLY",
+  SEND_WHATSAPP_ALERT = "SEND_WHATSAPP_ALERT",
+  PROCESS_REMINDERS = "PROCESS_REMINDERS",
+  AUTO_APPROVE_REPLY = "AUTO_APPROVE_REPLY",
+  SEND_ESCALATION_NOTICE = "SEND_ESCALATION_NOTICE",
+  POST_WHATSAPP_REPLY = "POST_WHATSAPP_REPLY",
+  SEND_WHATSAPP_EMAIL_FALLBACK = "SEND_WHATSAPP_EMAIL_FALLBACK",
+  DELIVER_WEBHOOK = "DELIVER_WEBHOOK",
+}
+
+export interface EnqueueJobInput {
+  type: JobType | string;
+  payload?: Prisma.InputJsonValue;
+  outletId?: string | null;
+  runAt?: Date;
+  maxAttempts?: number;
+  dedupeKey?: string;
+}
+
+/**
+ * Returned by a handler that can't do its work yet (e.g. quiet hours):
+ * the job runs again at deferUntil without using up an attempt
+ */
+export interface JobDeferral {
+  deferUntil: Date;
+}
+
+/**
+ * Postgres unique violation surfaced through $queryRaw
+ */
+function isUniqueViolation(err: any): boolean {
+  return err?.code === "P2010" && String(err?.meta?.code) === "23505";
+}
+
+export class JobQueueRepository {
+  /**
+   * Add a job to the queue.
+   * When dedupeKey is given the call is idempotent across instances: an
+   * existing PENDING/RUNNING job is returned as is. A DEAD job with the key is
+   * reset and runs again, and so is a COMPLETED one with `restartCompleted`
+   * (work that can legitimately be needed again, e.g. posting a re-approved reply).
+   * Pass a transaction client to enqueue atomically with the state change that needs the job.
+   */
+  async enqueue(
+    input: EnqueueJobInput & { restartCompleted?: boolean },
+    db: Prisma.TransactionClient = prisma
+  ): Promise<Job> {
+    const data = {
+      type: input.type,
+      payload: input.payload ?? {},
+      outletId: input.outletId ?? null,
+      runAt: input.runAt ?? new Date(),
+      maxAttempts: input.maxAttempts ?? env.JOB_MAX_ATTEMPTS,
+      dedupeKey: input.dedupeKey ?? null,
+    };
+
+    if (!input.dedupeKey) {
+      return db.job.create({ data });
+    }
+
+    const job = await db.job.upsert({
+      where: { dedupeKey: input.dedupeKey },
+      create: data,
+      update: {},
+    });
+
+    const restartable =
+      job.status === JobStatus.DEAD || (input.restartCompleted && job.status === JobStatus.COMPLETED);
+    if (!restartable) return job;
+
+    // only if nobody restarted it in the meantime
+    const { count } = await db.job.updateMany({
+      where: { id: job.id, status: job.status },
+      data: {
+        ...data,
+        status: JobStatus.PENDING,
+        attempts: 0,
+        lockedBy: null,
+        lockedUntil: null,
+        lastError: null,
+        completedAt: null,
+      },
+    });
+
+    return count ? db.job.findUniqueOrThrow({ where: { id: job.id } }) : job;
+  }
+
+  /**
+   * Atomically lease the next runnable job.
+   *
+   * - SKIP LOCKED lets several instances poll the same table safely
+   * - jobs for an outlet that already has a RUNNING job are skipped
+   * - a concurrent lease for the same outlet loses on the partial unique index
+   */
+  async leaseNext(workerId: string, types: string[], leaseMs = env.JOB_LEASE_MS): Promise<Job | null> {
+    if (types.length === 0) return null;
+
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + leaseMs);
+
+    try {
+      const rows = await prisma.$queryRaw<Job[]>`
+        UPDATE "Job"
+        SET "status" = 'RUNNING',
+            "lockedBy" = ${workerId},
+            "lockedUntil" = ${lockedUntil},
+            "attempts" = "attempts" + 1,
+            "updatedAt" = ${now}
+        WHERE "id" = (
+          SELECT j."id" FROM "Job" j
+          WHERE j."status" = 'PENDING'
+            AND j."runAt" <= ${now}
+            AND j."type" = ANY(${types})
+            AND (
+              j."outletId" IS NULL OR NOT EXISTS (
+                SELECT 1 FROM "Job" r
+                WHERE r."outletId" = j."outletId" AND r."status" = 'RUNNING'
+              )
+            )
+          ORDER BY j."runAt" ASC
+          LIMIT 1
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *
+      `;
+
+      return rows[0] ?? null;
+    } catch (err) {
+      // Another instance won the outlet lock between our snapshot and update
+      if (isUniqueViolation(err)) return null;
+      throw err;
+    }
+  }
+
+  /**
+   * Extend the lease of a long-running job (heartbeat)
+   */
+  async extendLease(id: string, workerId: string, leaseMs = env.JOB_LEASE_MS) {
+    return prisma.job.updateMany({
+      where: { id, lockedBy: workerId, status: JobStatus.RUNNING },
+      data: { lockedUntil: new Date(Date.now() + leaseMs) },
+    });
+  }
+
+  /**
+   * Mark job as successfully processed.
+   * All three finishers below only touch a job still leased by `workerId`:
+   * false / null = the lease expired and the job belongs to someone else now.
+   */
+  async complete(id: string, workerId: string): Promise<boolean> {
+    const { count } = await prisma.job.updateMany({
+      where: { id, lockedBy: workerId, status: JobStatus.RUNNING },
+      data: {
+        status: JobStatus.COMPLETED,
+        completedAt: new Date(),
+        lockedBy: null,
+        lockedUntil: null,
+        lastError: null,
+      },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Put a leased job back for later; the attempt taken by the lease is returned
+   */
+  async defer(id: string, workerId: string, runAt: Date): Promise<boolean> {
+    const { count } = await prisma.job.updateMany({
+      where: { id, lockedBy: workerId, status: JobStatus.RUNNING },
+      data: {
+        status: JobStatus.PENDING,
+        runAt,
+        attempts: { decrement: 1 },
+        lockedBy: null,
+        lockedUntil: null,
+      },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Record a failure: reschedule with exponential backoff,
+   * or move to the dead-letter state once attempts are exhausted.
+   */
+  async fail(
+    job: Job,
+    workerId: string,
+    error: unknown
+  ): Promise<Pick<Job, "status" | "runAt" | "lastError"> | null> {
+    const lastError = error instanceof Error ? error.message : String(error);
+
+    const data =
+      job.attempts >= job.maxAttempts
+        ? { status: JobStatus.DEAD, runAt: job.runAt, lastError }
+        : { status: JobStatus.PENDING, runAt: new Date(Date.now() + this.backoffMs(job.attempts)), lastError };
+
+    const { count } = await prisma.job.updateMany({
+      where: { id: job.id, lockedBy: workerId, status: JobStatus.RUNNING },
+      data: { ...data, lockedBy: null, lockedUntil: null },
+    });
+    return count > 0 ? data : null;
+  }
+
+  /**
+   * Exponential backoff with jitter: base * 2^(attempt-1), capped
+   */
+  backoffMs(attempt: number): number {
+    const exp = env.JOB_BACKOFF_BASE_MS * Math.pow(2, Math.max(0, attempt - 1));
+    const capped = Math.min(exp, env.JOB_BACKOFF_MAX_MS);
+    return Math.round(capped + Math.random() * capped * 0.1);
+  }
+
+  /**
+   * Return jobs whose worker died mid-flight to the queue.
+   * Jobs that already used all attempts are dead-lettered instead.
+   */
+  async releaseExpiredLeases() {
+    const now = new Date();
+
+    const dead = await prisma.job.updateMany({
+      where: {
+        status: JobStatus.RUNNING,
+        lockedUntil: { lt: now },
+        attempts: { gte: prisma.job.fields.maxAttempts },
+      },
+      data: {
+        status: JobStatus.DEAD,
+        lockedBy: null,
+        lockedUntil: null,
+        lastError: "Lease expired",
+      },
+    });
+
+    const released = await prisma.job.updateMany({
+      where: {
+        status: JobStatus.RUNNING,
+        lockedUntil: { lt: now },
+      },
+      data: {
+        status: JobStatus.PENDING,
+        lockedBy: null,
+        lockedUntil: null,
+        lastError: "Lease expired",
+      },
+    });
+
+    return { dead: dead.count, released: released.count };
+  }
+
+  /**
+   * Dead-lettered jobs, newest first
+   */
+  async getDeadJobs(limit = 50, offset = 0): Promise<Job[]> {
+    return prisma.job.findMany({
+      where: { status: JobStatus.DEAD },
+      orderBy: { updatedAt: "desc" },
+      take: limit,
+      skip: offset,
+    });
+  }
+
+  /**
+   * Housekeeping: drop completed jobs older than the cutoff
+   */
+  async deleteCompletedBefore(cutoff: Date) {
+    return prisma.job.deleteMany({
+      where: {
+        status: JobStatus.COMPLETED,
+        completedAt: { lt: cutoff },
+      },
+    });
+  }
+}
+
+export const jobQueueRepository = new JobQueueRepository();
@@ -1,5 +1,64 @@
-import { type PrismaClient, ManualQueueStatus } from "@prisma/client"
+import { type PrismaClient, ManualQueueStatus, Prisma } from "@prisma/client"
 import { BaseRepository } from "./base.repo"
+import { slaRepository } from "./sla.repo"
+import { escalationPolicyRepository } from "./escalation-policy.repo"
+import { queueAssignmentRepository } from "./queue-assignment.repo"
+
+/**
+ * Position on the reminder ladder after a reminder went out
+ */
+export interface ReminderStep {
+  reminderCount: number
+  escalationLevel: number
+  // null once the ladder is exhausted
+  nextReminderAt: Date | null
+  escalated: boolean
+}
+
+/**
+ * Mark a queue item responded and stop its SLA clock (first response + close, breach flags).
+ * Active escalations for the review are resolved by the answer, also when it was never queued.
+ * Takes a transaction client so review updates can close the item atomically.
+ */
+export async function markQueueItemResponded(
+  db: Prisma.TransactionClient,
+  where: { id: string } | { reviewId: string },
+  at: Date = new Date()
+) {
+  const condition = "id" in where ? Prisma.sql`"id" = ${where.id}` : Prisma.sql`"reviewId" = ${where.reviewId}`
+  const reviewIds =
+    "id" in where
+      ? Prisma.sql`(SELECT "reviewId" FROM "ManualReviewQueue" WHERE "id" = ${where.id})`
+      : Prisma.sql`(${where.reviewId})`
+
+  // SET expressions all read the row as it was before the update
+  const updated = await db.$executeRaw`
+    UPDATE "ManualReviewQueue" SET
+      "status" = 'RESPONDED',
+      "nextReminderAt" = NULL,
+      "firstResponseBreached" = "firstResponseBreached"
+        OR COALESCE("firstResponseAt" IS NULL AND "firstResponseDueAt" < ${at}, false),
+      "firstResponseAt" = COALESCE("firstResponseAt", ${at}),
+      "closeBreached" = "closeBreached" OR COALESCE("closedAt" IS NULL AND "closeDueAt" < ${at}, false),
+      "closedAt" = COALESCE("closedAt", ${at}),
+      "updatedAt" = NOW()
+    WHERE ${condition}
+  `
+
+  await db.$executeRaw`
+    UPDATE "Escalation" SET
+      "status" = 'RESOLVED',
+      "resolvedAt" = ${at},
+      "resolutionNote" = COALESCE("resolutionNote", 'Review answered'),
+      "updatedAt" = NOW()
+    WHERE "status" <> 'RESOLVED'
+      AND "reviewId" IN ${reviewIds}
+  `
+
+  return updated
+}
+
+const OPEN_ITEM = { status: { not: ManualQueueStatus.RESPONDED } }
 
 export class ManualReviewQueueRepository extends BaseRepository {
   constructor(prisma: PrismaClient) {
@@ -7,16 +66,38 @@ export class ManualReviewQueueRepository extends BaseRepository {
   }
 
   async addToQueue(reviewId: string, outletId: string, assignedAdminId?: string) {
-    const firstReminderAt = new Date(Date.now() + 15 * 60 * 1000) // 15 minutes from now
+    const firstReminderAt = await escalationPolicyRepository.getFirstReminderAt(outletId)
+    const sla = await this.startSlaClock(outletId)
 
-    return this.prisma.manualReviewQueue.create({
-      data: {
+    // keep whoever had it before; pick an admin only for an unassigned item
+    const existing = await this.prisma.manualReviewQueue.findUnique({
+      where: { reviewId },
+      select: { assignedAdminId: true },
+    })
+    if (!existing?.assignedAdminId) {
+      assignedAdminId ??= (await queueAssignmentRepository.pickAdmin(outletId)) ?? undefined
+    }
+
+    // reviewsRepository.createReview may already have inserted the row for 1-3 stars;
+    // upsert so the first reminder still gets scheduled
+    return this.prisma.manualReviewQueue.upsert({
+      where: { reviewId },
+      create: {
         reviewId,
         outletId,
         assignedAdminId,
         reminderCount: 0,
+        escalationLevel: 0,
         nextReminderAt: firstReminderAt,
         status: ManualQueueStatus.PENDING,
+        ...sla,
+      },
+      update: {
+        // an explicit assignee wins; otherwise the current one stays
+        ...(assignedAdminId ? { assignedAdminId } : {}),
+        nextReminderAt: firstReminderAt,
+        escalationLevel: 0,
+        ...sla,
       },
       include: {
         review: {
@@ -25,7 +106,9 @@ export class ManualReviewQueueRepository extends BaseRepository {
               include: {
                 user: {
                   select: {
+                    id: true,
                     whatsappNumber: true,
+                    phoneNumber: true,
                     name: true,
                     email: true,
                   },
@@ -55,18 +138,23 @@ export class ManualReviewQueueRepository extends BaseRepository {
               include: {
                 user: {
                   select: {
+                    id: true,
                     whatsappNumber: true,
+                    phoneNumber: true,
                     name: true,
                     email: true,
                   },
                 },
+                googleIntegration: true,
               },
             },
           },
         },
         assignedAdmin: {
           select: {
+            id: true,
             whatsappNumber: true,
+            phoneNumber: true,
             name: true,
             email: true,
           },
@@ -75,58 +163,187 @@ export class ManualReviewQueueRepository extends BaseRepository {
     })
   }
 
-  async updateReminderSent(queueId: string) {
-    const queueItem = await this.prisma.manualReviewQueue.findUnique({
+  /**
+   * Record a sent reminder; `step` is the next position on the outlet's ladder
+   * (see escalationPolicyService.advance)
+   */
+  async updateReminderSent(queueId: string, step: ReminderStep) {
+    return this.prisma.manualReviewQueue.update({
       where: { id: queueId },
+      data: {
+        reminderCount: step.reminderCount,
+        escalationLevel: step.escalationLevel,
+        nextReminderAt: step.nextReminderAt,
+        ...(step.escalated ? { status: ManualQueueStatus.ESCALATED } : {}),
+      },
     })
+  }
 
-    if (!queueItem) {
-      throw new Error("Queue item not found")
-    }
+  /**
+   * Push a due reminder out without sending it (quiet hours)
+   */
+  async deferReminder(queueId: string, nextReminderAt: Date) {
+    return this.prisma.manualReviewQueue.update({
+      where: { id: queueId },
+      data: { nextReminderAt },
+    })
+  }
 
-    const newCount = queueItem.reminderCount + 1
-
-    // Reminder intervals: 15min, 2h, 6h, 12h, 24h
-    const reminderIntervals = [
-      15 * 60 * 1000, // 15 minutes
-      2 * 60 * 60 * 1000, // 2 hours
-      6 * 60 * 60 * 1000, // 6 hours
-      12 * 60 * 60 * 1000, // 12 hours
-      24 * 60 * 60 * 1000, // 24 hours
-    ]
-
-    // After 5 reminders, escalate
-    if (newCount >= 5) {
-      return this.prisma.manualReviewQueue.update({
-        where: { id: queueId },
-        data: {
-          reminderCount: newCount,
-          status: ManualQueueStatus.ESCALATED,
-          nextReminderAt: null,
-        },
-      })
-    }
+  /**
+   * Put a review back into the queue (e.g. edited from happy to critical).
+   * Reminder ladder restarts from the beginning.
+   */
+  async reopen(reviewId: string, outletId: string) {
+    const firstReminderAt = await escalationPolicyRepository.getFirstReminderAt(outletId)
+    const sla = await this.startSlaClock(outletId)
 
-    const nextInterval = reminderIntervals[newCount] || reminderIntervals[reminderIntervals.length - 1]
-    const nextReminderAt = new Date(Date.now() + nextInterval)
+    // keep whoever had it before; otherwise assign like a new item
+    const existing = await this.prisma.manualReviewQueue.findUnique({
+      where: { reviewId },
+      select: { assignedAdminId: true },
+    })
+    const assignedAdminId = existing?.assignedAdminId ?? (await queueAssignmentRepository.pickAdmin(outletId))
 
-    return this.prisma.manualReviewQueue.update({
-      where: { id: queueId },
-      data: {
-        reminderCount: newCount,
-        nextReminderAt,
+    return this.prisma.manualReviewQueue.upsert({
+      where: { reviewId },
+      create: {
+        reviewId,
+        outletId,
+        assignedAdminId,
+        reminderCount: 0,
+        escalationLevel: 0,
+        nextReminderAt: firstReminderAt,
+        status: ManualQueueStatus.PENDING,
+        ...sla,
+      },
+      update: {
+        assignedAdminId,
+        reminderCount: 0,
+        escalationLevel: 0,
+        nextReminderAt: firstReminderAt,
+        status: ManualQueueStatus.PENDING,
+        ...sla,
       },
     })
   }
 
   async markAsResponded(queueId: string) {
-    return this.prisma.manualReviewQueue.update({
-      where: { id: queueId },
-      data: {
-        status: ManualQueueStatus.RESPONDED,
-        nextReminderAt: null,
+    return markQueueItemResponded(this.prisma, { id: queueId })
+  }
+
+  async markReviewResponded(reviewId: string) {
+    return markQueueItemResponded(this.prisma, { reviewId })
+  }
+
+  /**
+   * Someone acted on the item without closing it; only the first action counts
+   */
+  async recordFirstResponse(reviewId: string, at: Date = new Date()) {
+    return this.prisma.$executeRaw`
+      UPDATE "ManualReviewQueue" SET
+        "firstResponseAt" = ${at},
+        "firstResponseBreached" = "firstResponseBreached" OR COALESCE("firstResponseDueAt" < ${at}, false),
+        "updatedAt" = NOW()
+      WHERE "reviewId" = ${reviewId}
+        AND "firstResponseAt" IS NULL
+        AND "status" <> 'RESPONDED'
+    `
+  }
+
+  async getById(queueId: string) {
+    return this.prisma.manualReviewQueue.findUnique({ where: { id: queueId } })
+  }
+
+  /**
+   * Hand an open item to an admin (null = unassigned). Null if it was already responded.
+   */
+  async assign(queueId: string, adminId: string | null) {
+    const { count } = await this.prisma.manualReviewQueue.updateMany({
+      where: { id: queueId, ...OPEN_ITEM },
+      data: { assignedAdminId: adminId },
+    })
+    return count > 0 ? this.getById(queueId) : null
+  }
+
+  /**
+   * Take an open item that is unassigned (or already ours). False if someone else has it.
+   */
+  async claim(queueId: string, adminId: string): Promise<boolean> {
+    const { count } = await this.prisma.manualReviewQueue.updateMany({
+      where: {
+        id: queueId,
+        ...OPEN_ITEM,
+        OR: [{ assignedAdminId: null }, { assignedAdminId: adminId }],
       },
+      data: { assignedAdminId: adminId },
     })
+    return count > 0
+  }
+
+  /**
+   * Give an item back to the pool; with `adminId`, only if that admin holds it
+   */
+  async release(queueId: string, adminId?: string): Promise<boolean> {
+    const { count } = await this.prisma.manualReviewQueue.updateMany({
+      where: { id: queueId, ...(adminId ? { assignedAdminId: adminId } : { assignedAdminId: { not: null } }) },
+      data: { assignedAdminId: null },
+    })
+    return count > 0
+  }
+
+  /**
+   * Open items held by an admin, optionally limited to `queueIds`
+   */
+  async getOpenByAdmin(adminId: string, queueIds?: string[]) {
+    return this.prisma.manualReviewQueue.findMany({
+      where: {
+        assignedAdminId: adminId,
+        ...OPEN_ITEM,
+        ...(queueIds ? { id: { in: queueIds } } : {}),
+      },
+      select: { id: true, reviewId: true, outletId: true },
+      orderBy: { queuedAt: "asc" },
+    })
+  }
+
+  /**
+   * Move open items from one admin to another in one go
+   */
+  async reassignMany(queueIds: string[], fromAdminId: string, toAdminId: string | null) {
+    const { count } = await this.prisma.manualReviewQueue.updateMany({
+      where: { id: { in: queueIds }, assignedAdminId: fromAdminId, ...OPEN_ITEM },
+      data: { assignedAdminId: toAdminId },
+    })
+    return count
+  }
+
+  /**
+   * An admin's open items, oldest first, with per-status counts
+   */
+  async getAdminQueue(adminId: string, status?: ManualQueueStatus) {
+    const [items, counts] = await Promise.all([
+      this.prisma.manualReviewQueue.findMany({
+        where: { assignedAdminId: adminId, ...(status ? { status } : OPEN_ITEM) },
+        include: {
+          review: {
+            include: {
+              outlet: { select: { id: true, name: true, groupName: true } },
+            },
+          },
+        },
+        orderBy: { queuedAt: "asc" },
+      }),
+      this.prisma.manualReviewQueue.groupBy({
+        by: ["status"],
+        where: { assignedAdminId: adminId },
+        _count: { _all: true },
+      }),
+    ])
+
+    const byStatus = { PENDING: 0, RESPONDED: 0, ESCALATED: 0 } as Record<ManualQueueStatus, number>
+    for (const row of counts) byStatus[row.status] = row._count._all
+
+    return { items, counts: byStatus }
   }
 
   async getEscalatedReviews() {
@@ -148,6 +365,23 @@ export class ManualReviewQueueRepository extends BaseRepository {
     })
   }
 
+  /**
+   * Fresh SLA fields for an item (re-)entering the queue now
+   */
+  private async startSlaClock(outletId: string) {
+    const queuedAt = new Date()
+    const dueDates = await slaRepository.getDueDates(outletId, queuedAt)
+
+    return {
+      queuedAt,
+      ...dueDates,
+      firstResponseAt: null,
+      closedAt: null,
+      firstResponseBreached: false,
+      closeBreached: false,
+    }
+  }
+
   async deleteByOutlet(outletId: string) {
     return this.prisma.manualReviewQueue.deleteMany({
       where: { outletId }
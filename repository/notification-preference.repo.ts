@@ -0,0 +1,75 @@
+import { prisma } from '../database';
+import { NotificationChannel, NotificationPreference, Prisma } from '@prisma/client';
+import env from '../config/env';
+
+export type NotificationPreferenceInput = Pick<
+  Prisma.NotificationPreferenceUncheckedCreateInput,
+  'channels' | 'smsNumber' | 'webhookUrl' | 'webhookSecret'
+>;
+
+export interface ResolvedNotificationPreference {
+  // fallback order
+  channels: NotificationChannel[];
+  smsNumber: string | null;
+  webhookUrl: string | null;
+  // never returned to clients, see the preferences controller
+  webhookSecret: string | null;
+  isDefault: boolean;
+}
+
+/**
+ * NOTIFICATION_CHANNELS, unknown names dropped
+ */
+export function defaultNotificationChannels(): NotificationChannel[] {
+  const known = Object.values(NotificationChannel) as string[];
+  const channels = env.NOTIFICATION_CHANNELS.split(',')
+    .map((c) => c.trim().toUpperCase())
+    .filter((c) => known.includes(c)) as NotificationChannel[];
+
+  return [...new Set(channels)];
+}
+
+export class NotificationPreferenceRepository {
+  async getByUserId(userId: string): Promise<NotificationPreference | null> {
+    return prisma.notificationPreference.findUnique({ where: { userId } });
+  }
+
+  async upsert(userId: string, data: NotificationPreferenceInput): Promise<NotificationPreference> {
+    return prisma.notificationPreference.upsert({
+      where: { userId },
+      create: { ...data, userId },
+      update: data
+    });
+  }
+
+  async delete(userId: string) {
+    return prisma.notificationPreference.deleteMany({ where: { userId } });
+  }
+
+  /**
+   * The user's channels, or the default order when they have none
+   */
+  async resolve(userId: string): Promise<ResolvedNotificationPreference> {
+    const pref = await this.getByUserId(userId);
+
+    if (!pref?.channels.length) {
+      return {
+        channels: defaultNotificationChannels(),
+        smsNumber: pref?.smsNumber ?? null,
+        webhookUrl: pref?.webhookUrl ?? null,
+        webhookSecret: pref?.webhookSecret ?? null,
+        isDefault: true
+      };
+    }
+
+    return {
+      channels: pref.channels,
+      smsNumber: pref.smsNumber,
+      webhookUrl: pref.webhookUrl,
+      webhookSecret: pref.webhookSecret,
+      isDefault: false
+    };
+  }
+}
+
+export const notificationPreferenceRepository = new NotificationPreferenceRepository();
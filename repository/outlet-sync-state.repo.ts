@@ -0,0 +1,99 @@
+import { prisma } from '../database';
+import { OutletSyncState } from '@prisma/client';
+
+export class OutletSyncStateRepository {
+  /**
+   * Fetch sync state for an outlet
+   */
+  async getByOutletId(outletId: string): Promise<OutletSyncState | null> {
+    return prisma.outletSyncState.findUnique({
+      where: { outletId }
+    });
+  }
+
+  /**
+   * Fetch sync state, creating an empty cursor on first sync
+   */
+  async getOrCreate(outletId: string): Promise<OutletSyncState> {
+    return prisma.outletSyncState.upsert({
+      where: { outletId },
+      create: { outletId },
+      update: {}
+    });
+  }
+
+  /**
+   * Record a successful fetch.
+   * - nextPageToken set: sweep is incomplete, keep cursor and resume from the token
+   * - nextPageToken null: sweep finished, advance cursor to when the sweep started
+   */
+  async recordSuccess(
+    outletId: string,
+    data: { startedAt: Date; nextPageToken: string | null }
+  ): Promise<OutletSyncState> {
+    const state = await this.getOrCreate(outletId);
+    const sweepStartedAt = state.sweepStartedAt ?? data.startedAt;
+
+    return prisma.outletSyncState.update({
+      where: { outletId },
+      data: data.nextPageToken
+        ? {
+            lastPageToken: data.nextPageToken,
+            sweepStartedAt,
+            lastAttemptAt: data.startedAt,
+            lastError: null,
+            consecutiveFailures: 0
+          }
+        : {
+            lastSyncedAt: sweepStartedAt,
+            lastPageToken: null,
+            sweepStartedAt: null,
+            lastAttemptAt: data.startedAt,
+            lastError: null,
+            consecutiveFailures: 0
+          }
+    });
+  }
+
+  /**
+   * Record a failed fetch without moving the cursor
+   */
+  async recordFailure(outletId: string, error: string): Promise<OutletSyncState> {
+    return prisma.outletSyncState.upsert({
+      where: { outletId },
+      create: {
+        outletId,
+        lastAttemptAt: new Date(),
+        lastError: error,
+        consecutiveFailures: 1
+      },
+      update: {
+        lastAttemptAt: new Date(),
+        lastError: error,
+        consecutiveFailures: { increment: 1 }
+      }
+    });
+  }
+
+  /**
+   * Reset cursor (optionally to a specific time).
+   * With no `since`, the next run re-scans all reviews for the outlet.
+   */
+  async reset(outletId: string, since?: Date | null): Promise<OutletSyncState> {
+    const data = {
+      lastSyncedAt: since ?? null,
+      lastPageToken: null,
+      sweepStartedAt: null,
+      lastError: null,
+      consecutiveFailures: 0
+    };
+
+    return prisma.outletSyncState.upsert({
+      where: { outletId },
+      create: { outletId, ...data },
+      update: data
+    });
+  }
+}
+
+export const outletSyncStateRepository = new OutletSyncStateRepository();
@@ -0,0 +1,151 @@
+import { prisma } from '../database';
+import {
+  AssignmentStrategy,
+  ManualQueueStatus,
+  Prisma,
+  QueueAssignmentGroup,
+  UserRole
+} from '@prisma/client';
+
+// config row used for outlets whose group has none (or that have no group)
+export const DEFAULT_ASSIGNMENT_GROUP = '*';
+
+export type QueueAssignmentGroupInput = Pick<
+  Prisma.QueueAssignmentGroupUncheckedCreateInput,
+  'strategy' | 'adminIds' | 'isActive'
+>;
+
+export interface AdminWorkload {
+  // null = unassigned items
+  adminId: string | null;
+  name: string | null;
+  email: string | null;
+  open: number;
+  pending: number;
+  escalated: number;
+  slaBreached: number;
+  oldestQueuedAt: Date | null;
+}
+
+const OPEN_ITEM = { status: { not: ManualQueueStatus.RESPONDED } };
+
+/**
+ * Who gets new manual queue items: per outlet group, round-robin or least-loaded
+ * over a list of admins.
+ */
+export class QueueAssignmentRepository {
+  async getAll(): Promise<QueueAssignmentGroup[]> {
+    return prisma.queueAssignmentGroup.findMany({ orderBy: { groupName: 'asc' } });
+  }
+
+  async getByGroupName(groupName: string): Promise<QueueAssignmentGroup | null> {
+    return prisma.queueAssignmentGroup.findUnique({ where: { groupName } });
+  }
+
+  async upsert(groupName: string, data: QueueAssignmentGroupInput): Promise<QueueAssignmentGroup> {
+    return prisma.queueAssignmentGroup.upsert({
+      where: { groupName },
+      create: { ...data, groupName },
+      update: data
+    });
+  }
+
+  async delete(groupName: string) {
+    return prisma.queueAssignmentGroup.deleteMany({ where: { groupName } });
+  }
+
+  /**
+   * Active config for an outlet: its group's, else the default one
+   */
+  async getForOutlet(outletId: string): Promise<QueueAssignmentGroup | null> {
+    const outlet = await prisma.outlet.findUnique({ where: { id: outletId }, select: { groupName: true } });
+    if (!outlet) return null;
+
+    const groups = await prisma.queueAssignmentGroup.findMany({
+      where: {
+        groupName: { in: [outlet.groupName ?? DEFAULT_ASSIGNMENT_GROUP, DEFAULT_ASSIGNMENT_GROUP] },
+        isActive: true
+      }
+    });
+
+    return (
+      groups.find((g) => g.groupName === outlet.groupName) ??
+      groups.find((g) => g.groupName === DEFAULT_ASSIGNMENT_GROUP) ??
+      null
+    );
+  }
+
+  /**
+   * Open items per admin (admins without any are missing from the map)
+   */
+  async getOpenCounts(adminIds: string[]): Promise<Map<string, number>> {
+    const rows = await prisma.manualReviewQueue.groupBy({
+      by: ['assignedAdminId'],
+      where: { ...OPEN_ITEM, assignedAdminId: { in: adminIds } },
+      _count: { _all: true }
+    });
+
+    return new Map(rows.map((row) => [row.assignedAdminId as string, row._count._all]));
+  }
+
+  /**
+   * Admin for the next item of an outlet, or null when no active group covers it.
+   * Deleted or demoted admins in the list are skipped, as are `exclude`d ones.
+   */
+  async pickAdmin(outletId: string, exclude: string[] = []): Promise<string | null> {
+    const group = await this.getForOutlet(outletId);
+    if (!group?.adminIds.length) return null;
+
+    const eligible = await prisma.user.findMany({
+      where: {
+        id: { in: group.adminIds },
+        deletedAt: null,
+        role: { in: [UserRole.ADMIN, UserRole.SUPER_ADMIN] }
+      },
+      select: { id: true }
+    });
+    const eligibleIds = new Set(eligible.map((u) => u.id));
+
+    // keep the configured order for round-robin and tie-breaks
+    const candidates = group.adminIds.filter((id) => eligibleIds.has(id) && !exclude.includes(id));
+    if (!candidates.length) return null;
+
+    let adminId: string;
+    if (group.strategy === AssignmentStrategy.LEAST_LOADED) {
+      const counts = await this.getOpenCounts(candidates);
+      adminId = candidates.reduce((best, id) => ((counts.get(id) ?? 0) < (counts.get(best) ?? 0) ? id : best));
+    } else {
+      const last = group.lastAssignedAdminId ? group.adminIds.indexOf(group.lastAssignedAdminId) : -1;
+      // first candidate after the last one assigned, wrapping around
+      adminId = candidates.find((id) => group.adminIds.indexOf(id) > last) ?? candidates[0];
+    }
+
+    await prisma.queueAssignmentGroup.update({
+      where: { groupName: group.groupName },
+      data: { lastAssignedAdminId: adminId }
+    });
+
+    return adminId;
+  }
+
+  /**
+   * Open items per assignee, busiest first
+   */
+  async getWorkload(): Promise<AdminWorkload[]> {
+    return prisma.$queryRaw<AdminWorkload[]>`
+      SELECT q."assignedAdminId" AS "adminId", u."name", u."email",
+        COUNT(*)::int AS "open",
+        COUNT(*) FILTER (WHERE q."status" = 'PENDING')::int AS "pending",
+        COUNT(*) FILTER (WHERE q."status" = 'ESCALATED')::int AS "escalated",
+        COUNT(*) FILTER (WHERE q."firstResponseBreached" OR q."closeBreached")::int AS "slaBreached",
+        MIN(q."queuedAt") AS "oldestQueuedAt"
+      FROM "ManualReviewQueue" q
+      LEFT JOIN "User" u ON u."id" = q."assignedAdminId"
+      WHERE q."status" <> 'RESPONDED'
+      GROUP BY q."assignedAdminId", u."name", u."email"
+      ORDER BY "open" DESC
+    `;
+  }
+}
+
+export const queueAssignmentRepository = new QueueAssignmentRepository();
@@ -0,0 +1,87 @@
+import { prisma } from '../database';
+import { BusinessCategory, Prisma, ReplyTemplate } from '@prisma/client';
+
+export type ReplyTemplateInput = Omit<
+  Prisma.ReplyTemplateUncheckedCreateInput,
+  'id' | 'createdAt' | 'updatedAt'
+>;
+
+export class ReplyTemplateRepository {
+  async getById(id: string): Promise<ReplyTemplate | null> {
+    return prisma.replyTemplate.findUnique({ where: { id } });
+  }
+
+  /**
+   * Templates owned by one outlet
+   */
+  async getByOutlet(outletId: string): Promise<ReplyTemplate[]> {
+    return prisma.replyTemplate.findMany({
+      where: { outletId },
+      orderBy: { name: 'asc' }
+    });
+  }
+
+  /**
+   * Global defaults; a category filter also returns the all-category templates
+   */
+  async getGlobal(category?: BusinessCategory): Promise<ReplyTemplate[]> {
+    return prisma.replyTemplate.findMany({
+      where: {
+        outletId: null,
+        ...(category ? { OR: [{ category }, { category: null }] } : {})
+      },
+      orderBy: [{ category: 'asc' }, { name: 'asc' }]
+    });
+  }
+
+  /**
+   * Active templates an outlet can reply with: its own first, then its category defaults
+   */
+  async getAvailableForOutlet(
+    outletId: string,
+    category: BusinessCategory,
+    rating?: number
+  ): Promise<ReplyTemplate[]> {
+    const ratingFilter: Prisma.ReplyTemplateWhereInput =
+      rating == null
+        ? {}
+        : {
+            AND: [
+              { OR: [{ minRating: null }, { minRating: { lte: rating } }] },
+              { OR: [{ maxRating: null }, { maxRating: { gte: rating } }] }
+            ]
+          };
+
+    const templates = await prisma.replyTemplate.findMany({
+      where: {
+        isActive: true,
+        OR: [
+          { outletId },
+          { outletId: null, category },
+          { outletId: null, category: null }
+        ],
+        ...ratingFilter
+      },
+      orderBy: { name: 'asc' }
+    });
+
+    return templates.sort((a, b) => Number(!a.outletId) - Number(!b.outletId));
+  }
+
+  async create(data: ReplyTemplateInput): Promise<ReplyTemplate> {
+    return prisma.replyTemplate.create({ data });
+  }
+
+  async update(id: string, data: Partial<ReplyTemplateInput>): Promise<ReplyTemplate> {
+    return prisma.replyTemplate.update({
+      where: { id },
+      data
+    });
+  }
+
+  async delete(id: string): Promise<ReplyTemplate> {
+    return prisma.replyTemplate.delete({ where: { id } });
+  }
+}
+
+export const replyTemplateRepository = new ReplyTemplateRepository();
@@ -0,0 +1,47 @@
+import { prisma } from '../database';
+import { ReplyValidationFailure } from '@prisma/client';
+
+export class ReplyValidationRepository {
+  async recordFailure(data: {
+    reviewId: string;
+    outletId: string;
+    rule: string;
+    detail?: string | null;
+    replyText: string;
+    attempt: number;
+  }): Promise<ReplyValidationFailure> {
+    return prisma.replyValidationFailure.create({ data });
+  }
+
+  async getByReviewId(reviewId: string): Promise<ReplyValidationFailure[]> {
+    return prisma.replyValidationFailure.findMany({
+      where: { reviewId },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Failures per rule for an outlet since a date
+   */
+  async countByRule(outletId: string, from: Date) {
+    const rows = await prisma.replyValidationFailure.groupBy({
+      by: ['rule'],
+      where: { outletId, createdAt: { gte: from } },
+      _count: { _all: true }
+    });
+
+    return rows
+      .map((r) => ({ rule: r.rule, count: r._count._all }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  async getRecentByOutlet(outletId: string, limit = 50): Promise<ReplyValidationFailure[]> {
+    return prisma.replyValidationFailure.findMany({
+      where: { outletId },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+  }
+}
+
+export const replyValidationRepository = new ReplyValidationRepository();
@@ -0,0 +1,144 @@
+import { prisma } from '../database';
+import { Prisma } from '@prisma/client';
+
+export const ANALYTICS_INTERVALS = ['day', 'week', 'month'] as const;
+export type AnalyticsInterval = (typeof ANALYTICS_INTERVALS)[number];
+
+/**
+ * Which reviews to aggregate (no filter = every outlet)
+ */
+export interface AnalyticsScope {
+  outletId?: string;
+  groupName?: string;
+}
+
+export interface PeriodStats {
+  total: number;
+  avgRating: number | null;
+  replied: number;
+  responseRate: number | null;
+  medianResponseMinutes: number | null;
+}
+
+export interface TimeSeriesBucket extends PeriodStats {
+  bucket: Date;
+}
+
+interface StatsRow {
+  total: number;
+  avgRating: number | null;
+  replied: number;
+  medianResponseSeconds: number | null;
+}
+
+/**
+ * Review volume, rating and response metrics aggregated in Postgres.
+ * Periods are half-open: from <= createdAt < to.
+ */
+export class ReviewAnalyticsRepository {
+  /**
+   * One row per interval between from and to, empty intervals included
+   */
+  async getTimeSeries(
+    scope: AnalyticsScope,
+    interval: AnalyticsInterval,
+    from: Date,
+    to: Date
+  ): Promise<TimeSeriesBucket[]> {
+    const rows = await prisma.$queryRaw<(StatsRow & { bucket: Date })[]>`
+      WITH buckets AS (
+        SELECT generate_series(
+          date_trunc(${interval}, ${from}::timestamp),
+          date_trunc(${interval}, ${to}::timestamp - interval '1 millisecond'),
+          (${`1 ${interval}`})::interval
+        ) AS bucket
+      )
+      SELECT b.bucket,
+        ${statsColumns()}
+      FROM buckets b
+      LEFT JOIN "Review" r
+        ON date_trunc(${interval}, r."createdAt") = b.bucket
+        AND r."createdAt" >= ${from}
+        AND r."createdAt" < ${to}
+        AND ${scopeCondition(scope)}
+      GROUP BY b.bucket
+      ORDER BY b.bucket ASC
+    `;
+
+    return rows.map((row) => ({ bucket: row.bucket, ...toStats(row) }));
+  }
+
+  async getPeriodStats(scope: AnalyticsScope, from: Date, to: Date): Promise<PeriodStats> {
+    const [row] = await prisma.$queryRaw<StatsRow[]>`
+      SELECT ${statsColumns()}
+      FROM "Review" r
+      WHERE r."createdAt" >= ${from}
+        AND r."createdAt" < ${to}
+        AND ${scopeCondition(scope)}
+    `;
+
+    return toStats(row);
+  }
+
+  /**
+   * Period stats for every outlet in a group (outlets without reviews included)
+   */
+  async getGroupStats(
+    groupName: string,
+    from: Date,
+    to: Date
+  ): Promise<(PeriodStats & { outletId: string; outletName: string })[]> {
+    const rows = await prisma.$queryRaw<(StatsRow & { outletId: string; outletName: string })[]>`
+      SELECT o."id" AS "outletId", o."name" AS "outletName",
+        ${statsColumns()}
+      FROM "Outlet" o
+      LEFT JOIN "Review" r
+        ON r."outletId" = o."id"
+        AND r."createdAt" >= ${from}
+        AND r."createdAt" < ${to}
+      WHERE o."groupName" = ${groupName}
+      GROUP BY o."id", o."name"
+      ORDER BY o."name" ASC
+    `;
+
+    return rows.map(({ outletId, outletName, ...row }) => ({ outletId, outletName, ...toStats(row) }));
+  }
+}
+
+/**
+ * Aggregates over `r` (reviews LEFT JOINed in, so COUNT(r."id") not COUNT(*))
+ */
+function statsColumns(): Prisma.Sql {
+  return Prisma.sql`
+    COUNT(r."id")::int AS "total",
+    AVG(r."rating")::float AS "avgRating",
+    COUNT(r."repliedAt")::int AS "replied",
+    (percentile_cont(0.5) WITHIN GROUP (
+      ORDER BY EXTRACT(EPOCH FROM (r."repliedAt" - r."createdAt"))
+    ))::float AS "medianResponseSeconds"
+  `;
+}
+
+function scopeCondition(scope: AnalyticsScope): Prisma.Sql {
+  if (scope.outletId) return Prisma.sql`r."outletId" = ${scope.outletId}`;
+  if (scope.groupName) {
+    return Prisma.sql`r."outletId" IN (SELECT o."id" FROM "Outlet" o WHERE o."groupName" = ${scope.groupName})`;
+  }
+  return Prisma.sql`TRUE`;
+}
+
+function toStats(row: StatsRow | undefined): PeriodStats {
+  const total = row?.total ?? 0;
+  const replied = row?.replied ?? 0;
+
+  return {
+    total,
+    avgRating: row?.avgRating == null ? null : Number(row.avgRating.toFixed(2)),
+    replied,
+    responseRate: total === 0 ? null : Number((replied / total).toFixed(4)),
+    medianResponseMinutes:
+      row?.medianResponseSeconds == null ? null : Math.round(row.medianResponseSeconds / 60),
+  };
+}
+
+export const reviewAnalyticsRepository = new ReviewAnalyticsRepository();
@@ -53,7 +53,8 @@ export class ReviewWorkflowRepository {
         ReviewWorkflowState.ESCALATED
       ],
       [ReviewWorkflowState.AUTO_REPLIED]: [
-        ReviewWorkflowState.COMPLETED
+        ReviewWorkflowState.COMPLETED,
+        ReviewWorkflowState.MANUAL_PENDING // Re-open if review edited to critical
       ],
       [ReviewWorkflowState.ESCALATED]: [
         ReviewWorkflowState.COMPLETED
@@ -109,6 +110,25 @@ export class ReviewWorkflowRepository {
     });
   }
 
+  /**
+   * Re-open a finished or auto-handled workflow for manual handling
+   * (review edited on Google from happy to critical).
+   */
+  async reopen(reviewId: string, firstReminderAt: Date) {
+    const current = await this.getByReviewId(reviewId);
+    if (!current) {
+      throw new Error(`Workflow not found for reviewId=${reviewId}`);
+    }
+
+    const state = current.currentState as ReviewWorkflowState;
+    if (state === ReviewWorkflowState.MANUAL_PENDING || state === ReviewWorkflowState.ESCALATED) {
+      return current;
+    }
+
+    this.assertValidTransition(state, ReviewWorkflowState.MANUAL_PENDING);
+    return this.moveToManualQueue(reviewId, firstReminderAt);
+  }
+
   /**
    * Mark auto replied path complete
    */
@@ -1,10 +1,95 @@
 import { prisma } from "../database";
+import { detectLanguage } from "../utils/language";
+import { markQueueItemResponded } from "./manual-review-queue.repo";
 import {
+  Prisma,
   Review,
   ReviewStatus,
-  ManualQueueStatus
+  ReviewUrgency,
+  ManualQueueStatus,
+  ReplyDraftStatus,
+  Sentiment
 } from "@prisma/client";
 
+/**
+ * Structured analysis columns (see reviewAnalysisService)
+ */
+export type ReviewAnalysisFields = Pick<
+  Prisma.ReviewUncheckedCreateInput,
+  "sentiment" | "sentimentScore" | "topics" | "urgency" | "safetyIssue" | "legalIssue" | "analyzedAt"
+>;
+
+export interface ReviewFilters {
+  outletId?: string;
+  status?: ReviewStatus;
+  minRating?: number;
+  maxRating?: number;
+  sentiment?: Sentiment;
+  urgency?: ReviewUrgency;
+  topic?: string;
+  safetyIssue?: boolean;
+  legalIssue?: boolean;
+  minSentimentScore?: number;
+  maxSentimentScore?: number;
+}
+
+export const REVIEW_SORTS = ["newest", "oldest", "rating_desc", "rating_asc", "relevance"] as const;
+export type ReviewSort = (typeof REVIEW_SORTS)[number];
+
+export interface ReviewSearchParams extends ReviewFilters {
+  // full-text query (websearch syntax: "quoted phrase", -exclude, or)
+  q?: string;
+  // restrict to these outlets (user app)
+  outletIds?: string[];
+  platform?: string;
+  from?: Date;
+  to?: Date;
+  hasReply?: boolean;
+  assignedAdminId?: string;
+  sort?: ReviewSort;
+  cursor?: ReviewCursor | null;
+  limit?: number;
+}
+
+export interface ReviewCursor {
+  // sort the cursor was issued for
+  s: ReviewSort;
+  // sort key of the last row (ISO date, rating or rank)
+  v: string | number;
+  id: string;
+}
+
+/**
+ * Effective sort: relevance by default when searching, newest otherwise
+ */
+export function resolveReviewSort(sort: ReviewSort | undefined, q?: string): ReviewSort {
+  const searching = !!q?.trim();
+  if (!sort) return searching ? "relevance" : "newest";
+  return sort === "relevance" && !searching ? "newest" : sort;
+}
+
+export function encodeReviewCursor(cursor: ReviewCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * null when the cursor was not produced by encodeReviewCursor
+ */
+export function decodeReviewCursor(raw: string): ReviewCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (!REVIEW_SORTS.includes(cursor?.s) || typeof cursor?.id !== "string") return null;
+
+    const isDateSort = cursor.s === "newest" || cursor.s === "oldest";
+    const validValue = isDateSort
+      ? typeof cursor.v === "string" && !Number.isNaN(Date.parse(cursor.v))
+      : typeof cursor.v === "number" && Number.isFinite(cursor.v);
+    return validValue ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
 export class ReviewsRepository {
   //
   // -------- BASIC CRUD ----------
@@ -19,7 +104,10 @@ export class ReviewsRepository {
   async getById(id: string) {
     return prisma.review.findUnique({
       where: { id },
-      include: { outlet: true }
+      include: {
+        outlet: true,
+        revisions: { orderBy: { googleUpdateTime: "desc" } }
+      }
     });
   }
 
@@ -32,6 +120,130 @@ export class ReviewsRepository {
     });
   }
 
+  //
+  // -------- SEARCH ----------
+  //
+
+  /**
+   * Full-text search + filters with keyset pagination.
+   * Runs in SQL so the GIN index on searchVector and ts_rank can be used.
+   */
+  async search(params: ReviewSearchParams) {
+    const limit = Math.min(Math.max(params.limit ?? 25, 1), 100);
+    const q = params.q?.trim();
+    const tsQuery = q ? Prisma.sql`websearch_to_tsquery('simple', ${q})` : null;
+
+    if (params.outletIds && params.outletIds.length === 0) {
+      return { reviews: [], nextCursor: null };
+    }
+
+    const sort = resolveReviewSort(params.sort, q);
+    const { key, desc, cast } = this.sortKey(sort, tsQuery);
+
+    const conditions = this.searchConditions(params, tsQuery);
+    // a cursor from a different sort can't continue this page sequence
+    if (params.cursor && params.cursor.s === sort) {
+      const value =
+        cast === "timestamp" ? Prisma.sql`${new Date(params.cursor.v)}`
+          : cast === "int" ? Prisma.sql`${Number(params.cursor.v)}::int`
+          : Prisma.sql`${Number(params.cursor.v)}::real`;
+      conditions.push(
+        desc
+          ? Prisma.sql`(${key}, r."id") < (${value}, ${params.cursor.id})`
+          : Prisma.sql`(${key}, r."id") > (${value}, ${params.cursor.id})`
+      );
+    }
+
+    const where = conditions.length ? Prisma.sql`WHERE ${Prisma.join(conditions, " AND ")}` : Prisma.empty;
+    const direction = desc ? Prisma.raw("DESC") : Prisma.raw("ASC");
+
+    const rows = await prisma.$queryRaw<{ id: string; sortValue: Date | number }[]>`
+      SELECT r."id", ${key} AS "sortValue"
+      FROM "Review" r
+      ${where}
+      ORDER BY ${key} ${direction}, r."id" ${direction}
+      LIMIT ${limit + 1}
+    `;
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    const nextCursor =
+      rows.length > limit && last
+        ? encodeReviewCursor({
+            s: sort,
+            v: last.sortValue instanceof Date ? last.sortValue.toISOString() : Number(last.sortValue),
+            id: last.id
+          })
+        : null;
+
+    const found = await prisma.review.findMany({
+      where: { id: { in: page.map((r) => r.id) } },
+      include: {
+        outlet: { select: { id: true, name: true } },
+        manualQueue: { select: { assignedAdminId: true, status: true } }
+      }
+    });
+    const byId = new Map(found.map((r) => [r.id, r]));
+
+    return {
+      reviews: page.map((r) => byId.get(r.id)).filter((r): r is NonNullable<typeof r> => !!r),
+      nextCursor
+    };
+  }
+
+  private sortKey(sort: ReviewSort, tsQuery: Prisma.Sql | null) {
+    switch (sort) {
+      case "oldest":
+        return { key: Prisma.sql`r."createdAt"`, desc: false, cast: "timestamp" as const };
+      case "rating_desc":
+        return { key: Prisma.sql`r."rating"`, desc: true, cast: "int" as const };
+      case "rating_asc":
+        return { key: Prisma.sql`r."rating"`, desc: false, cast: "int" as const };
+      case "relevance":
+        return { key: Prisma.sql`ts_rank(r."searchVector", ${tsQuery!})`, desc: true, cast: "real" as const };
+      case "newest":
+      default:
+        return { key: Prisma.sql`r."createdAt"`, desc: true, cast: "timestamp" as const };
+    }
+  }
+
+  private searchConditions(params: ReviewSearchParams, tsQuery: Prisma.Sql | null): Prisma.Sql[] {
+    const c: Prisma.Sql[] = [];
+
+    if (tsQuery) c.push(Prisma.sql`r."searchVector" @@ ${tsQuery}`);
+    if (params.outletIds) c.push(Prisma.sql`r."outletId" IN (${Prisma.join(params.outletIds)})`);
+    if (params.outletId) c.push(Prisma.sql`r."outletId" = ${params.outletId}`);
+    if (params.status) c.push(Prisma.sql`r."status" = ${params.status}::"ReviewStatus"`);
+    if (params.platform) c.push(Prisma.sql`r."platform" = ${params.platform}`);
+    if (params.minRating != null) c.push(Prisma.sql`r."rating" >= ${params.minRating}`);
+    if (params.maxRating != null) c.push(Prisma.sql`r."rating" <= ${params.maxRating}`);
+    if (params.from) c.push(Prisma.sql`r."createdAt" >= ${params.from}`);
+    if (params.to) c.push(Prisma.sql`r."createdAt" <= ${params.to}`);
+
+    if (params.hasReply !== undefined) {
+      const replied = Prisma.sql`(r."manualReplyText" IS NOT NULL OR (r."aiReplyText" IS NOT NULL AND r."status" = 'CLOSED'))`;
+      c.push(params.hasReply ? replied : Prisma.sql`NOT ${replied}`);
+    }
+
+    if (params.assignedAdminId) {
+      c.push(Prisma.sql`EXISTS (
+        SELECT 1 FROM "ManualReviewQueue" mq
+        WHERE mq."reviewId" = r."id" AND mq."assignedAdminId" = ${params.assignedAdminId}
+      )`);
+    }
+
+    // structured analysis
+    if (params.sentiment) c.push(Prisma.sql`r."sentiment" = ${params.sentiment}::"Sentiment"`);
+    if (params.urgency) c.push(Prisma.sql`r."urgency" = ${params.urgency}::"ReviewUrgency"`);
+    if (params.topic) c.push(Prisma.sql`${params.topic} = ANY(r."topics")`);
+    if (params.safetyIssue !== undefined) c.push(Prisma.sql`r."safetyIssue" = ${params.safetyIssue}`);
+    if (params.legalIssue !== undefined) c.push(Prisma.sql`r."legalIssue" = ${params.legalIssue}`);
+    if (params.minSentimentScore != null) c.push(Prisma.sql`r."sentimentScore" >= ${params.minSentimentScore}`);
+    if (params.maxSentimentScore != null) c.push(Prisma.sql`r."sentimentScore" <= ${params.maxSentimentScore}`);
+
+    return c;
+  }
+
   //
   // -------- CREATION WITH RATING RULE ENGINE ----------
   //
@@ -42,7 +254,12 @@ export class ReviewsRepository {
     customerName: string;
     reviewText: string;
     googleReviewId?: string;
+    googleUpdateTime?: Date;
+    requiresManual?: boolean; // outlet automation policy decision
+    analysis?: ReviewAnalysisFields;
   }) {
+    const manual = data.requiresManual ?? data.rating <= 3;
+
     return prisma.$transaction(async (tx) => {
       // create base review
       const review = await tx.review.create({
@@ -52,15 +269,29 @@ export class ReviewsRepository {
           customerName: data.customerName,
           reviewText: data.reviewText,
           googleReviewId: data.googleReviewId,
-          status:
-            data.rating >= 4
-              ? ReviewStatus.PENDING // awaiting AI auto-reply worker
-              : ReviewStatus.MANUAL_PENDING // will enter manual queue
+          googleUpdateTime: data.googleUpdateTime,
+          language: detectLanguage(data.reviewText),
+          ...data.analysis,
+          status: manual
+            ? ReviewStatus.MANUAL_PENDING // will enter manual queue
+            : ReviewStatus.PENDING // awaiting AI auto-reply worker
         }
       });
 
-      // ratings 1–3 → add to manual review queue
-      if (data.rating <= 3) {
+      // first revision of a Google review
+      if (data.googleUpdateTime) {
+        await tx.reviewRevision.create({
+          data: {
+            reviewId: review.id,
+            rating: data.rating,
+            reviewText: data.reviewText,
+            googleUpdateTime: data.googleUpdateTime
+          }
+        });
+      }
+
+      // ratings 1–3 (or policy match) → add to manual review queue
+      if (manual) {
         await tx.manualReviewQueue.create({
           data: {
             reviewId: review.id,
@@ -75,11 +306,86 @@ export class ReviewsRepository {
   }
 
   //
-  // -------- STATUS CHANGE HELPERS ----------
+  // -------- REVISIONS (EDITED GOOGLE REVIEWS) ----------
   //
 
-  async markAsAutoReplied(reviewId: string, aiReplyText: string) {
+  /**
+   * Store a new version of an edited review and make its text current.
+   * Reviews ingested before revision tracking get a baseline revision first.
+   * googleUpdateTime is left alone: the caller advances it (setGoogleUpdateTime)
+   * once the edit has been fully handled, so a failed run is picked up again.
+   */
+  async recordRevision(
+    reviewId: string,
+    data: { rating: number; reviewText: string; googleUpdateTime: Date; analysis?: ReviewAnalysisFields }
+  ) {
+    const { analysis, ...revisionData } = data;
+
+    return prisma.$transaction(async (tx) => {
+      const review = await tx.review.findUniqueOrThrow({
+        where: { id: reviewId },
+        include: { _count: { select: { revisions: true } } }
+      });
+
+      if (review._count.revisions === 0) {
+        await tx.reviewRevision.create({
+          data: {
+            reviewId,
+            rating: review.rating,
+            reviewText: review.reviewText,
+            googleUpdateTime: review.googleUpdateTime ?? review.createdAt
+          }
+        });
+      }
+
+      const revision = await tx.reviewRevision.upsert({
+        where: {
+          reviewId_googleUpdateTime: { reviewId, googleUpdateTime: data.googleUpdateTime }
+        },
+        create: { reviewId, ...revisionData },
+        update: {}
+      });
+
+      await tx.review.update({
+        where: { id: reviewId },
+        data: {
+          rating: data.rating,
+          reviewText: data.reviewText,
+          language: detectLanguage(data.reviewText) ?? review.language,
+          ...analysis
+        }
+      });
+
+      return revision;
+    });
+  }
+
+  async setGoogleUpdateTime(reviewId: string, googleUpdateTime: Date) {
     return prisma.review.update({
+      where: { id: reviewId },
+      data: { googleUpdateTime }
+    });
+  }
+
+  async getRevisionAt(reviewId: string, googleUpdateTime: Date) {
+    return prisma.reviewRevision.findUnique({
+      where: { reviewId_googleUpdateTime: { reviewId, googleUpdateTime } }
+    });
+  }
+
+  async getRevisions(reviewId: string) {
+    return prisma.reviewRevision.findMany({
+      where: { reviewId },
+      orderBy: { googleUpdateTime: "desc" }
+    });
+  }
+
+  //
+  // -------- STATUS CHANGE HELPERS ----------
+  //
+
+  async markAsAutoReplied(reviewId: string, aiReplyText: string, db: Prisma.TransactionClient = prisma) {
+    return db.review.update({
       where: { id: reviewId },
       data: {
         status: ReviewStatus.AUTO_REPLIED,
@@ -89,14 +395,90 @@ export class ReviewsRepository {
     });
   }
 
-  async markAsClosed(reviewId: string) {
+  /**
+   * Hold an AI reply as a draft until the owner approves it
+   */
+  async saveReplyDraft(reviewId: string, draftReplyText: string) {
     return prisma.review.update({
       where: { id: reviewId },
       data: {
-        status: ReviewStatus.CLOSED,
-        updatedAt: new Date()
+        status: ReviewStatus.AWAITING_APPROVAL,
+        draftReplyText,
+        draftStatus: ReplyDraftStatus.PENDING,
+        draftCreatedAt: new Date(),
+        draftDecidedAt: null,
+        draftDecidedById: null
+      }
+    });
+  }
+
+  /**
+   * Approve a pending draft; the approved text becomes the AI reply to post.
+   * Returns false if the draft was already decided (owner vs auto-approve race).
+   */
+  async approveReplyDraft(
+    reviewId: string,
+    data: { replyText: string; decision: ReplyDraftStatus; decidedById?: string },
+    db: Prisma.TransactionClient = prisma
+  ): Promise<boolean> {
+    const result = await db.review.updateMany({
+      where: {
+        id: reviewId,
+        status: ReviewStatus.AWAITING_APPROVAL,
+        draftStatus: ReplyDraftStatus.PENDING
+      },
+      data: {
+        status: ReviewStatus.AUTO_REPLIED,
+        aiReplyText: data.replyText,
+        draftStatus: data.decision,
+        draftDecidedAt: new Date(),
+        draftDecidedById: data.decidedById ?? null
+      }
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Reject a pending draft; the review falls back to manual handling.
+   */
+  async rejectReplyDraft(reviewId: string, decidedById: string): Promise<boolean> {
+    const result = await prisma.review.updateMany({
+      where: {
+        id: reviewId,
+        status: ReviewStatus.AWAITING_APPROVAL,
+        draftStatus: ReplyDraftStatus.PENDING
+      },
+      data: {
+        status: ReviewStatus.MANUAL_PENDING,
+        draftStatus: ReplyDraftStatus.REJECTED,
+        draftDecidedAt: new Date(),
+        draftDecidedById: decidedById
       }
     });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Close a review; repliedAt = null when it was closed without a reply.
+   * Its queue item and escalations are closed with it.
+   */
+  async markAsClosed(reviewId: string, repliedAt: Date | null = new Date()) {
+    return prisma.$transaction(async (tx) => {
+      const review = await tx.review.update({
+        where: { id: reviewId },
+        data: {
+          status: ReviewStatus.CLOSED,
+          ...(repliedAt ? { repliedAt } : {}),
+          updatedAt: new Date()
+        }
+      });
+
+      await markQueueItemResponded(tx, { reviewId }, repliedAt ?? new Date());
+
+      return review;
+    });
   }
 
   async saveManualReply(reviewId: string, reply: string) {
@@ -105,16 +487,36 @@ export class ReviewsRepository {
         where: { id: reviewId },
         data: {
           status: ReviewStatus.CLOSED,
-          manualReplyText: reply
+          manualReplyText: reply,
+          repliedAt: new Date()
         }
       });
 
-      await tx.manualReviewQueue.update({
-        where: { reviewId },
+      await markQueueItemResponded(tx, { reviewId });
+    });
+  }
+
+  /**
+   * Import a reply the owner wrote directly on Google.
+   * Closes the review and stops manual-queue reminders.
+   */
+  async importExternalReply(reviewId: string, reply: string, repliedAt: Date | null) {
+    return prisma.$transaction(async (tx) => {
+      const review = await tx.review.update({
+        where: { id: reviewId },
         data: {
-          status: ManualQueueStatus.RESPONDED
+          status: ReviewStatus.CLOSED,
+          manualReplyText: reply,
+          externalReply: true,
+          externalReplyAt: repliedAt,
+          repliedAt: repliedAt ?? new Date()
         }
       });
+
+      // Google reply time also stops the SLA clock
+      await markQueueItemResponded(tx, { reviewId }, repliedAt ?? new Date());
+
+      return review;
     });
   }
 
@@ -138,36 +540,84 @@ export class ReviewsRepository {
   // -------- ANALYTICS ----------
   //
 
+  /**
+   * Period totals for an outlet, aggregated in Postgres
+   * (see reviewAnalyticsRepository for time series and comparisons)
+   */
   async getAnalytics(outletId: string, days = 30) {
     const from = new Date();
     from.setDate(from.getDate() - days);
 
-    const reviews = await prisma.review.findMany({
-      where: { outletId, createdAt: { gte: from } }
-    });
-
-    const total = reviews.length;
-
-    const avgRating =
-      total === 0
-        ? 0
-        : reviews.reduce((s, r) => s + r.rating, 0) / total;
+    const where: Prisma.ReviewWhereInput = { outletId, createdAt: { gte: from } };
+
+    const [totals, byStatus, byRating, bySentiment, byUrgency, unanalyzed, safetyIssues, legalIssues, topics] =
+      await Promise.all([
+        prisma.review.aggregate({
+          where,
+          _count: { _all: true },
+          _avg: { rating: true, sentimentScore: true }
+        }),
+        prisma.review
+          .groupBy({ by: ["status"], where, _count: { _all: true } })
+          .then((rows) => new Map(rows.map((r) => [r.status, r._count._all]))),
+        prisma.review
+          .groupBy({ by: ["rating"], where, _count: { _all: true } })
+          .then((rows) => new Map(rows.map((r) => [r.rating, r._count._all]))),
+        prisma.review
+          .groupBy({ by: ["sentiment"], where, _count: { _all: true } })
+          .then((rows) => new Map(rows.map((r) => [r.sentiment, r._count._all]))),
+        prisma.review
+          .groupBy({ by: ["urgency"], where, _count: { _all: true } })
+          .then((rows) => new Map(rows.map((r) => [r.urgency, r._count._all]))),
+        prisma.review.count({ where: { ...where, analyzedAt: null } }),
+        prisma.review.count({ where: { ...where, safetyIssue: true } }),
+        prisma.review.count({ where: { ...where, legalIssue: true } }),
+        prisma.$queryRaw<{ topic: string; count: number; avgSentimentScore: number | null }[]>`
+          SELECT t.topic, COUNT(*)::int AS "count", AVG(r."sentimentScore")::float AS "avgSentimentScore"
+          FROM "Review" r, unnest(r."topics") AS t(topic)
+          WHERE r."outletId" = ${outletId} AND r."createdAt" >= ${from}
+          GROUP BY t.topic
+          ORDER BY "count" DESC, t.topic ASC
+        `
+      ]);
+
+    const round = (value: number | null | undefined) => (value == null ? null : Number(value.toFixed(2)));
 
     return {
-      total,
-      avgRating: Number(avgRating.toFixed(2)),
-      closed: reviews.filter(r => r.status === "CLOSED").length,
-      autoReplied: reviews.filter(r => r.status === "AUTO_REPLIED").length,
-      manualPending: reviews.filter(r => r.status === "MANUAL_PENDING").length,
+      total: totals._count._all,
+      avgRating: round(totals._avg.rating) ?? 0,
+      closed: byStatus.get(ReviewStatus.CLOSED) ?? 0,
+      autoReplied: byStatus.get(ReviewStatus.AUTO_REPLIED) ?? 0,
+      manualPending: byStatus.get(ReviewStatus.MANUAL_PENDING) ?? 0,
 
       ratingDistribution: {
-        five: reviews.filter(r => r.rating === 5).length,
-        four: reviews.filter(r => r.rating === 4).length,
-        three: reviews.filter(r => r.rating === 3).length,
-        two: reviews.filter(r => r.rating === 2).length,
-        one: reviews.filter(r => r.rating === 1).length
+        five: byRating.get(5) ?? 0,
+        four: byRating.get(4) ?? 0,
+        three: byRating.get(3) ?? 0,
+        two: byRating.get(2) ?? 0,
+        one: byRating.get(1) ?? 0
+      },
+
+      sentiment: {
+        positive: bySentiment.get(Sentiment.POSITIVE) ?? 0,
+        neutral: bySentiment.get(Sentiment.NEUTRAL) ?? 0,
+        negative: bySentiment.get(Sentiment.NEGATIVE) ?? 0,
+        unanalyzed,
+        avgScore: round(totals._avg.sentimentScore)
       },
 
+      urgency: {
+        high: byUrgency.get(ReviewUrgency.HIGH) ?? 0,
+        medium: byUrgency.get(ReviewUrgency.MEDIUM) ?? 0,
+        low: byUrgency.get(ReviewUrgency.LOW) ?? 0
+      },
+
+      safetyIssues,
+      legalIssues,
+
+      // most mentioned first
+      topics: topics.map((t) => ({ ...t, avgSentimentScore: round(t.avgSentimentScore) })),
+
       periodDays: days
     };
   }
@@ -197,7 +647,7 @@ export class ReviewsRepository {
     // Assuming we have a method to update status, but let's see
     // For now, if status is CLOSED, call markAsClosed
     if (status === ReviewStatus.CLOSED) {
-      return this.markAsClosed(id);
+      return this.markAsClosed(id, null);
     }
     // Otherwise, perhaps update the review status
     return prisma.review.update({
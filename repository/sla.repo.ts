@@ -0,0 +1,231 @@
+import { prisma } from '../database';
+import { ManualQueueStatus, Outlet, Prisma, SlaPlanTarget, SubscriptionPlan } from '@prisma/client';
+import env from '../config/env';
+
+export const SLA_REPORT_GROUPS = ['outlet', 'admin'] as const;
+export type SlaReportGroup = (typeof SLA_REPORT_GROUPS)[number];
+
+export interface SlaTargets {
+  firstResponseMinutes: number;
+  closeMinutes: number;
+  source: 'outlet' | 'plan' | 'default';
+}
+
+export interface SlaReportRow {
+  // outlet id, or assigned admin id (null = unassigned)
+  key: string | null;
+  name: string | null;
+  total: number;
+  open: number;
+  responded: number;
+  firstResponseBreached: number;
+  closeBreached: number;
+  avgFirstResponseMinutes: number | null;
+  medianFirstResponseMinutes: number | null;
+  avgCloseMinutes: number | null;
+  medianCloseMinutes: number | null;
+  // share of decided items (answered, or past due) that met the target
+  firstResponseCompliance: number | null;
+  closeCompliance: number | null;
+}
+
+interface ReportRow {
+  key: string | null;
+  name: string | null;
+  total: number;
+  open: number;
+  responded: number;
+  firstResponseDecided: number;
+  firstResponseBreached: number;
+  closeDecided: number;
+  closeBreached: number;
+  avgFirstResponseSeconds: number | null;
+  medianFirstResponseSeconds: number | null;
+  avgCloseSeconds: number | null;
+  medianCloseSeconds: number | null;
+}
+
+type SlaOutlet = Pick<Outlet, 'subscriptionPlan' | 'slaFirstResponseMinutes' | 'slaCloseMinutes'>;
+
+const OPEN_ITEM = { status: { not: ManualQueueStatus.RESPONDED } };
+
+/**
+ * Manual queue SLA: targets (outlet override > plan > env default), breach flags and reports.
+ * Report periods are half-open on queuedAt: from <= queuedAt < to.
+ */
+export class SlaRepository {
+  async getPlanTarget(plan: SubscriptionPlan): Promise<SlaPlanTarget | null> {
+    return prisma.slaPlanTarget.findUnique({ where: { plan } });
+  }
+
+  async getAllPlanTargets(): Promise<SlaPlanTarget[]> {
+    return prisma.slaPlanTarget.findMany({ orderBy: { plan: 'asc' } });
+  }
+
+  async upsertPlanTarget(
+    plan: SubscriptionPlan,
+    data: { firstResponseMinutes: number; closeMinutes: number }
+  ): Promise<SlaPlanTarget> {
+    return prisma.slaPlanTarget.upsert({
+      where: { plan },
+      create: { plan, ...data },
+      update: data
+    });
+  }
+
+  async resolveTargets(outlet: SlaOutlet): Promise<SlaTargets> {
+    const planTarget = await this.getPlanTarget(outlet.subscriptionPlan);
+    const base: SlaTargets = planTarget
+      ? { firstResponseMinutes: planTarget.firstResponseMinutes, closeMinutes: planTarget.closeMinutes, source: 'plan' }
+      : { firstResponseMinutes: env.SLA_FIRST_RESPONSE_MINUTES, closeMinutes: env.SLA_CLOSE_MINUTES, source: 'default' };
+
+    if (outlet.slaFirstResponseMinutes == null && outlet.slaCloseMinutes == null) return base;
+
+    return {
+      firstResponseMinutes: outlet.slaFirstResponseMinutes ?? base.firstResponseMinutes,
+      closeMinutes: outlet.slaCloseMinutes ?? base.closeMinutes,
+      source: 'outlet'
+    };
+  }
+
+  /**
+   * Due dates for an item entering the queue at `queuedAt` (nulls if the outlet is gone)
+   */
+  async getDueDates(outletId: string, queuedAt: Date) {
+    const outlet = await prisma.outlet.findUnique({
+      where: { id: outletId },
+      select: { subscriptionPlan: true, slaFirstResponseMinutes: true, slaCloseMinutes: true }
+    });
+    if (!outlet) return { firstResponseDueAt: null, closeDueAt: null };
+
+    const targets = await this.resolveTargets(outlet);
+    return {
+      firstResponseDueAt: new Date(queuedAt.getTime() + targets.firstResponseMinutes * 60 * 1000),
+      closeDueAt: new Date(queuedAt.getTime() + targets.closeMinutes * 60 * 1000)
+    };
+  }
+
+  /**
+   * Flag open items whose due dates have passed; returns how many were newly flagged
+   */
+  async flagBreaches(now: Date = new Date()) {
+    const [firstResponse, close] = await prisma.$transaction([
+      prisma.manualReviewQueue.updateMany({
+        where: {
+          ...OPEN_ITEM,
+          firstResponseAt: null,
+          firstResponseBreached: false,
+          firstResponseDueAt: { lt: now }
+        },
+        data: { firstResponseBreached: true }
+      }),
+      prisma.manualReviewQueue.updateMany({
+        where: { ...OPEN_ITEM, closeBreached: false, closeDueAt: { lt: now } },
+        data: { closeBreached: true }
+      })
+    ]);
+
+    return { firstResponse: firstResponse.count, close: close.count };
+  }
+
+  /**
+   * Open items past a due date, oldest first
+   */
+  async getOpenBreaches(outletId?: string, limit = 50) {
+    return prisma.manualReviewQueue.findMany({
+      where: {
+        ...OPEN_ITEM,
+        ...(outletId ? { outletId } : {}),
+        OR: [{ firstResponseBreached: true }, { closeBreached: true }]
+      },
+      include: {
+        review: { select: { id: true, rating: true, customerName: true, reviewText: true } },
+        outlet: { select: { id: true, name: true } },
+        assignedAdmin: { select: { id: true, name: true, email: true } }
+      },
+      orderBy: { queuedAt: 'asc' },
+      take: limit
+    });
+  }
+
+  /**
+   * Response times and compliance per outlet or per assigned admin, computed in Postgres.
+   * Past-due open items count as breached even before the sweep flags them.
+   */
+  async getReport(groupBy: SlaReportGroup, from: Date, to: Date, outletId?: string): Promise<SlaReportRow[]> {
+    const group =
+      groupBy === 'outlet'
+        ? {
+            columns: Prisma.sql`o."id" AS "key", o."name" AS "name"`,
+            join: Prisma.sql`JOIN "Outlet" o ON o."id" = q."outletId"`,
+            groupBy: Prisma.sql`o."id", o."name"`
+          }
+        : {
+            columns: Prisma.sql`q."assignedAdminId" AS "key", u."name" AS "name"`,
+            join: Prisma.sql`LEFT JOIN "User" u ON u."id" = q."assignedAdminId"`,
+            groupBy: Prisma.sql`q."assignedAdminId", u."name"`
+          };
+
+    const rows = await prisma.$queryRaw<ReportRow[]>`
+      SELECT ${group.columns},
+        COUNT(*)::int AS "total",
+        COUNT(*) FILTER (WHERE q."status" <> 'RESPONDED')::int AS "open",
+        COUNT(*) FILTER (WHERE q."status" = 'RESPONDED')::int AS "responded",
+        COUNT(*) FILTER (
+          WHERE q."firstResponseAt" IS NOT NULL OR q."firstResponseBreached" OR q."firstResponseDueAt" < NOW()
+        )::int AS "firstResponseDecided",
+        COUNT(*) FILTER (
+          WHERE q."firstResponseBreached"
+            OR (q."firstResponseAt" IS NULL AND q."status" <> 'RESPONDED' AND q."firstResponseDueAt" < NOW())
+        )::int AS "firstResponseBreached",
+        COUNT(*) FILTER (
+          WHERE q."closedAt" IS NOT NULL OR q."closeBreached" OR q."closeDueAt" < NOW()
+        )::int AS "closeDecided",
+        COUNT(*) FILTER (
+          WHERE q."closeBreached"
+            OR (q."closedAt" IS NULL AND q."status" <> 'RESPONDED' AND q."closeDueAt" < NOW())
+        )::int AS "closeBreached",
+        AVG(EXTRACT(EPOCH FROM (q."firstResponseAt" - q."queuedAt")))::float AS "avgFirstResponseSeconds",
+        (percentile_cont(0.5) WITHIN GROUP (
+          ORDER BY EXTRACT(EPOCH FROM (q."firstResponseAt" - q."queuedAt"))
+        ))::float AS "medianFirstResponseSeconds",
+        AVG(EXTRACT(EPOCH FROM (q."closedAt" - q."queuedAt")))::float AS "avgCloseSeconds",
+        (percentile_cont(0.5) WITHIN GROUP (
+          ORDER BY EXTRACT(EPOCH FROM (q."closedAt" - q."queuedAt"))
+        ))::float AS "medianCloseSeconds"
+      FROM "ManualReviewQueue" q
+      ${group.join}
+      WHERE q."queuedAt" >= ${from}
+        AND q."queuedAt" < ${to}
+        ${outletId ? Prisma.sql`AND q."outletId" = ${outletId}` : Prisma.empty}
+      GROUP BY ${group.groupBy}
+      ORDER BY "total" DESC
+    `;
+
+    return rows.map(toReportRow);
+  }
+}
+
+function toReportRow(row: ReportRow): SlaReportRow {
+  const minutes = (seconds: number | null) => (seconds == null ? null : Math.round(seconds / 60));
+  const compliance = (decided: number, breached: number) =>
+    decided === 0 ? null : Number(((decided - breached) / decided).toFixed(4));
+
+  return {
+    key: row.key,
+    name: row.name,
+    total: row.total,
+    open: row.open,
+    responded: row.responded,
+    firstResponseBreached: row.firstResponseBreached,
+    closeBreached: row.closeBreached,
+    avgFirstResponseMinutes: minutes(row.avgFirstResponseSeconds),
+    medianFirstResponseMinutes: minutes(row.medianFirstResponseSeconds),
+    avgCloseMinutes: minutes(row.avgCloseSeconds),
+    medianCloseMinutes: minutes(row.medianCloseSeconds),
+    firstResponseCompliance: compliance(row.firstResponseDecided, row.firstResponseBreached),
+    closeCompliance: compliance(row.closeDecided, row.closeBreached)
+  };
+}
+
+export const slaRepository = new SlaRepository();
@@ -278,6 +278,31 @@ export class UsersRepository {
     return prisma.user.count({ where: { role: 'SUPER_ADMIN', deletedAt: null } });
   }
 
+  /**
+   * Active super admins (last step of the escalation chain)
+   */
+  async getSuperAdminContacts() {
+    return prisma.user.findMany({
+      where: { role: 'SUPER_ADMIN', deletedAt: null },
+      select: { id: true, name: true, email: true, whatsappNumber: true, phoneNumber: true },
+    });
+  }
+
+  /**
+   * Active user behind a WhatsApp sender id (digits only, as the Cloud API sends it)
+   */
+  async getByWhatsAppNumber(waId: string) {
+    const digits = waId.replace(/\D/g, '');
+    const [user] = await prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT "id" FROM "User"
+      WHERE "deletedAt" IS NULL
+        AND regexp_replace("whatsappNumber", '[^0-9]', '', 'g') = ${digits}
+      ORDER BY "createdAt" ASC
+      LIMIT 1
+    `;
+    return user ? this.getUserById(user.id) : null;
+  }
+
   async assignOutlets(userId: string, outletIds: string[]) {
     return prisma.user.update({
       where: { id: userId },
@@ -0,0 +1,67 @@
+import { prisma } from '../database';
+
+export const WEBHOOK_REJECTION_REASONS = [
+  'not_configured',
+  'missing_signature',
+  'invalid_signature',
+  'invalid_verify_token',
+  // event already processed; the rest of the delivery is still handled
+  'duplicate_event'
+] as const;
+export type WebhookRejectionReason = (typeof WEBHOOK_REJECTION_REASONS)[number];
+
+export interface WebhookRejectionRow {
+  provider: string;
+  reason: string;
+  day: Date;
+  count: number;
+  lastAt: Date;
+}
+
+export class WebhookEventRepository {
+  /**
+   * Record an event as processed. False if it was seen before (replay or retry).
+   */
+  async claim(provider: string, eventId: string): Promise<boolean> {
+    const { count } = await prisma.webhookEvent.createMany({
+      data: [{ provider, eventId }],
+      skipDuplicates: true
+    });
+    return count > 0;
+  }
+
+  /**
+   * Forget a claimed event whose processing failed, so the provider's redelivery is handled
+   */
+  async release(provider: string, eventId: string) {
+    return prisma.webhookEvent.deleteMany({ where: { provider, eventId } });
+  }
+
+  async deleteEventsBefore(cutoff: Date) {
+    return prisma.webhookEvent.deleteMany({ where: { receivedAt: { lt: cutoff } } });
+  }
+
+  /**
+   * Bump today's counter for a rejection reason
+   */
+  async recordRejection(provider: string, reason: WebhookRejectionReason) {
+    return prisma.$executeRaw`
+      INSERT INTO "WebhookRejection" ("provider", "reason", "day", "count", "lastAt")
+      VALUES (${provider}, ${reason}, CURRENT_DATE, 1, NOW())
+      ON CONFLICT ("provider", "reason", "day")
+      DO UPDATE SET "count" = "WebhookRejection"."count" + 1, "lastAt" = NOW()
+    `;
+  }
+
+  /**
+   * Daily counters since `from`, newest first
+   */
+  async getRejections(from: Date, provider?: string): Promise<WebhookRejectionRow[]> {
+    return prisma.webhookRejection.findMany({
+      where: { day: { gte: from }, ...(provider ? { provider } : {}) },
+      orderBy: [{ day: 'desc' }, { provider: 'asc' }, { reason: 'asc' }]
+    });
+  }
+}
+
+export const webhookEventRepository = new WebhookEventRepository();
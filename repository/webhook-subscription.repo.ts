@@ -0,0 +1,128 @@
+import { prisma } from '../database';
+import { Prisma, WebhookDeliveryStatus, type WebhookSubscription } from '@prisma/client';
+
+export const OUTBOUND_WEBHOOK_EVENTS = [
+  'review.created',
+  'review.replied',
+  'review.escalated',
+  'subscription.changed'
+] as const;
+export type OutboundWebhookEvent = (typeof OUTBOUND_WEBHOOK_EVENTS)[number];
+
+// sent by the "send test event" route only; not subscribable
+export const OUTBOUND_WEBHOOK_TEST_EVENT = 'webhook.test';
+
+export type WebhookSubscriptionInput = Pick<
+  Prisma.WebhookSubscriptionUncheckedCreateInput,
+  'outletId' | 'url' | 'events' | 'secret' | 'description' | 'isActive' | 'createdById'
+>;
+
+export interface WebhookDeliveryInput {
+  subscriptionId: string;
+  eventId: string;
+  event: string;
+  attempt: number;
+  status: WebhookDeliveryStatus;
+  requestBody: string;
+  responseStatus?: number | null;
+  responseBody?: string | null;
+  error?: string | null;
+  durationMs: number;
+}
+
+export interface WebhookDeliveryFilters {
+  status?: WebhookDeliveryStatus;
+  event?: string;
+  eventId?: string;
+}
+
+// the secret is only returned on create and rotate
+const PUBLIC_SELECT = {
+  id: true,
+  outletId: true,
+  url: true,
+  events: true,
+  description: true,
+  isActive: true,
+  createdById: true,
+  createdAt: true,
+  updatedAt: true
+} satisfies Prisma.WebhookSubscriptionSelect;
+
+export type PublicWebhookSubscription = Prisma.WebhookSubscriptionGetPayload<{ select: typeof PUBLIC_SELECT }>;
+
+export class WebhookSubscriptionRepository {
+  async getById(id: string): Promise<WebhookSubscription | null> {
+    return prisma.webhookSubscription.findUnique({ where: { id } });
+  }
+
+  async getPublicById(id: string): Promise<PublicWebhookSubscription | null> {
+    return prisma.webhookSubscription.findUnique({ where: { id }, select: PUBLIC_SELECT });
+  }
+
+  async list(outletId?: string): Promise<PublicWebhookSubscription[]> {
+    return prisma.webhookSubscription.findMany({
+      where: outletId ? { outletId } : {},
+      select: PUBLIC_SELECT,
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Active subscriptions of an outlet that want `event`
+   */
+  async getActiveForEvent(outletId: string, event: OutboundWebhookEvent): Promise<WebhookSubscription[]> {
+    return prisma.webhookSubscription.findMany({
+      where: { outletId, isActive: true, events: { has: event } }
+    });
+  }
+
+  async create(data: WebhookSubscriptionInput): Promise<WebhookSubscription> {
+    return prisma.webhookSubscription.create({ data });
+  }
+
+  async update(
+    id: string,
+    data: Partial<Pick<WebhookSubscription, 'url' | 'events' | 'description' | 'isActive' | 'secret'>>
+  ): Promise<WebhookSubscription> {
+    return prisma.webhookSubscription.update({ where: { id }, data });
+  }
+
+  async delete(id: string) {
+    return prisma.webhookSubscription.delete({ where: { id } });
+  }
+
+  async recordDelivery(data: WebhookDeliveryInput) {
+    return prisma.webhookDelivery.create({ data });
+  }
+
+  /**
+   * Delivery log of a subscription, newest first
+   */
+  async getDeliveries(subscriptionId: string, filters: WebhookDeliveryFilters = {}, limit = 50, offset = 0) {
+    const where: Prisma.WebhookDeliveryWhereInput = {
+      subscriptionId,
+      ...(filters.status ? { status: filters.status } : {}),
+      ...(filters.event ? { event: filters.event } : {}),
+      ...(filters.eventId ? { eventId: filters.eventId } : {})
+    };
+
+    const [deliveries, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset
+      }),
+      prisma.webhookDelivery.count({ where })
+    ]);
+
+    return { deliveries, total };
+  }
+
+  async deleteDeliveriesBefore(cutoff: Date) {
+    return prisma.webhookDelivery.deleteMany({ where: { createdAt: { lt: cutoff } } });
+  }
+}
+
+export const webhookSubscriptionRepository = new WebhookSubscriptionRepository();
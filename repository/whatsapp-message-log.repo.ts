@@ -0,0 +1,97 @@
+import { prisma } from '../database';
+import { Prisma, WhatsAppMessageLog, WhatsAppMessageStatus } from '@prisma/client';
+
+// delivery statuses only move forward; webhooks can arrive out of order
+const STATUS_RANK: Record<WhatsAppMessageStatus, number> = {
+  SKIPPED: 0,
+  ACCEPTED: 1,
+  SENT: 2,
+  DELIVERED: 3,
+  READ: 4,
+  FAILED: 5
+};
+
+const STATUS_TIMESTAMP = {
+  SENT: 'sentAt',
+  DELIVERED: 'deliveredAt',
+  READ: 'readAt',
+  FAILED: 'failedAt'
+} as const;
+
+export type DeliveryStatus = keyof typeof STATUS_TIMESTAMP;
+
+export interface DeliveryStatusUpdate {
+  status: DeliveryStatus;
+  at: Date;
+  errorCode?: string | null;
+  errorMessage?: string | null;
+}
+
+export class WhatsAppMessageLogRepository {
+  async record(data: Prisma.WhatsAppMessageLogUncheckedCreateInput): Promise<WhatsAppMessageLog> {
+    return prisma.whatsAppMessageLog.create({ data });
+  }
+
+  /**
+   * Message an inbound reply or status update refers to
+   */
+  async getByWaMessageId(waMessageId: string): Promise<WhatsAppMessageLog | null> {
+    return prisma.whatsAppMessageLog.findUnique({ where: { waMessageId } });
+  }
+
+  async getById(id: string) {
+    return prisma.whatsAppMessageLog.findUnique({
+      where: { id },
+      include: { review: { include: { outlet: { select: { id: true, name: true } } } } }
+    });
+  }
+
+  /**
+   * Latest message about a review to one number (rejected sends excluded)
+   */
+  async getLatestForRecipient(reviewId: string, toNumber: string): Promise<WhatsAppMessageLog | null> {
+    return prisma.whatsAppMessageLog.findFirst({
+      where: { reviewId, toNumber, OR: [{ waMessageId: { not: null } }, { status: WhatsAppMessageStatus.SKIPPED }] },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Apply a webhook status: its timestamp is kept even when it arrives late,
+   * the status itself never moves backwards. Null if the message is unknown.
+   * `failedNow` is true the first time the message is reported failed.
+   */
+  async applyStatus(
+    waMessageId: string,
+    update: DeliveryStatusUpdate
+  ): Promise<{ log: WhatsAppMessageLog; failedNow: boolean } | null> {
+    const current = await this.getByWaMessageId(waMessageId);
+    if (!current) return null;
+
+    const column = STATUS_TIMESTAMP[update.status];
+    const advances = STATUS_RANK[update.status] > STATUS_RANK[current.status];
+
+    if (!advances && current[column]) {
+      return { log: current, failedNow: false };
+    }
+
+    const log = await prisma.whatsAppMessageLog.update({
+      where: { id: current.id },
+      data: {
+        ...(current[column] ? {} : { [column]: update.at }),
+        ...(advances ? { status: update.status } : {}),
+        ...(update.status === WhatsAppMessageStatus.FAILED
+          ? { errorCode: update.errorCode ?? null, errorMessage: update.errorMessage ?? null }
+          : {})
+      }
+    });
+
+    return { log, failedNow: advances && update.status === WhatsAppMessageStatus.FAILED };
+  }
+
+  async markEmailFallbackSent(id: string) {
+    return prisma.whatsAppMessageLog.update({ where: { id }, data: { emailFallbackAt: new Date() } });
+  }
+}
+
+export const whatsappMessageLogRepository = new WhatsAppMessageLogRepository();
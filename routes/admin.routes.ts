@@ -3,6 +3,12 @@ import { adminController } from "../controllers/admin.controller"
 import { requireAdmin, requireAuth } from "../middleware/auth.middleware"
 import { validateOnboarding, validateSubscriptionUpdate } from "../middleware/compliance.middleware"
 import { integrationsController } from "../controllers/integrations.controller"
+import { replyTemplatesController } from "../controllers/replyTemplates.controller"
+import { slaController } from "../controllers/sla.controller"
+import { escalationsController } from "../controllers/escalations.controller"
+import { queueAssignmentController } from "../controllers/queueAssignment.controller"
+import { notificationPreferencesController } from "../controllers/notificationPreferences.controller"
+import { requireSuperAdmin } from "../middleware/rbac.middleware"
 
 const router = Router()
 
@@ -28,6 +34,14 @@ router.delete("/users/:userId", (req, res) => adminController.deleteUser(req, re
 // Assign outlets to user
 router.post("/users/:userId/outlets", (req, res) => adminController.assignOutlets(req, res))
 
+// User notification channels (fallback order)
+router.get("/users/:userId/notification-preferences", (req, res) =>
+  notificationPreferencesController.getForUser(req, res),
+)
+router.put("/users/:userId/notification-preferences", (req, res) =>
+  notificationPreferencesController.updateForUser(req, res),
+)
+
 router.post("/outlets", validateOnboarding, (req, res) => adminController.onboardOutlet(req, res))
 
 router.post("/outlets/:outletId/subscription", validateSubscriptionUpdate, (req, res) =>
@@ -38,8 +52,43 @@ router.get("/outlets", (req, res) => adminController.getAllOutlets(req, res))
 
 router.get("/reviews/manual-queue", (req, res) => adminController.getManualReviewQueue(req, res))
 
+// Manual queue assignment: per-admin views, claim/release, reassignment
+router.get("/reviews/manual-queue/mine", (req, res) => queueAssignmentController.mine(req, res))
+router.get("/reviews/manual-queue/workload", (req, res) => queueAssignmentController.workload(req, res))
+router.post("/reviews/manual-queue/reassign", (req, res) => queueAssignmentController.bulkReassign(req, res))
+router.post("/reviews/manual-queue/:queueId/assign", (req, res) => queueAssignmentController.assign(req, res))
+router.post("/reviews/manual-queue/:queueId/claim", (req, res) => queueAssignmentController.claim(req, res))
+router.post("/reviews/manual-queue/:queueId/release", (req, res) => queueAssignmentController.release(req, res))
+
+// Automatic assignment per outlet group ("*" = default)
+router.get("/queue-assignment/groups", (req, res) => queueAssignmentController.listGroups(req, res))
+router.put("/queue-assignment/groups/:groupName", (req, res) => queueAssignmentController.upsertGroup(req, res))
+router.delete("/queue-assignment/groups/:groupName", (req, res) => queueAssignmentController.deleteGroup(req, res))
+
 router.post("/reviews/:reviewId/manual-reply", (req, res) => adminController.submitManualReply(req, res))
 
+// Manual queue SLA: targets per plan, compliance report per outlet/admin, open breaches
+router.get("/sla/targets", (req, res) => slaController.getPlanTargets(req, res))
+router.put("/sla/targets/:plan", requireSuperAdmin, (req, res) => slaController.updatePlanTarget(req, res))
+router.get("/sla/report", (req, res) => slaController.report(req, res))
+router.get("/sla/breaches", (req, res) => slaController.breaches(req, res))
+
+// Escalations inbox (queue items that ran out of reminders)
+router.get("/escalations", (req, res) => escalationsController.list(req, res))
+router.get("/escalations/:id", (req, res) => escalationsController.get(req, res))
+router.post("/escalations/:id/acknowledge", (req, res) => escalationsController.acknowledge(req, res))
+router.post("/escalations/:id/resolve", (req, res) => escalationsController.resolve(req, res))
+router.put("/escalations/:id/owner", (req, res) => escalationsController.assign(req, res))
+
+// Global reply templates (defaults per business category)
+router.get("/reply-templates", (req, res) => replyTemplatesController.list(req, res))
+router.post("/reply-templates", (req, res) => replyTemplatesController.create(req, res))
+router.put("/reply-templates/:templateId", (req, res) => replyTemplatesController.update(req, res))
+router.delete("/reply-templates/:templateId", (req, res) => replyTemplatesController.delete(req, res))
+
+// Rejected webhook deliveries (bad signatures, replays, ...)
+router.get("/webhooks/rejections", (req, res) => integrationsController.getWebhookRejections(req, res))
+
 // Google Business Profile integration
 router.post("/outlets/:outletId/google/connect-link", (req, res) => adminController.generateGoogleConnectLink(req, res))
 router.get("/outlets/:outletId/google/locations", (req, res) => integrationsController.getGMBLocationsForOutlet(req, res))
@@ -27,6 +27,21 @@ router.get('/outlet/:outletId', requireAdmin, (req, res) =>
   billingController.getByOutlet(req, res)
 );
 
+// AI usage (calls, tokens, estimated cost) for an outlet
+router.get('/outlet/:outletId/ai-usage', requireAdmin, (req, res) =>
+  billingController.getAiUsage(req, res)
+);
+
+// current month AI quota status for an outlet
+router.get('/outlet/:outletId/ai-quota', requireAdmin, (req, res) =>
+  billingController.getAiQuota(req, res)
+);
+
+// monthly AI quotas per subscription plan
+router.get('/ai-quotas', requireAdmin, (req, res) =>
+  billingController.getAiPlanQuotas(req, res)
+);
+
 // get billing statistics dashboard
 router.get('/stats/summary', requireAdmin, (req, res) =>
   billingController.stats(req, res)
@@ -49,4 +64,9 @@ router.patch('/outlet/:outletId/status', requireSuperAdmin, (req, res) =>
   billingController.updateStatus(req, res)
 );
 
+// set monthly AI quota for a plan
+router.put('/ai-quotas/:plan', requireSuperAdmin, (req, res) =>
+  billingController.updateAiPlanQuota(req, res)
+);
+
 export default router;
@@ -11,6 +11,10 @@ router.get("/metrics", requireAdmin, (req, res) =>
   dashboardController.getMetrics(req, res)
 );
 
+router.get("/ai-usage", requireAdmin, (req, res) =>
+  dashboardController.getAiUsage(req, res)
+);
+
 router.get("/activities", requireAdmin, (req, res) =>
   dashboardController.getRecentActivities(req, res)
 );
@@ -1,6 +1,7 @@
 import { Router } from "express"
 import { integrationsController } from "../controllers/integrations.controller"
 import { requireAuth } from "../middleware/auth.middleware"
+import { verifyWhatsAppSignature } from "../middleware/webhook-signature.middleware"
 
 const router = Router()
 
@@ -13,10 +14,15 @@ router.get(
 router.get("/google/locations", requireAuth, integrationsController.getGMBLocations.bind(integrationsController))
 
 // WhatsApp
-router.post("/whatsapp/webhook", integrationsController.handleWhatsAppWebhook.bind(integrationsController))
+router.get("/whatsapp/webhook", integrationsController.verifyWhatsAppWebhook.bind(integrationsController))
+router.post(
+  "/whatsapp/webhook",
+  verifyWhatsAppSignature,
+  integrationsController.handleWhatsAppWebhook.bind(integrationsController),
+)
 router.post("/whatsapp/test", requireAuth, integrationsController.sendTestMessage.bind(integrationsController))
 
 // OpenAI
-router.post("/openai/generate-reply", integrationsController.generateAIReply.bind(integrationsController))
+router.post("/openai/generate-reply", requireAuth, integrationsController.generateAIReply.bind(integrationsController))
 
 export default router
@@ -1,5 +1,11 @@
 import { Router } from 'express';
 import { outletsController } from '../controllers/outlets.controller';
+import { automationRulesController } from '../controllers/automationRules.controller';
+import { brandVoiceController } from '../controllers/brandVoice.controller';
+import { replyGuardrailsController } from '../controllers/replyGuardrails.controller';
+import { replyTemplatesController } from '../controllers/replyTemplates.controller';
+import { slaController } from '../controllers/sla.controller';
+import { escalationPolicyController } from '../controllers/escalationPolicy.controller';
 import { requireAuth } from '../middleware/auth.middleware';
 import { requireAdmin, requireSuperAdmin } from '../middleware/rbac.middleware';
 
@@ -26,6 +32,104 @@ router.get('/:id/reviews', requireAdmin, (req, res) =>
   outletsController.getReviews(req, res)
 );
 
+// GMB sync cursor state
+router.get('/:id/sync-state', requireAdmin, (req, res) =>
+  outletsController.getSyncState(req, res)
+);
+
+// reset GMB sync cursor (optionally to body.since)
+router.post('/:id/sync-state/reset', requireAdmin, (req, res) =>
+  outletsController.resetSyncState(req, res)
+);
+
+// automation policy rules (first matching rule by priority wins)
+router.get('/:id/automation-rules', requireAdmin, (req, res) =>
+  automationRulesController.list(req, res)
+);
+
+router.post('/:id/automation-rules', requireAdmin, (req, res) =>
+  automationRulesController.create(req, res)
+);
+
+// dry-run the policy against a sample review
+router.post('/:id/automation-rules/preview', requireAdmin, (req, res) =>
+  automationRulesController.preview(req, res)
+);
+
+router.put('/:id/automation-rules/:ruleId', requireAdmin, (req, res) =>
+  automationRulesController.update(req, res)
+);
+
+router.delete('/:id/automation-rules/:ruleId', requireAdmin, (req, res) =>
+  automationRulesController.delete(req, res)
+);
+
+// brand voice used in AI reply prompts
+router.get('/:id/brand-voice', requireAdmin, (req, res) =>
+  brandVoiceController.get(req, res)
+);
+
+router.put('/:id/brand-voice', requireAdmin, (req, res) =>
+  brandVoiceController.upsert(req, res)
+);
+
+router.delete('/:id/brand-voice', requireAdmin, (req, res) =>
+  brandVoiceController.delete(req, res)
+);
+
+// render a sample reply (optionally with unsaved body.voice)
+router.post('/:id/brand-voice/preview', requireAdmin, (req, res) =>
+  brandVoiceController.preview(req, res)
+);
+
+// checks run on AI replies before posting (rules + recent failures)
+router.get('/:id/reply-guardrails', requireAdmin, (req, res) =>
+  replyGuardrailsController.get(req, res)
+);
+
+router.put('/:id/reply-guardrails', requireAdmin, (req, res) =>
+  replyGuardrailsController.update(req, res)
+);
+
+// reminder ladder: intervals, max reminders, quiet hours, escalation chain
+router.get('/:id/escalation-policy', requireAdmin, (req, res) =>
+  escalationPolicyController.get(req, res)
+);
+
+router.put('/:id/escalation-policy', requireAdmin, (req, res) =>
+  escalationPolicyController.upsert(req, res)
+);
+
+router.delete('/:id/escalation-policy', requireAdmin, (req, res) =>
+  escalationPolicyController.delete(req, res)
+);
+
+// manual queue SLA targets (outlet overrides on top of the plan target)
+router.get('/:id/sla', requireAdmin, (req, res) =>
+  slaController.getOutletTargets(req, res)
+);
+
+router.put('/:id/sla', requireAdmin, (req, res) =>
+  slaController.updateOutletTargets(req, res)
+);
+
+// reply template library (outlet templates + inherited category defaults)
+router.get('/:id/reply-templates', requireAdmin, (req, res) =>
+  replyTemplatesController.list(req, res)
+);
+
+router.post('/:id/reply-templates', requireAdmin, (req, res) =>
+  replyTemplatesController.create(req, res)
+);
+
+router.put('/:id/reply-templates/:templateId', requireAdmin, (req, res) =>
+  replyTemplatesController.update(req, res)
+);
+
+router.delete('/:id/reply-templates/:templateId', requireAdmin, (req, res) =>
+  replyTemplatesController.delete(req, res)
+);
+
 // ------- SUPER ADMIN ONLY -------
 
 // create outlet
@@ -15,6 +15,16 @@ router.get('/', requireAdmin, (req, res) =>
   reviewsController.getAll(req, res)
 );
 
+// review trends (day/week/month buckets) for an outlet, a group or everything
+router.get('/analytics/trends', requireAdmin, (req, res) =>
+  reviewsController.trends(req, res)
+);
+
+// compare the outlets of a group (Outlet.groupName)
+router.get('/analytics/groups/:groupName', requireAdmin, (req, res) =>
+  reviewsController.compareGroup(req, res)
+);
+
 // get review by id
 router.get('/:id', requireAdmin, (req, res) =>
   reviewsController.getById(req, res)
@@ -25,6 +35,11 @@ router.get('/outlet/:outletId', requireAdmin, (req, res) =>
   reviewsController.getByOutlet(req, res)
 );
 
+// review analytics for outlet (ratings, sentiment, urgency, topics)
+router.get('/outlet/:outletId/analytics', requireAdmin, (req, res) =>
+  reviewsController.analytics(req, res)
+);
+
 // update review status
 router.patch('/:id/status', requireAdmin, (req, res) =>
   reviewsController.updateStatus(req, res)
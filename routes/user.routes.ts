@@ -1,5 +1,7 @@
 import { Router } from "express"
 import { userController } from "../controllers/user.controller"
+import { replyTemplatesController } from "../controllers/replyTemplates.controller"
+import { notificationPreferencesController } from "../controllers/notificationPreferences.controller"
 import { requireAuth } from "../middleware/auth.middleware"
 
 const router = Router()
@@ -19,18 +21,54 @@ router.get("/me", (req, res) => userController.getProfile(req, res))
  */
 router.put("/profile", (req, res) => userController.updateProfile(req, res))
 
+/**
+ * GET /api/user/notification-preferences
+ * Channels (in fallback order) for review alerts, reminders and escalations
+ */
+router.get("/notification-preferences", (req, res) => notificationPreferencesController.getMine(req, res))
+
+/**
+ * PUT /api/user/notification-preferences
+ * Set channels, SMS number and webhook URL
+ */
+router.put("/notification-preferences", (req, res) => notificationPreferencesController.updateMine(req, res))
+
 /**
  * GET /api/user/outlets
  * Get all outlets for current user
  */
 router.get("/outlets", (req, res) => userController.getOutlets(req, res))
 
+/**
+ * PUT /api/user/outlets/:id/reply-approval
+ * Configure draft-then-approve mode and auto-approve timeout for an outlet
+ */
+router.put("/outlets/:id/reply-approval", (req, res) => userController.updateReplyApproval(req, res))
+
+/**
+ * GET /api/user/outlets/:id/reply-templates
+ * Reply templates available to an outlet (optionally for a ?rating)
+ */
+router.get("/outlets/:id/reply-templates", (req, res) => replyTemplatesController.listAvailable(req, res))
+
 /**
  * GET /api/user/reviews
  * Get all reviews for user's outlets
  */
 router.get("/reviews", (req, res) => userController.getReviews(req, res))
 
+/**
+ * POST /api/user/reviews/:id/approve
+ * Approve (optionally edit) an AI reply draft before it is posted to Google
+ */
+router.post("/reviews/:id/approve", (req, res) => userController.approveReply(req, res))
+
+/**
+ * POST /api/user/reviews/:id/reject
+ * Reject an AI reply draft and handle the review manually
+ */
+router.post("/reviews/:id/reject", (req, res) => userController.rejectReply(req, res))
+
 /**
  * GET /api/user/stats
  * Get dashboard stats
@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { webhooksController } from '../controllers/webhooks.controller';
+import { requireAuth } from '../middleware/auth.middleware';
+import { requireAdmin } from '../middleware/rbac.middleware';
+
+const router = Router();
+
+// outbound webhook subscriptions (customer integrations), admins only
+router.use(requireAuth);
+router.use(requireAdmin);
+
+// subscribable events and signature scheme
+router.get('/events', (req, res) => webhooksController.listEvents(req, res));
+
+// list subscriptions (optionally ?outletId=)
+router.get('/', (req, res) => webhooksController.list(req, res));
+
+// create subscription (returns the signing secret once)
+router.post('/', (req, res) => webhooksController.create(req, res));
+
+// get subscription
+router.get('/:id', (req, res) => webhooksController.get(req, res));
+
+// update url / events / description / isActive
+router.put('/:id', (req, res) => webhooksController.update(req, res));
+
+// delete subscription and its delivery log
+router.delete('/:id', (req, res) => webhooksController.delete(req, res));
+
+// new signing secret
+router.post('/:id/rotate-secret', (req, res) =>
+  webhooksController.rotateSecret(req, res)
+);
+
+// send a webhook.test event now
+router.post('/:id/test', (req, res) => webhooksController.sendTest(req, res));
+
+// delivery log
+router.get('/:id/deliveries', (req, res) =>
+  webhooksController.listDeliveries(req, res)
+);
+
+export default router;
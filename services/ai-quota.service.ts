@@ -0,0 +1,119 @@
+import type { SubscriptionPlan } from "@prisma/client"
+import env from "../config/env"
+import { prisma } from "../database"
+import { aiQuotaRepository } from "../repository/ai-quota.repo"
+import { aiGenerationLogRepository } from "../repository/ai-generation-log.repo"
+import { emailService } from "./email.service"
+import { logger } from "../utils/logger"
+
+const ALERT_THRESHOLDS = [80, 100]
+
+export interface AiQuota {
+  monthlyCalls: number | null
+  monthlyTokens: number | null
+}
+
+/**
+ * Monthly AI call/token allowance per subscription plan.
+ * Periods are UTC calendar months.
+ */
+class AiQuotaService {
+  async getQuota(plan: SubscriptionPlan): Promise<AiQuota> {
+    const row = await aiQuotaRepository.getPlanQuota(plan)
+    if (row) return { monthlyCalls: row.monthlyCalls, monthlyTokens: row.monthlyTokens }
+
+    return {
+      monthlyCalls: env.AI_DEFAULT_MONTHLY_CALLS,
+      monthlyTokens: env.AI_DEFAULT_MONTHLY_TOKENS,
+    }
+  }
+
+  /**
+   * Quota, usage so far this month and the highest percentage used
+   */
+  async getStatus(outletId: string) {
+    const outlet = await prisma.outlet.findUnique({
+      where: { id: outletId },
+      select: { id: true, subscriptionPlan: true },
+    })
+    if (!outlet) return null
+
+    const periodStart = currentPeriodStart()
+    const [quota, usage] = await Promise.all([
+      this.getQuota(outlet.subscriptionPlan),
+      aiGenerationLogRepository.getBillableUsage(outletId, periodStart),
+    ])
+
+    const percentUsed = Math.max(percent(usage.calls, quota.monthlyCalls), percent(usage.tokens, quota.monthlyTokens))
+
+    return {
+      outletId,
+      plan: outlet.subscriptionPlan,
+      period: periodKey(periodStart),
+      quota,
+      usage,
+      percentUsed,
+      exhausted: percentUsed >= 100,
+    }
+  }
+
+  async isExhausted(outletId: string): Promise<boolean> {
+    const status = await this.getStatus(outletId)
+    return !!status?.exhausted
+  }
+
+  /**
+   * Send the 80% / 100% alert once per outlet per month
+   */
+  async checkThresholds(outletId: string) {
+    const status = await this.getStatus(outletId)
+    if (!status) return
+
+    const crossed = ALERT_THRESHOLDS.filter((t) => status.percentUsed >= t)
+    if (crossed.length === 0) return
+
+    // only the highest newly crossed threshold is worth an email
+    const threshold = crossed[crossed.length - 1]
+    const claimed = await aiQuotaRepository.recordAlert(outletId, status.period, threshold)
+    if (!claimed) return
+
+    for (const lower of crossed.slice(0, -1)) {
+      await aiQuotaRepository.recordAlert(outletId, status.period, lower)
+    }
+
+    logger.warn(`Outlet ${outletId} reached ${threshold}% of its monthly AI quota`, {
+      usage: status.usage,
+      quota: status.quota,
+    })
+
+    const outlet = await prisma.outlet.findUnique({
+      where: { id: outletId },
+      include: { user: { select: { email: true } } },
+    })
+    if (!outlet) return
+
+    const recipients = [...new Set([outlet.user?.email, outlet.contactEmail].filter(Boolean))] as string[]
+    for (const email of recipients) {
+      await emailService.sendAiQuotaAlert(email, outlet.name, threshold, status)
+    }
+  }
+}
+
+/**
+ * Helpers
+ */
+function currentPeriodStart(now = new Date()) {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+}
+
+function periodKey(start: Date) {
+  return start.toISOString().slice(0, 7)
+}
+
+function percent(used: number, limit: number | null) {
+  if (limit == null) return 0
+  if (limit <= 0) return 100
+  return Math.floor((used / limit) * 100)
+}
+
+export const aiQuotaService = new AiQuotaService()
@@ -0,0 +1,126 @@
+import { AutomationAction, Sentiment, type AutomationRule } from "@prisma/client"
+import { automationRuleRepository } from "../repository/automation-rule.repo"
+import { openaiService } from "../integrations/openai"
+import { URGENCY_RANK, type StoredReviewAnalysis } from "./review-analysis.service"
+import { logger } from "../utils/logger"
+
+export interface PolicyReviewInput {
+  rating: number
+  reviewText: string
+  customerName: string
+  // structured analysis from ingestion; analysis conditions never match without it
+  analysis?: Pick<
+    StoredReviewAnalysis,
+    "sentiment" | "sentimentScore" | "topics" | "urgency" | "safetyIssue" | "legalIssue"
+  > | null
+}
+
+export interface PolicyDecision {
+  action: AutomationAction
+  ruleId: string | null
+  ruleName: string | null
+}
+
+/**
+ * Decides per outlet whether a review is auto-replied or goes to the manual queue.
+ */
+class AutomationPolicyService {
+  /**
+   * Fallback when no outlet rule matches (original behaviour)
+   */
+  defaultAction(rating: number): AutomationAction {
+    return rating >= 4 ? AutomationAction.AUTO_REPLY : AutomationAction.MANUAL_REVIEW
+  }
+
+  async evaluate(outletId: string, review: PolicyReviewInput): Promise<PolicyDecision> {
+    const rules = await automationRuleRepository.getEnabledByOutlet(outletId)
+    return this.evaluateRules(rules, review, outletId)
+  }
+
+  /**
+   * First matching rule wins. Sentiment is only analyzed if a rule needs it.
+   */
+  async evaluateRules(
+    rules: AutomationRule[],
+    review: PolicyReviewInput,
+    outletId?: string
+  ): Promise<PolicyDecision> {
+    let sentiment: Sentiment | null | undefined = review.analysis?.sentiment
+
+    for (const rule of rules) {
+      if (!this.matchesStatic(rule, review)) continue
+
+      if (rule.sentiment) {
+        if (sentiment === undefined) {
+          sentiment = await this.analyzeSentiment(review.reviewText, outletId)
+        }
+        if (sentiment !== rule.sentiment) continue
+      }
+
+      return { action: rule.action, ruleId: rule.id, ruleName: rule.name }
+    }
+
+    return { action: this.defaultAction(review.rating), ruleId: null, ruleName: null }
+  }
+
+  /**
+   * All conditions except sentiment (no network needed)
+   */
+  matchesStatic(rule: AutomationRule, review: PolicyReviewInput): boolean {
+    const text = (review.reviewText || "").trim()
+    const lowerText = text.toLowerCase()
+    const lowerName = (review.customerName || "").toLowerCase()
+
+    if (rule.minRating != null && review.rating < rule.minRating) return false
+    if (rule.maxRating != null && review.rating > rule.maxRating) return false
+
+    if (rule.minTextLength != null && text.length < rule.minTextLength) return false
+    if (rule.maxTextLength != null && text.length > rule.maxTextLength) return false
+
+    if (rule.keywords.length > 0) {
+      const hit = rule.keywords.some((k) => k.trim() && lowerText.includes(k.trim().toLowerCase()))
+      if (!hit) return false
+    }
+
+    if (rule.reviewerNames.length > 0) {
+      const hit = rule.reviewerNames.some((n) => n.trim() && lowerName.includes(n.trim().toLowerCase()))
+      if (!hit) return false
+    }
+
+    const analysis = review.analysis
+
+    if (rule.topics.length > 0) {
+      const hit = rule.topics.some((t) => analysis?.topics.includes(t))
+      if (!hit) return false
+    }
+
+    if (rule.minUrgency) {
+      if (!analysis?.urgency || URGENCY_RANK[analysis.urgency] < URGENCY_RANK[rule.minUrgency]) return false
+    }
+
+    if (rule.minSentimentScore != null) {
+      if (analysis?.sentimentScore == null || analysis.sentimentScore < rule.minSentimentScore) return false
+    }
+    if (rule.maxSentimentScore != null) {
+      if (analysis?.sentimentScore == null || analysis.sentimentScore > rule.maxSentimentScore) return false
+    }
+
+    if (rule.safetyOrLegalOnly && !(analysis?.safetyIssue || analysis?.legalIssue)) return false
+
+    return true
+  }
+
+  private async analyzeSentiment(reviewText: string, outletId?: string): Promise<Sentiment | null> {
+    if (!reviewText?.trim()) return Sentiment.NEUTRAL
+
+    const result = await openaiService.analyzeSentiment(reviewText, { outletId })
+    if (!result) {
+      logger.warn("Sentiment unavailable, sentiment rules will not match")
+      return null
+    }
+
+    return result.toUpperCase() as Sentiment
+  }
+}
+
+export const automationPolicyService = new AutomationPolicyService()
@@ -76,6 +76,178 @@ class EmailService {
       return false
     }
   }
+
+  /**
+   * Alert an outlet that it used 80% / 100% of its monthly AI quota
+   */
+  async sendAiQuotaAlert(
+    email: string,
+    outletName: string,
+    threshold: number,
+    status: {
+      period: string
+      usage: { calls: number; tokens: number }
+      quota: { monthlyCalls: number | null; monthlyTokens: number | null }
+    },
+  ) {
+    if (!this.transporter) {
+      logger.warn("[v0] Email transporter not initialized. Skipping AI quota alert.")
+      return false
+    }
+
+    const exhausted = threshold >= 100
+    const limit = (value: number | null) => (value == null ? "unlimited" : value.toLocaleString())
+
+    const mailOptions = {
+      from: `"${env.SMTP_FROM_NAME}" <${env.SMTP_FROM_EMAIL}>`,
+      to: email,
+      subject: exhausted
+        ? `${outletName}: monthly AI reply quota reached`
+        : `${outletName}: ${threshold}% of monthly AI reply quota used`,
+      html: `
+        <div style="font-family: sans-serif; padding: 20px;">
+          <h2>AI usage for ${outletName} (${status.period})</h2>
+          <p>You have used <strong>${threshold}%</strong> of this month's AI allowance.</p>
+          <div style="background: #f4f4f4; padding: 15px; border-radius: 5px; margin: 20px 0;">
+            <strong>AI calls:</strong> ${status.usage.calls.toLocaleString()} / ${limit(status.quota.monthlyCalls)}<br/>
+            <strong>Tokens:</strong> ${status.usage.tokens.toLocaleString()} / ${limit(status.quota.monthlyTokens)}
+          </div>
+          <p>${
+            exhausted
+              ? "Until the quota resets next month, replies use standard templates and AI suggestions are paused."
+              : "When the quota is reached, replies will fall back to standard templates until next month."
+          }</p>
+          <hr/>
+          <p style="font-size: 12px; color: #666;">This is an automated message. Please do not reply.</p>
+        </div>
+      `,
+    }
+
+    try {
+      await this.transporter.sendMail(mailOptions)
+      logger.info(`[v0] AI quota alert (${threshold}%) sent to ${email}`)
+      return true
+    } catch (error) {
+      logger.error(`[v0] Failed to send AI quota alert to ${email}`, error)
+      return false
+    }
+  }
+
+  /**
+   * Low rating alert / reminder / escalation as an email (notification EMAIL channel)
+   */
+  async sendReviewNotificationEmail(
+    email: string,
+    name: string | null,
+    notification: {
+      kind: "low_rating_alert" | "reminder" | "escalation"
+      outletName: string
+      rating: number
+      customerName: string
+      reviewText: string
+      suggestedReply?: string | null
+      reminderNumber?: number
+      hoursPending?: number
+    },
+  ) {
+    if (!this.transporter) {
+      logger.warn("[v0] Email transporter not initialized. Skipping review notification email.")
+      return false
+    }
+
+    const esc = (value: string) =>
+      value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+    const { kind, outletName, rating } = notification
+    const subject = {
+      low_rating_alert: `${outletName}: new ${rating}-star Google review`,
+      reminder: `Reminder #${notification.reminderNumber ?? 1}: ${outletName} review reply pending`,
+      escalation: `Escalated: ${outletName} review unanswered for ${notification.hoursPending ?? 0} hours`,
+    }[kind]
+
+    const mailOptions = {
+      from: `"${env.SMTP_FROM_NAME}" <${env.SMTP_FROM_EMAIL}>`,
+      to: email,
+      subject,
+      html: `
+        <div style="font-family: sans-serif; padding: 20px;">
+          <h2>Hello ${name || "there"},</h2>
+          <p>${esc(subject)}</p>
+          <div style="background: #f4f4f4; padding: 15px; border-radius: 5px; margin: 20px 0;">
+            <strong>Outlet:</strong> ${esc(outletName)}<br/>
+            <strong>Rating:</strong> ${rating} / 5<br/>
+            <strong>Customer:</strong> ${esc(notification.customerName)}<br/>
+            <strong>Review:</strong> ${esc(notification.reviewText || "(no message)")}
+          </div>
+          ${
+            notification.suggestedReply
+              ? `<p><strong>Suggested reply:</strong><br/>${esc(notification.suggestedReply)}</p>`
+              : ""
+          }
+          <p>Please reply from <a href="${env.USER_APP_URL}">${env.USER_APP_URL}</a>.</p>
+          <hr/>
+          <p style="font-size: 12px; color: #666;">This is an automated message. Please do not reply.</p>
+        </div>
+      `,
+    }
+
+    try {
+      await this.transporter.sendMail(mailOptions)
+      logger.info(`[v0] Review notification (${kind}) sent to ${email}`)
+      return true
+    } catch (error) {
+      logger.error(`[v0] Failed to send review notification to ${email}`, error)
+      return false
+    }
+  }
+
+  /**
+   * A WhatsApp alert/reminder about a review could not be delivered; same facts by email
+   */
+  async sendReviewAttentionEmail(
+    email: string,
+    name: string | null,
+    review: { outletName: string; rating: number; customerName: string; reviewText: string },
+  ) {
+    if (!this.transporter) {
+      logger.warn("[v0] Email transporter not initialized. Skipping review attention email.")
+      return false
+    }
+
+    // review text and customer name come from Google
+    const esc = (value: string) =>
+      value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+    const mailOptions = {
+      from: `"${env.SMTP_FROM_NAME}" <${env.SMTP_FROM_EMAIL}>`,
+      to: email,
+      subject: `${review.outletName}: ${review.rating}-star review from ${review.customerName} needs a reply`,
+      html: `
+        <div style="font-family: sans-serif; padding: 20px;">
+          <h2>Hello ${name || "there"},</h2>
+          <p>We could not reach you on WhatsApp about this Google review, which is still waiting for a reply.</p>
+          <div style="background: #f4f4f4; padding: 15px; border-radius: 5px; margin: 20px 0;">
+            <strong>Outlet:</strong> ${review.outletName}<br/>
+            <strong>Rating:</strong> ${review.rating} / 5<br/>
+            <strong>Customer:</strong> ${esc(review.customerName)}<br/>
+            <strong>Review:</strong> ${esc(review.reviewText || "(no message)")}
+          </div>
+          <p>Please reply from <a href="${env.USER_APP_URL}">${env.USER_APP_URL}</a>.</p>
+          <hr/>
+          <p style="font-size: 12px; color: #666;">This is an automated message. Please do not reply.</p>
+        </div>
+      `,
+    }
+
+    try {
+      await this.transporter.sendMail(mailOptions)
+      logger.info(`[v0] Review attention email sent to ${email}`)
+      return true
+    } catch (error) {
+      logger.error(`[v0] Failed to send review attention email to ${email}`, error)
+      return false
+    }
+  }
 }
 
 export const emailService = new EmailService()
@@ -0,0 +1,106 @@
+import { EscalationTarget } from "@prisma/client"
+import {
+  escalationPolicyRepository,
+  type ResolvedEscalationPolicy,
+} from "../repository/escalation-policy.repo"
+import type { ReminderStep } from "../repository/manual-review-queue.repo"
+import { usersRepository } from "../repository/users.repo"
+import type { NotificationRecipient } from "./notification.service"
+
+type Contact = NotificationRecipient
+
+/**
+ * What the ladder needs from a queue item (shape of getPendingReminders)
+ */
+export interface LadderItem {
+  reminderCount: number
+  escalationLevel: number
+  assignedAdmin: Contact | null
+  review: { outlet: { user: Contact | null } }
+}
+
+/**
+ * Reminder ladder for the manual queue: intervals, quiet hours and the
+ * escalation chain (owner only by default; outlets can add the assigned admin and super admin).
+ */
+class EscalationPolicyService {
+  /**
+   * Ladder position after a reminder went to the target at `item.escalationLevel`
+   */
+  advance(
+    item: Pick<LadderItem, "reminderCount" | "escalationLevel">,
+    policy: ResolvedEscalationPolicy,
+    now: Date = new Date()
+  ): ReminderStep {
+    const sent = item.reminderCount + 1
+
+    if (sent < policy.maxReminders) {
+      return {
+        reminderCount: sent,
+        escalationLevel: item.escalationLevel,
+        nextReminderAt: escalationPolicyRepository.reminderAt(policy, sent, now),
+        escalated: false,
+      }
+    }
+
+    // last reminder at this level went out; the next target gets one after the usual gap
+    if (item.escalationLevel + 1 < policy.chain.length) {
+      return {
+        reminderCount: 0,
+        escalationLevel: item.escalationLevel + 1,
+        nextReminderAt: escalationPolicyRepository.reminderAt(policy, sent, now),
+        escalated: false,
+      }
+    }
+
+    return {
+      reminderCount: sent,
+      escalationLevel: item.escalationLevel,
+      nextReminderAt: null,
+      escalated: true,
+    }
+  }
+
+  /**
+   * First level at or after the item's current one with someone on it (they are
+   * reached on their own notification channels); null when the rest of the chain is empty
+   */
+  async findRecipients(item: LadderItem, policy: ResolvedEscalationPolicy) {
+    for (let level = item.escalationLevel; level < policy.chain.length; level++) {
+      const target = policy.chain[level]
+      const recipients = await this.contactsFor(target, item)
+
+      if (recipients.length) return { level, target, recipients }
+    }
+
+    return null
+  }
+
+  /**
+   * Everyone on the chain, one entry per user
+   */
+  async chainRecipients(item: LadderItem, policy: ResolvedEscalationPolicy): Promise<Contact[]> {
+    const byId = new Map<string, Contact>()
+
+    for (const target of policy.chain) {
+      for (const contact of await this.contactsFor(target, item)) {
+        if (!byId.has(contact.id)) byId.set(contact.id, contact)
+      }
+    }
+
+    return [...byId.values()]
+  }
+
+  private async contactsFor(target: EscalationTarget, item: LadderItem): Promise<Contact[]> {
+    switch (target) {
+      case EscalationTarget.OWNER:
+        return item.review.outlet.user ? [item.review.outlet.user] : []
+      case EscalationTarget.ASSIGNED_ADMIN:
+        return item.assignedAdmin ? [item.assignedAdmin] : []
+      case EscalationTarget.SUPER_ADMIN:
+        return usersRepository.getSuperAdminContacts()
+    }
+  }
+}
+
+export const escalationPolicyService = new EscalationPolicyService()
@@ -0,0 +1,122 @@
+import { ReviewStatus, type ManualReviewQueue } from "@prisma/client"
+import env from "../config/env"
+import { escalationRepository } from "../repository/escalation.repo"
+import { escalationPolicyRepository } from "../repository/escalation-policy.repo"
+import { jobQueueRepository, JobType, type JobDeferral } from "../repository/job-queue.repo"
+import { escalationPolicyService } from "./escalation-policy.service"
+import { notificationService } from "./notification.service"
+import { outboundWebhookService } from "./outbound-webhook.service"
+import { deferPastQuietHours, isQuietTime } from "../utils/quiet-hours"
+import { logger } from "../utils/logger"
+
+export const ESCALATION_REASONS = ["max_reminders", "no_recipient"] as const
+export type EscalationReason = (typeof ESCALATION_REASONS)[number]
+
+/**
+ * What happens once a manual queue item is ESCALATED: an escalation record
+ * with an owner and due date, and a notice to everyone on the outlet's chain.
+ */
+class EscalationService {
+  /**
+   * Open an escalation for the item (idempotent while one is active) and queue the notice
+   */
+  async open(
+    item: Pick<ManualReviewQueue, "reviewId" | "outletId" | "assignedAdminId">,
+    reason: EscalationReason
+  ) {
+    const active = await escalationRepository.getActiveForReview(item.reviewId)
+    if (active) return active
+
+    const escalation = await escalationRepository.create({
+      reviewId: item.reviewId,
+      outletId: item.outletId,
+      ownerId: item.assignedAdminId,
+      reason,
+      dueAt: new Date(Date.now() + env.ESCALATION_DUE_HOURS * 60 * 60 * 1000),
+    })
+
+    await jobQueueRepository.enqueue({
+      type: JobType.SEND_ESCALATION_NOTICE,
+      outletId: item.outletId,
+      payload: { escalationId: escalation.id },
+      dedupeKey: `escalation-notice:${escalation.id}`,
+    })
+
+    await outboundWebhookService.reviewEscalated(item.reviewId, {
+      id: escalation.id,
+      reason,
+      dueAt: escalation.dueAt,
+      ownerId: escalation.ownerId,
+    })
+
+    logger.info(`Escalation ${escalation.id} opened for review ${item.reviewId} (${reason})`)
+    return escalation
+  }
+
+  /**
+   * Escalation notice to the owner plus everyone on the chain, each on their own channels.
+   * Held back (deferred) during the outlet's quiet hours.
+   */
+  async notify(escalationId: string): Promise<void | JobDeferral> {
+    const escalation = await escalationRepository.getForNotification(escalationId)
+    if (!escalation) {
+      logger.warn(`Escalation ${escalationId} no longer exists`)
+      return
+    }
+
+    if (escalation.status === "RESOLVED" || escalation.notifiedAt) {
+      logger.debug(`Escalation ${escalationId} already ${escalation.notifiedAt ? "notified" : "resolved"}`)
+      return
+    }
+
+    const { review } = escalation
+    // answered between opening and this job; nothing left to chase
+    if (review.status === ReviewStatus.CLOSED) {
+      logger.debug(`Review ${review.id} already closed, escalation ${escalationId} not sent`)
+      return
+    }
+
+    const policy = await escalationPolicyRepository.resolve(escalation.outletId)
+    if (isQuietTime(new Date(), policy.quietHours)) {
+      logger.debug(`Escalation ${escalationId} notice deferred until after quiet hours`)
+      return { deferUntil: deferPastQuietHours(new Date(), policy.quietHours) }
+    }
+
+    const recipients = await escalationPolicyService.chainRecipients(
+      { reminderCount: 0, escalationLevel: 0, assignedAdmin: review.manualQueue?.assignedAdmin ?? null, review },
+      policy
+    )
+
+    const owner = escalation.owner
+    if (owner && !recipients.some((r) => r.id === owner.id)) {
+      recipients.unshift(owner)
+    }
+
+    if (!recipients.length) {
+      logger.warn(`No recipient for escalation ${escalationId}`)
+    }
+
+    const pendingSince = review.manualQueue?.queuedAt ?? review.createdAt
+    const hoursPending = Math.max(1, Math.round((Date.now() - pendingSince.getTime()) / (60 * 60 * 1000)))
+
+    let failed = 0
+    for (const recipient of recipients) {
+      const outcome = await notificationService.notify(recipient, {
+        kind: "escalation",
+        review,
+        outletName: review.outlet.name,
+        hoursPending,
+      })
+      if (!outcome.delivered && outcome.failed) failed++
+    }
+
+    // retry the job only if nobody got it
+    if (recipients.length && failed === recipients.length) {
+      throw new Error(`Escalation notice failed for ${escalationId}`)
+    }
+
+    await escalationRepository.markNotified(escalationId)
+  }
+}
+
+export const escalationService = new EscalationService()
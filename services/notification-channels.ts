@@ -0,0 +1,256 @@
+import axios from "axios"
+import { NotificationChannel } from "@prisma/client"
+import env from "../config/env"
+import type { ResolvedNotificationPreference } from "../repository/notification-preference.repo"
+import {
+  whatsappService,
+  WA_BUTTON_APPROVE_REPLY,
+  WA_TPL_LOW_RATING,
+  WA_TPL_REMINDER,
+} from "../integrations/whatsapp"
+import { createSmsProvider, type SmsProvider } from "../integrations/sms"
+import { emailService } from "./email.service"
+import {
+  outboundWebhookService,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from "./outbound-webhook.service"
+import { whatsappDeliveryService } from "./whatsapp-delivery.service"
+import { toWhatsAppLanguage } from "../utils/language"
+import { publicPostOptions, PRIVATE_ADDRESS_ERROR } from "../utils/url-guard"
+import { logger } from "../utils/logger"
+
+export type NotificationKind = "low_rating_alert" | "reminder" | "escalation"
+
+export interface NotificationRecipient {
+  id: string
+  name: string
+  email: string
+  whatsappNumber: string | null
+  phoneNumber: string | null
+}
+
+/**
+ * Something about a review someone has to act on
+ */
+export interface ReviewNotification {
+  kind: NotificationKind
+  review: {
+    id: string
+    outletId: string
+    rating: number
+    customerName: string
+    reviewText: string
+    language: string | null
+  }
+  outletName: string
+  // low_rating_alert
+  suggestedReply?: string | null
+  // reminder
+  reminderNumber?: number
+  // escalation
+  hoursPending?: number
+}
+
+export interface ChannelResult {
+  ok: boolean
+  // channel can't be used for this recipient (no address, not configured)
+  skipped?: boolean
+  // nothing sent on purpose (read receipt); counts as handled, no fallback
+  held?: boolean
+}
+
+export interface NotificationChannelAdapter {
+  readonly channel: NotificationChannel
+  send(
+    recipient: NotificationRecipient,
+    notification: ReviewNotification,
+    pref: ResolvedNotificationPreference
+  ): Promise<ChannelResult>
+}
+
+/**
+ * Template messages (see the template list in integrations/whatsapp.ts)
+ */
+export class WhatsAppChannel implements NotificationChannelAdapter {
+  readonly channel = NotificationChannel.WHATSAPP
+
+  async send(recipient: NotificationRecipient, notification: ReviewNotification): Promise<ChannelResult> {
+    const to = recipient.whatsappNumber
+    if (!to) return { ok: false, skipped: true }
+
+    const { review, outletName } = notification
+    const language = toWhatsAppLanguage(review.language)
+    // replies to these messages are matched back to the review through the message log
+    const context = { reviewId: review.id, outletId: review.outletId }
+
+    let result
+    switch (notification.kind) {
+      case "low_rating_alert":
+        result = await whatsappService.sendTemplate(
+          to,
+          WA_TPL_LOW_RATING,
+          language,
+          [
+            outletName,
+            `${review.rating}⭐`,
+            review.customerName,
+            review.reviewText?.slice(0, 250) || "(no message)",
+            (notification.suggestedReply || "").slice(0, 300),
+          ],
+          {
+            quickReplies: [WA_BUTTON_APPROVE_REPLY],
+            context: { ...context, suggestedReply: notification.suggestedReply || null },
+          }
+        )
+        break
+
+      case "reminder":
+        if (await whatsappDeliveryService.shouldSkipReminder(review.id, to)) {
+          await whatsappDeliveryService.recordSkippedReminder(to, WA_TPL_REMINDER, { ...context, language })
+          logger.debug(`Reminder for review ${review.id} skipped, previous message was read`)
+          return { ok: true, held: true }
+        }
+
+        result = await whatsappService.sendTemplate(
+          to,
+          WA_TPL_REMINDER,
+          language,
+          [outletName, `${review.rating}⭐`, review.customerName, String(notification.reminderNumber ?? 1)],
+          { context }
+        )
+        break
+
+      case "escalation":
+        result = await whatsappService.sendEscalationNotice(
+          to,
+          outletName,
+          review.customerName,
+          review.rating,
+          notification.hoursPending ?? 0,
+          context
+        )
+        break
+    }
+
+    return { ok: result.ok, skipped: result.skipped }
+  }
+}
+
+export class EmailChannel implements NotificationChannelAdapter {
+  readonly channel = NotificationChannel.EMAIL
+
+  async send(recipient: NotificationRecipient, notification: ReviewNotification): Promise<ChannelResult> {
+    if (!recipient.email) return { ok: false, skipped: true }
+
+    const ok = await emailService.sendReviewNotificationEmail(recipient.email, recipient.name, {
+      kind: notification.kind,
+      outletName: notification.outletName,
+      rating: notification.review.rating,
+      customerName: notification.review.customerName,
+      reviewText: notification.review.reviewText,
+      suggestedReply: notification.suggestedReply,
+      reminderNumber: notification.reminderNumber,
+      hoursPending: notification.hoursPending,
+    })
+
+    return { ok }
+  }
+}
+
+/**
+ * Short text through SMS_PROVIDER, to smsNumber, else phoneNumber, else whatsappNumber
+ */
+export class SmsChannel implements NotificationChannelAdapter {
+  readonly channel = NotificationChannel.SMS
+
+  constructor(private provider: SmsProvider | null = createSmsProvider()) {}
+
+  async send(
+    recipient: NotificationRecipient,
+    notification: ReviewNotification,
+    pref: ResolvedNotificationPreference
+  ): Promise<ChannelResult> {
+    const to = pref.smsNumber || recipient.phoneNumber || recipient.whatsappNumber
+    if (!this.provider?.isConfigured() || !to) return { ok: false, skipped: true }
+
+    const result = await this.provider.send(to, smsText(notification))
+    return { ok: result.ok, skipped: result.skipped }
+  }
+}
+
+/**
+ * JSON POST to the recipient's webhookUrl; any 2xx counts as delivered
+ */
+export class WebhookChannel implements NotificationChannelAdapter {
+  readonly channel = NotificationChannel.WEBHOOK
+
+  async send(
+    recipient: NotificationRecipient,
+    notification: ReviewNotification,
+    pref: ResolvedNotificationPreference
+  ): Promise<ChannelResult> {
+    if (!pref.webhookUrl) return { ok: false, skipped: true }
+
+    // URLs saved before payloads were signed: the user has to save their preferences again
+    if (!pref.webhookSecret) {
+      logger.warn(`Notification webhook for user ${recipient.id} has no signing secret, skipped`)
+      return { ok: false, skipped: true }
+    }
+
+    const body = JSON.stringify({
+      event: `review.${notification.kind}`,
+      recipient: { id: recipient.id, name: recipient.name },
+      outlet: { id: notification.review.outletId, name: notification.outletName },
+      review: notification.review,
+      suggestedReply: notification.suggestedReply ?? null,
+      reminderNumber: notification.reminderNumber ?? null,
+      hoursPending: notification.hoursPending ?? null,
+      text: smsText(notification),
+      sentAt: new Date().toISOString(),
+    })
+    const timestamp = Math.floor(Date.now() / 1000)
+
+    try {
+      await axios.post(pref.webhookUrl, body, {
+        headers: {
+          "Content-Type": "application/json",
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: `sha256=${outboundWebhookService.sign(pref.webhookSecret, timestamp, body)}`,
+        },
+        timeout: env.NOTIFICATION_WEBHOOK_TIMEOUT_MS,
+        ...(await publicPostOptions(pref.webhookUrl)),
+      })
+      return { ok: true }
+    } catch (error: any) {
+      // not a delivery failure: this target can't be used at all
+      if (error?.code === PRIVATE_ADDRESS_ERROR) {
+        logger.warn(`Notification webhook for user ${recipient.id} refused: ${error.message}`)
+        return { ok: false, skipped: true }
+      }
+
+      logger.warn(`Notification webhook for user ${recipient.id} failed`, {
+        status: error?.response?.status,
+        message: error?.message,
+      })
+      return { ok: false }
+    }
+  }
+}
+
+/**
+ * One-line summary (SMS body, webhook `text`)
+ */
+function smsText(notification: ReviewNotification): string {
+  const { review, outletName } = notification
+  const about = `${review.rating}-star review from ${review.customerName} at ${outletName}`
+
+  switch (notification.kind) {
+    case "low_rating_alert":
+      return `Freddie: new ${about}. Reply at ${env.USER_APP_URL}`
+    case "reminder":
+      return `Freddie reminder #${notification.reminderNumber ?? 1}: ${about} still needs a reply. ${env.USER_APP_URL}`
+    case "escalation":
+      return `Freddie: escalated, ${about} unanswered for ${notification.hoursPending ?? 0}h. ${env.USER_APP_URL}`
+  }
+}
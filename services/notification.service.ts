@@ -0,0 +1,67 @@
+import { NotificationChannel } from "@prisma/client"
+import { notificationPreferenceRepository } from "../repository/notification-preference.repo"
+import {
+  EmailChannel,
+  SmsChannel,
+  WebhookChannel,
+  WhatsAppChannel,
+  type ChannelResult,
+  type NotificationChannelAdapter,
+  type NotificationRecipient,
+  type ReviewNotification,
+} from "./notification-channels"
+import { logger } from "../utils/logger"
+
+export type { NotificationKind, NotificationRecipient, ReviewNotification } from "./notification-channels"
+
+export interface NotificationOutcome {
+  // channel that took it; null if none did
+  delivered: NotificationChannel | null
+  attempts: Array<ChannelResult & { channel: NotificationChannel }>
+  // at least one channel was tried and failed (as opposed to all being unusable)
+  failed: boolean
+}
+
+/**
+ * Review alerts, reminders and escalation notices on each recipient's channels,
+ * in their fallback order: the next channel is tried only if the previous one
+ * could not be used or failed.
+ */
+class NotificationService {
+  private adapters: Record<NotificationChannel, NotificationChannelAdapter> = {
+    WHATSAPP: new WhatsAppChannel(),
+    EMAIL: new EmailChannel(),
+    SMS: new SmsChannel(),
+    WEBHOOK: new WebhookChannel(),
+  }
+
+  async notify(recipient: NotificationRecipient, notification: ReviewNotification): Promise<NotificationOutcome> {
+    const pref = await notificationPreferenceRepository.resolve(recipient.id)
+    const attempts: NotificationOutcome["attempts"] = []
+
+    for (const channel of pref.channels) {
+      let result: ChannelResult
+      try {
+        result = await this.adapters[channel].send(recipient, notification, pref)
+      } catch (error) {
+        logger.error(`${channel} notification to user ${recipient.id} failed`, error)
+        result = { ok: false }
+      }
+
+      attempts.push({ channel, ...result })
+      if (result.ok) {
+        return { delivered: channel, attempts, failed: attempts.some((a) => !a.ok && !a.skipped) }
+      }
+    }
+
+    const failed = attempts.some((a) => !a.ok && !a.skipped)
+    logger.warn(
+      `No channel delivered ${notification.kind} for review ${notification.review.id} to user ${recipient.id}`,
+      { attempts }
+    )
+
+    return { delivered: null, attempts, failed }
+  }
+}
+
+export const notificationService = new NotificationService()
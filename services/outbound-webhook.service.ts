@@ -0,0 +1,256 @@
+import crypto from "crypto"
+import axios from "axios"
+import { Prisma, WebhookDeliveryStatus, type Job, type Review, type WebhookSubscription } from "@prisma/client"
+import env from "../config/env"
+import {
+  webhookSubscriptionRepository,
+  OUTBOUND_WEBHOOK_TEST_EVENT,
+  type OutboundWebhookEvent,
+} from "../repository/webhook-subscription.repo"
+import { reviewsRepository } from "../repository/reviews.repo"
+import { jobQueueRepository, JobType } from "../repository/job-queue.repo"
+import { publicPostOptions } from "../utils/url-guard"
+import { logger } from "../utils/logger"
+
+// enough of the response to debug a failing endpoint
+const RESPONSE_BODY_MAX = 2000
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Freddie-Signature"
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Freddie-Timestamp"
+
+/**
+ * What every delivery carries; `id` stays the same across retries
+ */
+export type WebhookEnvelope = {
+  id: string
+  event: string
+  createdAt: string
+  outletId: string
+  data: Prisma.InputJsonObject
+}
+
+interface DeliverWebhookJob {
+  subscriptionId: string
+  envelope: WebhookEnvelope
+}
+
+export type ReplySource = "ai" | "manual" | "admin" | "whatsapp" | "google"
+
+type WebhookReview = Pick<
+  Review,
+  "id" | "outletId" | "googleReviewId" | "rating" | "customerName" | "reviewText" | "language" | "status" | "createdAt"
+>
+
+function toReviewPayload(review: WebhookReview) {
+  return {
+    id: review.id,
+    outletId: review.outletId,
+    googleReviewId: review.googleReviewId,
+    rating: review.rating,
+    customerName: review.customerName,
+    reviewText: review.reviewText,
+    language: review.language,
+    status: review.status,
+    createdAt: review.createdAt.toISOString(),
+  }
+}
+
+/**
+ * Events for customer integrations: every active subscription of the outlet
+ * that wants an event gets a signed POST, retried through the job queue with
+ * its exponential backoff. Each attempt is kept in the delivery log.
+ */
+class OutboundWebhookService {
+  newSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString("hex")}`
+  }
+
+  /**
+   * Hex HMAC-SHA256 of `${timestamp}.${body}`; receivers should also reject old timestamps
+   */
+  sign(secret: string, timestamp: number, body: string): string {
+    return crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")
+  }
+
+  async reviewCreated(review: WebhookReview) {
+    await this.emit(review.outletId, "review.created", { review: toReviewPayload(review) })
+  }
+
+  async reviewReplied(reviewId: string, reply: { text: string; source: ReplySource }) {
+    const review = await this.loadReview(reviewId)
+    if (!review) return
+
+    await this.emit(review.outletId, "review.replied", {
+      review: toReviewPayload(review),
+      reply: { text: reply.text, source: reply.source, repliedAt: (review.repliedAt ?? new Date()).toISOString() },
+    })
+  }
+
+  async reviewEscalated(
+    reviewId: string,
+    escalation: { id: string; reason: string; dueAt: Date; ownerId: string | null }
+  ) {
+    const review = await this.loadReview(reviewId)
+    if (!review) return
+
+    await this.emit(review.outletId, "review.escalated", {
+      review: toReviewPayload(review),
+      escalation: { ...escalation, dueAt: escalation.dueAt.toISOString() },
+    })
+  }
+
+  /**
+   * Outlet subscription or billing status changed (only the fields that changed are set)
+   */
+  async subscriptionChanged(
+    outletId: string,
+    change: {
+      subscriptionStatus?: string | null
+      billingStatus?: string | null
+      apiStatus?: string | null
+      paidUntil?: Date | null
+      source: string
+    }
+  ) {
+    const { paidUntil, ...rest } = change
+    await this.emit(outletId, "subscription.changed", {
+      ...rest,
+      ...(paidUntil ? { paidUntil: paidUntil.toISOString() } : {}),
+    })
+  }
+
+  /**
+   * Queue one delivery per matching subscription. Never throws: callers are
+   * in the middle of their own work and a webhook must not break it.
+   */
+  async emit(outletId: string, event: OutboundWebhookEvent, data: Prisma.InputJsonObject) {
+    try {
+      const subscriptions = await webhookSubscriptionRepository.getActiveForEvent(outletId, event)
+      if (!subscriptions.length) return
+
+      const envelope: WebhookEnvelope = {
+        id: crypto.randomUUID(),
+        event,
+        createdAt: new Date().toISOString(),
+        outletId,
+        data,
+      }
+
+      for (const subscription of subscriptions) {
+        await jobQueueRepository.enqueue({
+          type: JobType.DELIVER_WEBHOOK,
+          // no outletId: a slow customer endpoint must not hold up the outlet's review jobs
+          payload: { subscriptionId: subscription.id, envelope },
+          maxAttempts: env.OUTBOUND_WEBHOOK_MAX_ATTEMPTS,
+          dedupeKey: `webhook:${subscription.id}:${envelope.id}`,
+        })
+      }
+    } catch (err) {
+      logger.error(`Failed to queue ${event} webhooks for outlet ${outletId}`, err)
+    }
+  }
+
+  /**
+   * DELIVER_WEBHOOK job; throws on failure so the job is retried
+   */
+  async deliver(job: Job) {
+    const { subscriptionId, envelope } = job.payload as unknown as DeliverWebhookJob
+
+    const subscription = await webhookSubscriptionRepository.getById(subscriptionId)
+    if (!subscription || !subscription.isActive) {
+      logger.debug(`Webhook subscription ${subscriptionId} removed or disabled, ${envelope.event} dropped`)
+      return
+    }
+
+    const delivery = await this.send(subscription, envelope, job.attempts)
+    if (delivery.status === WebhookDeliveryStatus.FAILED) {
+      throw new Error(
+        `Webhook ${envelope.event} to subscription ${subscriptionId} failed (${delivery.responseStatus ?? delivery.error})`
+      )
+    }
+  }
+
+  /**
+   * One-off `webhook.test` delivery, not retried; returns the logged attempt
+   */
+  async sendTest(subscription: WebhookSubscription) {
+    return this.send(
+      subscription,
+      {
+        id: crypto.randomUUID(),
+        event: OUTBOUND_WEBHOOK_TEST_EVENT,
+        createdAt: new Date().toISOString(),
+        outletId: subscription.outletId,
+        data: { subscriptionId: subscription.id, message: "Test event from Freddie" },
+      },
+      1
+    )
+  }
+
+  private async send(subscription: WebhookSubscription, envelope: WebhookEnvelope, attempt: number) {
+    const body = JSON.stringify(envelope)
+    const timestamp = Math.floor(Date.now() / 1000)
+    const started = Date.now()
+
+    let responseStatus: number | null = null
+    let responseBody: string | null = null
+    let error: string | null = null
+
+    try {
+      const res = await axios.post(subscription.url, body, {
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "Freddie-Webhooks/1.0",
+          "X-Freddie-Event": envelope.event,
+          "X-Freddie-Delivery": envelope.id,
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: `sha256=${this.sign(subscription.secret, timestamp, body)}`,
+        },
+        timeout: env.OUTBOUND_WEBHOOK_TIMEOUT_MS,
+        ...(await publicPostOptions(subscription.url)),
+        // every status is logged; only 2xx counts as delivered
+        validateStatus: () => true,
+        responseType: "text",
+        transformResponse: (data) => data,
+      })
+
+      responseStatus = res.status
+      responseBody = typeof res.data === "string" ? res.data.slice(0, RESPONSE_BODY_MAX) : null
+      if (res.status < 200 || res.status >= 300) error = `HTTP ${res.status}`
+    } catch (err: any) {
+      error = err?.code ? `${err.code}: ${err.message}` : String(err?.message ?? err)
+    }
+
+    const status = error ? WebhookDeliveryStatus.FAILED : WebhookDeliveryStatus.SUCCESS
+
+    if (error) {
+      logger.warn(`Webhook ${envelope.event} to subscription ${subscription.id} failed (attempt ${attempt})`, {
+        error,
+      })
+    }
+
+    return webhookSubscriptionRepository.recordDelivery({
+      subscriptionId: subscription.id,
+      eventId: envelope.id,
+      event: envelope.event,
+      attempt,
+      status,
+      requestBody: body,
+      responseStatus,
+      responseBody,
+      error,
+      durationMs: Date.now() - started,
+    })
+  }
+
+  private async loadReview(reviewId: string) {
+    try {
+      return await reviewsRepository.getById(reviewId)
+    } catch (err) {
+      logger.error(`Failed to load review ${reviewId} for webhooks`, err)
+      return null
+    }
+  }
+}
+
+export const outboundWebhookService = new OutboundWebhookService()
@@ -0,0 +1,107 @@
+import { ReplyDraftStatus, type Review } from "@prisma/client"
+import { prisma } from "../database"
+import { reviewsRepository } from "../repository/reviews.repo"
+import { reviewWorkflowRepository, ReviewWorkflowState } from "../repository/review-workflow.repo"
+import { ManualReviewQueueRepository } from "../repository/manual-review-queue.repo"
+import { jobQueueRepository, JobType } from "../repository/job-queue.repo"
+import { logger } from "../utils/logger"
+
+const manualQueueRepo = new ManualReviewQueueRepository(prisma)
+
+/**
+ * Draft-then-approve flow for AI replies (Outlet.replyApprovalRequired).
+ * Only approved text is ever posted to Google.
+ */
+class ReplyApprovalService {
+  /**
+   * Store the AI reply as a draft and schedule auto-approval if the outlet wants it
+   */
+  async holdForApproval(
+    review: Pick<Review, "id" | "outletId">,
+    draftText: string,
+    autoApproveAfterMinutes: number | null
+  ) {
+    await reviewsRepository.saveReplyDraft(review.id, draftText)
+
+    if (autoApproveAfterMinutes != null) {
+      await jobQueueRepository.enqueue({
+        type: JobType.AUTO_APPROVE_REPLY,
+        outletId: review.outletId,
+        payload: { reviewId: review.id },
+        runAt: new Date(Date.now() + autoApproveAfterMinutes * 60 * 1000),
+        dedupeKey: `auto-approve:${review.id}`,
+        // a re-drafted review (after an edit) needs its own auto-approval
+        restartCompleted: true,
+      })
+    }
+
+    logger.info(`AI reply for review ${review.id} held for owner approval`)
+  }
+
+  /**
+   * Approve the pending draft, optionally with edited text, and queue the Google post.
+   * Returns false if the draft was no longer pending.
+   */
+  async approve(
+    review: Pick<Review, "id" | "outletId" | "draftReplyText">,
+    options: { replyText?: string; userId?: string } = {}
+  ): Promise<boolean> {
+    const draft = review.draftReplyText ?? ""
+    const replyText = options.replyText?.trim() || draft
+
+    if (!replyText) return false
+
+    let decision: ReplyDraftStatus = ReplyDraftStatus.APPROVED
+    if (!options.userId) decision = ReplyDraftStatus.AUTO_APPROVED
+    else if (replyText !== draft) decision = ReplyDraftStatus.EDITED
+
+    // approval and post job together: an approved draft without its job would never be posted
+    const approved = await prisma.$transaction(async (tx) => {
+      const decided = await reviewsRepository.approveReplyDraft(
+        review.id,
+        { replyText, decision, decidedById: options.userId },
+        tx
+      )
+      if (!decided) return false
+
+      await jobQueueRepository.enqueue(
+        {
+          type: JobType.POST_GMB_REPLY,
+          outletId: review.outletId,
+          payload: { reviewId: review.id },
+          dedupeKey: `post-reply:${review.id}`,
+          restartCompleted: true,
+        },
+        tx
+      )
+      return true
+    })
+    if (!approved) return false
+
+    const wf = await reviewWorkflowRepository.getByReviewId(review.id)
+    if (wf?.currentState === ReviewWorkflowState.PENDING) {
+      await reviewWorkflowRepository.updateState(review.id, ReviewWorkflowState.AUTO_REPLIED)
+    }
+
+    logger.info(`AI reply for review ${review.id} ${decision.toLowerCase()}`)
+    return true
+  }
+
+  /**
+   * Reject the pending draft; the review moves to the manual queue.
+   */
+  async reject(review: Pick<Review, "id" | "outletId">, userId: string): Promise<boolean> {
+    const rejected = await reviewsRepository.rejectReplyDraft(review.id, userId)
+    if (!rejected) return false
+
+    const queued = await manualQueueRepo.addToQueue(review.id, review.outletId)
+
+    await reviewWorkflowRepository.createIfNotExists(review.id)
+    await reviewWorkflowRepository.reopen(review.id, queued.nextReminderAt ?? new Date())
+
+    logger.info(`AI reply for review ${review.id} rejected, moved to manual queue`)
+    return true
+  }
+}
+
+export const replyApprovalService = new ReplyApprovalService()
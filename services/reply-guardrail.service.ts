@@ -0,0 +1,269 @@
+import { ReplyDraftStatus, type Outlet, type Review } from "@prisma/client"
+import env from "../config/env"
+import { openaiService, type BrandVoice } from "../integrations/openai"
+import { reviewsRepository } from "../repository/reviews.repo"
+import { replyValidationRepository } from "../repository/reply-validation.repo"
+import { detectLanguage } from "../utils/language"
+import { logger } from "../utils/logger"
+
+export const REPLY_GUARDRAIL_RULES = [
+  "customer_name",
+  "contact_info",
+  "ai_mention",
+  "refund_promise",
+  "banned_phrase",
+  "hallucination",
+] as const
+
+export type ReplyGuardrailRule = (typeof REPLY_GUARDRAIL_RULES)[number]
+
+export interface GuardrailContext {
+  rating: number
+  customerName: string
+  reviewText: string
+  outletName: string
+  businessCategory?: string | null
+  voice?: BrandVoice | null
+}
+
+/**
+ * What enforce() reads from the review and its outlet
+ */
+export type GuardrailReview = Pick<
+  Review,
+  "id" | "rating" | "customerName" | "reviewText" | "language" | "aiReplyText" | "draftStatus"
+>
+
+export type GuardrailOutlet = Pick<Outlet, "id" | "name" | "category" | "disabledReplyGuardrails"> & {
+  brandVoice: BrandVoice | null
+}
+
+export interface GuardrailViolation {
+  rule: ReplyGuardrailRule
+  detail: string
+}
+
+export type GuardrailResult =
+  | { ok: true; replyText: string; regenerated: boolean }
+  | { ok: false; violations: GuardrailViolation[] }
+
+const GENERIC_NAMES = ["customer", "anonymous", "a google user", "google user"]
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+\.[\w.-]+/
+const URL_PATTERN = /(https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(com|in|net|org|co|io|app|biz)\b/i
+const PHONE_PATTERN = /\+?\d[\d\s().-]{6,}\d/
+
+const AI_PATTERN = /\b(chat\s?gpt|openai|gpt-?\d*|artificial intelligence|language model|chatbot)\b/i
+// case-sensitive so words like "ai" in transliterated text don't match
+const AI_ACRONYM_PATTERN = /\bA\.?I\b/
+
+const REFUND_PATTERN =
+  /\b(refund(s|ed)?|reimburs\w*|money back|compensat\w*|free of charge|on the house|voucher|coupon)\b/i
+
+// capitalized words that are fine even if the review never mentions them
+const COMMON_CAPITALIZED = new Set(["i", "i'm", "i'll", "i've", "i'd", "google", "team"])
+
+/**
+ * Checks generated replies before they are posted to Google.
+ * Enabled rules come from REPLY_GUARDRAIL_RULES minus the outlet's disabledReplyGuardrails.
+ */
+class ReplyGuardrailService {
+  enabledRules(outlet?: { disabledReplyGuardrails?: string[] | null }): ReplyGuardrailRule[] {
+    const configured = env.REPLY_GUARDRAIL_RULES.split(",")
+      .map((r) => r.trim())
+      .filter(Boolean)
+    const disabled = new Set(outlet?.disabledReplyGuardrails || [])
+
+    return REPLY_GUARDRAIL_RULES.filter((rule) => configured.includes(rule) && !disabled.has(rule))
+  }
+
+  /**
+   * Every rule the reply breaks (empty = safe to post)
+   */
+  validate(
+    replyText: string,
+    ctx: GuardrailContext,
+    rules: ReplyGuardrailRule[] = this.enabledRules()
+  ): GuardrailViolation[] {
+    const violations: GuardrailViolation[] = []
+
+    for (const rule of rules) {
+      const detail = CHECKS[rule](replyText, ctx)
+      if (detail) violations.push({ rule, detail })
+    }
+
+    return violations
+  }
+
+  /**
+   * Validate the review's AI reply, regenerating up to REPLY_GUARDRAIL_MAX_REGENERATIONS times.
+   * Each failed rule is recorded. A regenerated reply that passes replaces aiReplyText.
+   * regenerate: false only checks the text as is (a reply someone already approved).
+   */
+  async enforce(
+    review: GuardrailReview,
+    outlet: GuardrailOutlet,
+    options: { regenerate?: boolean } = {}
+  ): Promise<GuardrailResult> {
+    const replyText: string = review.aiReplyText || ""
+
+    // text the owner edited themselves is not machine output
+    if (review.draftStatus === ReplyDraftStatus.EDITED) {
+      return { ok: true, replyText, regenerated: false }
+    }
+
+    const rules = this.enabledRules(outlet)
+    if (rules.length === 0) {
+      return { ok: true, replyText, regenerated: false }
+    }
+
+    const ctx: GuardrailContext = {
+      rating: review.rating,
+      customerName: review.customerName,
+      reviewText: review.reviewText || "",
+      outletName: outlet.name,
+      businessCategory: outlet.category,
+      voice: outlet.brandVoice,
+    }
+
+    let candidate: string | null = replyText
+    let violations: GuardrailViolation[] = []
+
+    const maxRegenerations = options.regenerate === false ? 0 : env.REPLY_GUARDRAIL_MAX_REGENERATIONS
+
+    for (let attempt = 0; attempt <= maxRegenerations; attempt++) {
+      if (attempt > 0) {
+        candidate = await openaiService.generateReply(
+          {
+            rating: review.rating,
+            customerName: review.customerName,
+            reviewText: review.reviewText,
+            outletName: outlet.name,
+            storeLocation: outlet.name,
+            businessCategory: outlet.category,
+            voice: outlet.brandVoice,
+            language: review.language,
+          },
+          { outletId: outlet.id, reviewId: review.id }
+        )
+        if (!candidate) break
+      }
+
+      violations = this.validate(candidate, ctx, rules)
+
+      if (violations.length === 0) {
+        if (attempt > 0) {
+          await reviewsRepository.markAsAutoReplied(review.id, candidate)
+          logger.info(`Regenerated reply for review ${review.id} passed guardrails (attempt ${attempt})`)
+        }
+        return { ok: true, replyText: candidate, regenerated: attempt > 0 }
+      }
+
+      logger.warn(`Reply for review ${review.id} failed guardrails`, {
+        attempt,
+        rules: violations.map((v) => v.rule),
+      })
+
+      for (const v of violations) {
+        await replyValidationRepository.recordFailure({
+          reviewId: review.id,
+          outletId: outlet.id,
+          rule: v.rule,
+          detail: v.detail,
+          replyText: candidate,
+          attempt,
+        })
+      }
+    }
+
+    return { ok: false, violations }
+  }
+}
+
+/**
+ * Rule checks: return a short reason when the reply breaks the rule
+ */
+const CHECKS: Record<ReplyGuardrailRule, (reply: string, ctx: GuardrailContext) => string | null> = {
+  customer_name(reply, ctx) {
+    const name = (ctx.customerName || "").trim()
+    if (!name || GENERIC_NAMES.includes(name.toLowerCase())) return null
+
+    // "Priya" can't be matched inside a Tamil reply (or "பிரியா" inside an English one)
+    if (detectLanguage(name) !== detectLanguage(reply)) return null
+
+    const first = name.split(/\s+/)[0]
+    if (reply.toLowerCase().includes(first.toLowerCase())) return null
+
+    return `customer name "${first}" missing`
+  },
+
+  contact_info(reply, ctx) {
+    let text = reply
+    const allowed = ctx.voice?.allowContactInfo ? (ctx.voice.contactInfo || "").trim() : ""
+    if (allowed) text = text.split(allowed).join(" ")
+
+    const match = text.match(EMAIL_PATTERN) || text.match(URL_PATTERN) || text.match(PHONE_PATTERN)
+    return match ? `contains contact details "${match[0].trim()}"` : null
+  },
+
+  ai_mention(reply) {
+    const match = reply.match(AI_PATTERN) || reply.match(AI_ACRONYM_PATTERN)
+    return match ? `mentions "${match[0]}"` : null
+  },
+
+  refund_promise(reply) {
+    const match = reply.match(REFUND_PATTERN)
+    return match ? `offers "${match[0]}"` : null
+  },
+
+  banned_phrase(reply, ctx) {
+    const lower = reply.toLowerCase()
+    const hit = (ctx.voice?.bannedPhrases || [])
+      .map((p) => p.trim())
+      .find((p) => p && lower.includes(p.toLowerCase()))
+    return hit ? `uses banned phrase "${hit}"` : null
+  },
+
+  /**
+   * Heuristic: numbers and mid-sentence proper nouns must come from the review
+   * or the outlet's own details; anything else is likely invented.
+   * Proper nouns are only checked in English replies: other scripts have no
+   * capitals, and Latin words inside them are names or loanwords.
+   */
+  hallucination(reply, ctx) {
+    const voice = ctx.voice
+    const known = [
+      ctx.reviewText,
+      ctx.customerName,
+      ctx.outletName,
+      ctx.businessCategory || "",
+      voice?.signOff || "",
+      voice?.contactInfo || "",
+      ...(voice?.mandatoryPhrases || []),
+    ]
+      .join(" ")
+      .toLowerCase()
+
+    for (const num of reply.match(/\d+(?:[.,]\d+)?/g) || []) {
+      if (num === String(ctx.rating)) continue
+      if (!known.includes(num.toLowerCase())) return `mentions "${num}" not in the review`
+    }
+
+    if (detectLanguage(reply) !== "en") return null
+
+    const sentences = reply.split(/[.!?\n]+/)
+    for (const sentence of sentences) {
+      const words = sentence.trim().split(/\s+/).slice(1)
+      for (const raw of words) {
+        const word = raw.replace(/^[^\p{L}]+|[^\p{L}']+$/gu, "").replace(/'s$/i, "")
+        if (!/^\p{Lu}/u.test(word)) continue
+        if (COMMON_CAPITALIZED.has(word.toLowerCase())) continue
+        if (!known.includes(word.toLowerCase())) return `mentions "${word}" not in the review`
+      }
+    }
+
+    return null
+  },
+}
+
+export const replyGuardrailService = new ReplyGuardrailService()
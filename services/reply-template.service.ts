@@ -0,0 +1,79 @@
+import type { Outlet, ReplyTemplate, Review } from "@prisma/client"
+import { z } from "zod"
+import { replyTemplateRepository } from "../repository/reply-template.repo"
+
+export const TEMPLATE_VARIABLES = ["customerName", "outletName", "rating"] as const
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number]
+export type TemplateVariables = Partial<Record<TemplateVariable, string | number>>
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g
+
+/**
+ * Manual reply endpoints: `templateId` plus optional variable overrides instead of free text
+ */
+export const TemplateReplySchema = z.object({
+  templateId: z.string().min(1),
+  overrides: z
+    .object({
+      customerName: z.string().trim().min(1).max(100),
+      outletName: z.string().trim().min(1).max(200),
+      rating: z.number().int().min(1).max(5),
+    })
+    .partial()
+    .default({}),
+})
+
+/**
+ * Reply template library: outlet templates plus global defaults per BusinessCategory.
+ */
+class ReplyTemplateService {
+  /**
+   * Variables used in a template body that we don't know how to fill
+   */
+  unknownVariables(body: string): string[] {
+    const found = [...body.matchAll(VARIABLE_PATTERN)].map((m) => m[1])
+    return [...new Set(found.filter((v) => !(TEMPLATE_VARIABLES as readonly string[]).includes(v)))]
+  }
+
+  render(body: string, variables: TemplateVariables): string {
+    return body
+      .replace(VARIABLE_PATTERN, (match, name: string) => {
+        const value = variables[name as TemplateVariable]
+        return value == null ? match : String(value)
+      })
+      .trim()
+  }
+
+  /**
+   * Whether an outlet may reply with this template
+   */
+  isAvailableTo(template: ReplyTemplate, outlet: Pick<Outlet, "id" | "category">): boolean {
+    if (!template.isActive) return false
+    if (template.outletId) return template.outletId === outlet.id
+    return !template.category || template.category === outlet.category
+  }
+
+  /**
+   * Reply text for a review from a library template; overrides win over review/outlet values.
+   * Returns null if the template doesn't exist or isn't available to the review's outlet.
+   */
+  async renderForReview(
+    templateId: string,
+    review: Pick<Review, "customerName" | "rating">,
+    outlet: Pick<Outlet, "id" | "name" | "category">,
+    overrides: TemplateVariables = {}
+  ): Promise<string | null> {
+    const template = await replyTemplateRepository.getById(templateId)
+    if (!template || !this.isAvailableTo(template, outlet)) return null
+
+    return this.render(template.body, {
+      customerName: review.customerName,
+      outletName: outlet.name,
+      rating: review.rating,
+      ...overrides,
+    })
+  }
+}
+
+export const replyTemplateService = new ReplyTemplateService()
@@ -0,0 +1,59 @@
+import { ReviewUrgency, Sentiment } from "@prisma/client"
+import { openaiService, type ReviewAnalysis } from "../integrations/openai"
+import { analyzeReviewHeuristically } from "../integrations/llm/heuristics"
+import { logger } from "../utils/logger"
+
+/**
+ * Review columns filled from the analysis
+ */
+export interface StoredReviewAnalysis {
+  sentiment: Sentiment
+  sentimentScore: number
+  topics: string[]
+  urgency: ReviewUrgency
+  safetyIssue: boolean
+  legalIssue: boolean
+  analyzedAt: Date
+}
+
+export const URGENCY_RANK: Record<ReviewUrgency, number> = {
+  [ReviewUrgency.LOW]: 0,
+  [ReviewUrgency.MEDIUM]: 1,
+  [ReviewUrgency.HIGH]: 2,
+}
+
+/**
+ * Structured analysis of ingested reviews. Falls back to keyword heuristics
+ * when the LLM is unavailable or the outlet's AI quota is used up.
+ */
+class ReviewAnalysisService {
+  async analyze(
+    input: { reviewText: string; rating: number },
+    context: { outletId?: string; reviewId?: string } = {}
+  ): Promise<StoredReviewAnalysis> {
+    const reviewText = (input.reviewText || "").trim()
+
+    // star-only reviews: nothing for the model to read
+    let analysis: ReviewAnalysis | null = null
+    if (reviewText) {
+      analysis = await openaiService.analyzeReview({ reviewText, rating: input.rating }, context)
+    }
+
+    if (!analysis) {
+      if (reviewText) logger.debug("Review analysis unavailable, using keyword heuristics")
+      analysis = analyzeReviewHeuristically({ reviewText, rating: input.rating })
+    }
+
+    return {
+      sentiment: analysis.sentiment.toUpperCase() as Sentiment,
+      sentimentScore: analysis.sentimentScore,
+      topics: analysis.topics,
+      urgency: analysis.urgency.toUpperCase() as ReviewUrgency,
+      safetyIssue: analysis.safetyIssue,
+      legalIssue: analysis.legalIssue,
+      analyzedAt: new Date(),
+    }
+  }
+}
+
+export const reviewAnalysisService = new ReviewAnalysisService()
@@ -0,0 +1,109 @@
+import {
+  reviewAnalyticsRepository,
+  type AnalyticsInterval,
+  type AnalyticsScope,
+  type PeriodStats,
+} from "../repository/review-analytics.repo"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// default look-back per bucket size
+const DEFAULT_RANGE_DAYS: Record<AnalyticsInterval, number> = {
+  day: 30,
+  week: 12 * 7,
+  month: 365,
+}
+
+/**
+ * Period-over-period change (current - previous); percent only for volume
+ */
+function deltas(current: PeriodStats, previous: PeriodStats) {
+  const diff = (a: number | null, b: number | null, digits = 2) =>
+    a == null || b == null ? null : Number((a - b).toFixed(digits))
+
+  return {
+    total: current.total - previous.total,
+    totalPercent:
+      previous.total === 0 ? null : Number((((current.total - previous.total) / previous.total) * 100).toFixed(1)),
+    avgRating: diff(current.avgRating, previous.avgRating),
+    responseRate: diff(current.responseRate, previous.responseRate, 4),
+    medianResponseMinutes: diff(current.medianResponseMinutes, previous.medianResponseMinutes, 0),
+  }
+}
+
+/**
+ * Trends and comparisons over review volume, rating and responsiveness.
+ * The previous period is the same length immediately before `from`.
+ */
+class ReviewAnalyticsService {
+  resolveRange(interval: AnalyticsInterval, from?: Date, to?: Date) {
+    const end = to ?? new Date()
+    const start = from ?? new Date(end.getTime() - DEFAULT_RANGE_DAYS[interval] * DAY_MS)
+    return { from: start, to: end }
+  }
+
+  async getTrends(scope: AnalyticsScope, interval: AnalyticsInterval, from: Date, to: Date) {
+    const previousFrom = new Date(from.getTime() - (to.getTime() - from.getTime()))
+
+    const [buckets, current, previous] = await Promise.all([
+      reviewAnalyticsRepository.getTimeSeries(scope, interval, from, to),
+      reviewAnalyticsRepository.getPeriodStats(scope, from, to),
+      reviewAnalyticsRepository.getPeriodStats(scope, previousFrom, from),
+    ])
+
+    return {
+      scope,
+      interval,
+      from,
+      to,
+      buckets,
+      current,
+      previous,
+      deltas: deltas(current, previous),
+    }
+  }
+
+  /**
+   * Every outlet of a group side by side, plus the group total
+   */
+  async compareGroup(groupName: string, from: Date, to: Date) {
+    const previousFrom = new Date(from.getTime() - (to.getTime() - from.getTime()))
+
+    const [currentRows, previousRows, groupCurrent, groupPrevious] = await Promise.all([
+      reviewAnalyticsRepository.getGroupStats(groupName, from, to),
+      reviewAnalyticsRepository.getGroupStats(groupName, previousFrom, from),
+      reviewAnalyticsRepository.getPeriodStats({ groupName }, from, to),
+      reviewAnalyticsRepository.getPeriodStats({ groupName }, previousFrom, from),
+    ])
+
+    if (currentRows.length === 0) return null
+
+    const previousById = new Map(previousRows.map((row) => [row.outletId, row]))
+
+    return {
+      groupName,
+      from,
+      to,
+      group: {
+        current: groupCurrent,
+        previous: groupPrevious,
+        deltas: deltas(groupCurrent, groupPrevious),
+      },
+      outlets: currentRows.map(({ outletId, outletName, ...current }) => {
+        const { outletId: _id, outletName: _name, ...previous } = previousById.get(outletId) ?? {
+          outletId,
+          outletName,
+          total: 0,
+          avgRating: null,
+          replied: 0,
+          responseRate: null,
+          medianResponseMinutes: null,
+        }
+
+        return { outletId, outletName, current, previous, deltas: deltas(current, previous) }
+      }),
+    }
+  }
+}
+
+export const reviewAnalyticsService = new ReviewAnalyticsService()
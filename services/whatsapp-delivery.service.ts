@@ -0,0 +1,111 @@
+import { ReviewStatus, WhatsAppMessageStatus } from "@prisma/client"
+import env from "../config/env"
+import { whatsappMessageLogRepository } from "../repository/whatsapp-message-log.repo"
+import { usersRepository } from "../repository/users.repo"
+import { jobQueueRepository, JobType } from "../repository/job-queue.repo"
+import { emailService } from "./email.service"
+import type { WhatsAppStatusUpdate } from "../integrations/whatsapp"
+import { logger } from "../utils/logger"
+
+/**
+ * What happens after a WhatsApp message went out: status webhooks update the
+ * message log, read receipts hold back the next reminder, failed deliveries
+ * about a review fall back to email.
+ */
+class WhatsAppDeliveryService {
+  async applyStatus(update: WhatsAppStatusUpdate) {
+    const applied = await whatsappMessageLogRepository.applyStatus(update.messageId, update)
+    if (!applied) {
+      logger.debug(`Status ${update.status} for unknown WhatsApp message ${update.messageId}`)
+      return
+    }
+
+    const { log, failedNow } = applied
+    if (!failedNow) return
+
+    logger.warn(`WhatsApp message ${update.messageId} to ${log.toNumber} failed`, {
+      errorCode: update.errorCode,
+      errorMessage: update.errorMessage,
+    })
+
+    if (env.WHATSAPP_EMAIL_FALLBACK && log.reviewId) {
+      await jobQueueRepository.enqueue({
+        type: JobType.SEND_WHATSAPP_EMAIL_FALLBACK,
+        outletId: log.outletId,
+        payload: { logId: log.id },
+        dedupeKey: `wa-email-fallback:${log.id}`,
+      })
+    }
+  }
+
+  /**
+   * True when the recipient read the last message about the review, so this
+   * reminder can be left out. Only one reminder is held back per read message.
+   */
+  async shouldSkipReminder(reviewId: string, toNumber: string): Promise<boolean> {
+    if (!env.WHATSAPP_SKIP_READ_REMINDERS) return false
+
+    const latest = await whatsappMessageLogRepository.getLatestForRecipient(reviewId, toNumber)
+    return latest?.status === WhatsAppMessageStatus.READ
+  }
+
+  /**
+   * Log the reminder that was held back; the next one goes out again
+   */
+  async recordSkippedReminder(
+    toNumber: string,
+    template: string,
+    context: { reviewId: string; outletId: string; language?: string }
+  ) {
+    return whatsappMessageLogRepository.record({
+      template,
+      language: context.language,
+      toNumber,
+      reviewId: context.reviewId,
+      outletId: context.outletId,
+      status: WhatsAppMessageStatus.SKIPPED,
+    })
+  }
+
+  /**
+   * Job handler: email the recipient of an undelivered message while the review is still open
+   */
+  async sendEmailFallback(logId: string) {
+    const log = await whatsappMessageLogRepository.getById(logId)
+    if (!log?.review) {
+      logger.warn(`WhatsApp message log ${logId} has no review to fall back on`)
+      return
+    }
+
+    if (log.emailFallbackAt) {
+      logger.debug(`Email fallback for WhatsApp message ${logId} already sent`)
+      return
+    }
+
+    if (log.review.status === ReviewStatus.CLOSED) {
+      logger.debug(`Review ${log.review.id} answered meanwhile, no email fallback`)
+      return
+    }
+
+    const user = await usersRepository.getByWhatsAppNumber(log.toNumber)
+    if (!user?.email) {
+      logger.warn(`No email for WhatsApp recipient of message ${logId}`)
+      return
+    }
+
+    const sent = await emailService.sendReviewAttentionEmail(user.email, user.name, {
+      outletName: log.review.outlet.name,
+      rating: log.review.rating,
+      customerName: log.review.customerName,
+      reviewText: log.review.reviewText,
+    })
+
+    if (!sent) {
+      throw new Error(`Email fallback failed for WhatsApp message ${logId}`)
+    }
+
+    await whatsappMessageLogRepository.markEmailFallbackSent(logId)
+  }
+}
+
+export const whatsappDeliveryService = new WhatsAppDeliveryService()
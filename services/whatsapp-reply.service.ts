@@ -0,0 +1,190 @@
+import { ReviewStatus } from "@prisma/client"
+import { prisma } from "../database"
+import { reviewsRepository } from "../repository/reviews.repo"
+import { reviewWorkflowRepository } from "../repository/review-workflow.repo"
+import { ManualReviewQueueRepository } from "../repository/manual-review-queue.repo"
+import { whatsappMessageLogRepository } from "../repository/whatsapp-message-log.repo"
+import { usersRepository } from "../repository/users.repo"
+import { auditRepository } from "../repository/audit.repo"
+import { jobQueueRepository, JobType } from "../repository/job-queue.repo"
+import { gmbService } from "../integrations/gmb"
+import { WA_BUTTON_APPROVE_REPLY, type IncomingWhatsAppMessage } from "../integrations/whatsapp"
+import { outboundWebhookService } from "./outbound-webhook.service"
+import { replyGuardrailService } from "./reply-guardrail.service"
+import { logger } from "../utils/logger"
+
+export interface WhatsAppReplyJob {
+  reviewId: string
+  replyText: string
+  userId: string
+  // inbound message id
+  waMessageId: string
+  approvedSuggestion: boolean
+}
+
+const manualQueueRepo = new ManualReviewQueueRepository(prisma)
+
+/**
+ * Owners answering a review alert/reminder from WhatsApp: the "approve" button
+ * posts the suggested reply, a quoted text message is posted as the reply.
+ */
+class WhatsAppReplyService {
+  /**
+   * Match an inbound message to its review and queue the Google post.
+   * Returns false when the message was ignored.
+   */
+  async handleIncoming(message: IncomingWhatsAppMessage): Promise<boolean> {
+    if (!message.contextId) {
+      logger.debug(`WhatsApp message ${message.id} is not a reply to one of our messages`)
+      return false
+    }
+
+    const sent = await whatsappMessageLogRepository.getByWaMessageId(message.contextId)
+    if (!sent?.reviewId) {
+      logger.debug(`WhatsApp message ${message.id} answers an unknown message ${message.contextId}`)
+      return false
+    }
+
+    // only the number we wrote to may answer
+    if (sent.toNumber.replace(/\D/g, "") !== message.from) {
+      logger.warn(`WhatsApp reply ${message.id} for review ${sent.reviewId} came from another number`)
+      return false
+    }
+
+    const user = await usersRepository.getByWhatsAppNumber(message.from)
+    if (!user) {
+      logger.warn(`No user for WhatsApp sender of message ${message.id}`)
+      return false
+    }
+
+    let replyText: string
+    if (message.type === "button") {
+      if (message.payload !== WA_BUTTON_APPROVE_REPLY || !sent.suggestedReply) {
+        logger.info(`WhatsApp button "${message.payload}" for review ${sent.reviewId} has nothing to post`)
+        return false
+      }
+      replyText = sent.suggestedReply
+    } else {
+      replyText = message.text.trim()
+    }
+
+    if (!replyText) return false
+
+    const review = await prisma.review.findUnique({ where: { id: sent.reviewId }, select: { status: true } })
+    if (!review || review.status === ReviewStatus.CLOSED) {
+      logger.info(`Review ${sent.reviewId} already answered, WhatsApp reply ${message.id} ignored`)
+      return false
+    }
+
+    const payload: WhatsAppReplyJob = {
+      reviewId: sent.reviewId,
+      replyText,
+      userId: user.id,
+      waMessageId: message.id,
+      approvedSuggestion: message.type === "button",
+    }
+
+    // dedupe: the webhook may deliver the same message more than once
+    await jobQueueRepository.enqueue({
+      type: JobType.POST_WHATSAPP_REPLY,
+      outletId: sent.outletId,
+      payload: { ...payload },
+      dedupeKey: `wa-reply:${message.id}`,
+    })
+
+    logger.info(`WhatsApp reply ${message.id} queued for review ${sent.reviewId}`)
+    return true
+  }
+
+  /**
+   * Job handler: post to Google, then close the review and its queue item
+   */
+  async post(job: WhatsAppReplyJob) {
+    const review = await prisma.review.findUnique({
+      where: { id: job.reviewId },
+      include: { outlet: { include: { googleIntegration: true, brandVoice: true } } },
+    })
+
+    if (!review) {
+      logger.warn(`Review ${job.reviewId} no longer exists`)
+      return
+    }
+
+    if (review.status === ReviewStatus.CLOSED) {
+      logger.debug(`Review ${review.id} already answered`)
+      return
+    }
+
+    const { outlet } = review
+    if (!review.googleReviewId || !outlet.googleIntegration?.refreshToken || !outlet.googleLocationName) {
+      throw new Error(`Outlet ${outlet.id} missing GMB auth setup`)
+    }
+
+    // the suggestion is machine output: same checks as an AI reply, but no rewrite the owner never saw
+    if (job.approvedSuggestion) {
+      const checked = await replyGuardrailService.enforce(
+        { ...review, aiReplyText: job.replyText, draftStatus: null },
+        outlet,
+        { regenerate: false }
+      )
+      if (!checked.ok) {
+        await this.fallBackToManual(review, job, checked.violations.map((v) => v.rule))
+        return
+      }
+    }
+
+    const posted = await gmbService.postReply(
+      outlet.googleLocationName,
+      review.googleReviewId,
+      job.replyText,
+      outlet.googleIntegration.refreshToken
+    )
+
+    if (!posted) {
+      throw new Error(`Failed to post WhatsApp reply for review ${review.id}`)
+    }
+
+    await reviewsRepository.saveManualReply(review.id, job.replyText)
+    await reviewWorkflowRepository.resolveManually(review.id)
+
+    await auditRepository.createAuditLog({
+      action: "REVIEW_REPLIED_VIA_WHATSAPP",
+      entity: "Review",
+      entityId: review.id,
+      userId: job.userId,
+      outletId: outlet.id,
+      reviewId: review.id,
+      details: { waMessageId: job.waMessageId, approvedSuggestion: job.approvedSuggestion },
+    })
+
+    await outboundWebhookService.reviewReplied(review.id, { text: job.replyText, source: "whatsapp" })
+
+    logger.info(`WhatsApp reply posted for review ${review.id}`)
+  }
+
+  /**
+   * Approved suggestion blocked by guardrails: nothing is posted, the review
+   * stays with (or goes back to) the manual queue for a written reply
+   */
+  private async fallBackToManual(review: { id: string; outletId: string }, job: WhatsAppReplyJob, rules: string[]) {
+    logger.warn(`WhatsApp-approved reply for review ${review.id} blocked by guardrails (${rules.join(", ")})`)
+
+    await reviewsRepository.updateReviewStatus(review.id, ReviewStatus.MANUAL_PENDING)
+    const queued = await prisma.manualReviewQueue.findUnique({ where: { reviewId: review.id } })
+    if (!queued) {
+      await manualQueueRepo.addToQueue(review.id, review.outletId)
+    }
+
+    await auditRepository.createAuditLog({
+      action: "WHATSAPP_REPLY_BLOCKED",
+      entity: "Review",
+      entityId: review.id,
+      userId: job.userId,
+      outletId: review.outletId,
+      reviewId: review.id,
+      details: { waMessageId: job.waMessageId, rules },
+    })
+  }
+}
+
+export const whatsappReplyService = new WhatsAppReplyService()
@@ -0,0 +1,67 @@
+import env from '../config/env'
+
+/**
+ * Script-based language detection for the languages our outlets receive
+ * (Hindi, Tamil, Arabic, English). Returns an ISO 639-1 code, or null
+ * when the text has no letters to go on.
+ */
+const SCRIPTS: { code: string; pattern: RegExp }[] = [
+  { code: 'hi', pattern: /[ऀ-ॿ]/g }, // Devanagari
+  { code: 'ta', pattern: /[஀-௿]/g }, // Tamil
+  { code: 'ar', pattern: /[؀-ۿݐ-ݿ]/g }, // Arabic
+  { code: 'en', pattern: /[A-Za-z]/g }
+]
+
+export function detectLanguage(text: string | null | undefined): string | null {
+  const clean = (text || '').trim()
+  if (!clean) return null
+
+  let best: string | null = null
+  let bestCount = 0
+
+  for (const { code, pattern } of SCRIPTS) {
+    const count = clean.match(pattern)?.length ?? 0
+    // earlier entries win ties, so a native script beats Latin brand names
+    if (count > bestCount) {
+      best = code
+      bestCount = count
+    }
+  }
+
+  return best
+}
+
+/**
+ * WhatsApp template language code for a review language.
+ * Falls back to the first configured language when no approved
+ * template exists for it.
+ */
+export function toWhatsAppLanguage(language: string | null | undefined): string {
+  const approved = env.WHATSAPP_TEMPLATE_LANGUAGES.split(',')
+    .map((l) => l.trim())
+    .filter(Boolean)
+
+  const fallback = approved[0] || 'en_US'
+  if (!language) return fallback
+
+  const lang = language.toLowerCase()
+  const match =
+    approved.find((l) => l.toLowerCase() === lang) ||
+    approved.find((l) => l.toLowerCase().split('_')[0] === lang.split(/[-_]/)[0])
+
+  return match || fallback
+}
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  hi: 'Hindi',
+  ta: 'Tamil',
+  ar: 'Arabic'
+}
+
+/**
+ * Human-readable name for prompts ("hi" -> "Hindi"); unknown codes pass through
+ */
+export function languageName(code: string): string {
+  return LANGUAGE_NAMES[code.toLowerCase().split(/[-_]/)[0]] || code
+}
@@ -0,0 +1,68 @@
+/**
+ * Quiet hours as local wall-clock times ("HH:mm") in an IANA timezone.
+ * A start later than the end wraps midnight (22:00-08:00).
+ */
+export interface QuietHours {
+  start: string
+  end: string
+  timezone: string
+}
+
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+const MINUTES_PER_DAY = 24 * 60
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+function localMinutes(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date)
+
+  const value = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0)
+  return value('hour') * 60 + value('minute')
+}
+
+/**
+ * Minutes left until quiet hours end (0 outside quiet hours)
+ */
+function minutesUntilQuietEnd(date: Date, quiet: QuietHours): number {
+  const start = toMinutes(quiet.start)
+  const end = toMinutes(quiet.end)
+  if (start === end) return 0
+
+  const now = localMinutes(date, quiet.timezone)
+  const inQuiet = start < end ? now >= start && now < end : now >= start || now < end
+  if (!inQuiet) return 0
+
+  return (end - now + MINUTES_PER_DAY) % MINUTES_PER_DAY
+}
+
+export function isQuietTime(date: Date, quiet: QuietHours | null): boolean {
+  return !!quiet && minutesUntilQuietEnd(date, quiet) > 0
+}
+
+/**
+ * The same instant, or the end of the quiet hours it falls into
+ */
+export function deferPastQuietHours(date: Date, quiet: QuietHours | null): Date {
+  if (!quiet) return date
+
+  const wait = minutesUntilQuietEnd(date, quiet)
+  return wait > 0 ? new Date(date.getTime() + wait * 60 * 1000) : date
+}
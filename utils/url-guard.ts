@@ -0,0 +1,113 @@
+import dns from 'dns'
+import net from 'net'
+
+/**
+ * Guards for URLs we POST to on a customer's behalf (notification and outbound
+ * webhooks): the target must be on the public internet, not our own network,
+ * loopback, link-local or a cloud metadata endpoint.
+ */
+const BLOCKED = new net.BlockList()
+
+// IPv4: "this" network, private, carrier-grade NAT, loopback, link-local (incl. 169.254.169.254),
+// IETF protocol assignments, benchmarking, multicast and reserved
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+] as const) {
+  BLOCKED.addSubnet(prefix, bits, 'ipv4')
+}
+
+// IPv6: unspecified, loopback, unique local (incl. fd00:ec2::254), link-local, multicast
+BLOCKED.addAddress('::', 'ipv6')
+BLOCKED.addAddress('::1', 'ipv6')
+BLOCKED.addSubnet('fc00::', 7, 'ipv6')
+BLOCKED.addSubnet('fe80::', 10, 'ipv6')
+BLOCKED.addSubnet('ff00::', 8, 'ipv6')
+
+// error code for a refused target (checkPublicUrl failure or private DNS answer)
+export const PRIVATE_ADDRESS_ERROR = 'EPRIVATEADDR'
+
+// names that never point to the public internet
+const BLOCKED_HOSTNAME = /(^|\.)(localhost|local|internal|localdomain)$/i
+
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as the IPv4 address
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)
+  if (mapped) return isPrivateAddress(mapped[1])
+
+  const family = net.isIP(address)
+  if (family === 0) return true
+  return BLOCKED.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Why the URL can't be used as a webhook target, or null when it points to
+ * public addresses only. Resolves the hostname, so call it when saving a URL.
+ */
+export async function checkPublicUrl(url: string): Promise<string | null> {
+  let hostname: string
+  try {
+    hostname = new URL(url).hostname.replace(/^\[|\]$/g, '')
+  } catch {
+    return 'Invalid URL'
+  }
+
+  if (BLOCKED_HOSTNAME.test(hostname)) return 'URL must point to a public host'
+
+  if (net.isIP(hostname)) {
+    return isPrivateAddress(hostname) ? 'URL must not point to a private or internal address' : null
+  }
+
+  try {
+    const addresses = await dns.promises.lookup(hostname, { all: true })
+    if (addresses.some((a) => isPrivateAddress(a.address))) {
+      return 'URL must not point to a private or internal address'
+    }
+    return null
+  } catch {
+    return 'URL host could not be resolved'
+  }
+}
+
+/**
+ * Async dns lookup for axios (`lookup` option) that refuses private addresses,
+ * so a hostname re-pointed after it was saved can't reach internal services
+ */
+export async function publicOnlyLookup(hostname: string): Promise<[{ address: string; family: 4 | 6 }[]]> {
+  const addresses = await dns.promises.lookup(hostname, { all: true })
+
+  const blocked = addresses.find((a) => isPrivateAddress(a.address))
+  if (blocked) {
+    const error: NodeJS.ErrnoException = new Error(`${hostname} resolves to private address ${blocked.address}`)
+    error.code = PRIVATE_ADDRESS_ERROR
+    throw error
+  }
+
+  return [addresses.map((a) => ({ address: a.address, family: a.family === 6 ? 6 : 4 }))]
+}
+
+/**
+ * axios options for every POST to a customer-supplied URL. URLs are checked
+ * when saved, but DNS can change since: the URL is checked again here (throws
+ * with code PRIVATE_ADDRESS_ERROR), redirects are not followed and the
+ * connection only goes to public addresses.
+ */
+export async function publicPostOptions(url: string) {
+  const unsafe = await checkPublicUrl(url)
+  if (unsafe) {
+    const error: NodeJS.ErrnoException = new Error(unsafe)
+    error.code = PRIVATE_ADDRESS_ERROR
+    throw error
+  }
+
+  return { maxRedirects: 0, lookup: publicOnlyLookup }
+}
@@ -0,0 +1,139 @@
+import os from "os";
+import type { Job } from "@prisma/client";
+import env from "../config/env";
+import { jobQueueRepository, type JobDeferral } from "../repository/job-queue.repo";
+import { logger } from "../utils/logger";
+
+export type JobHandler = (job: Job) => Promise<void | JobDeferral>;
+
+/**
+ * Pulls leased jobs from the Postgres job table and dispatches them
+ * to registered handlers. A handler that throws causes a retry with
+ * backoff; after maxAttempts the job is dead-lettered. A handler that
+ * returns a JobDeferral is rescheduled without counting an attempt.
+ *
+ * Safe to run on multiple instances at once.
+ */
+export class JobRunner {
+  readonly workerId = `${os.hostname()}:${process.pid}`;
+
+  private handlers = new Map<string, JobHandler>();
+  private pollHandle: NodeJS.Timeout | null = null;
+  private inFlight: Promise<void> | null = null;
+  private stopped = true;
+
+  register(type: string, handler: JobHandler) {
+    this.handlers.set(type, handler);
+  }
+
+  start() {
+    if (!this.stopped) return;
+    this.stopped = false;
+
+    logger.info(`Job runner ${this.workerId} started`, {
+      types: [...this.handlers.keys()],
+    });
+
+    this.schedulePoll(0);
+  }
+
+  async stop() {
+    this.stopped = true;
+
+    if (this.pollHandle) {
+      clearTimeout(this.pollHandle);
+      this.pollHandle = null;
+    }
+
+    // let the current job finish so its lease is released cleanly
+    if (this.inFlight) await this.inFlight;
+
+    logger.info(`Job runner ${this.workerId} stopped`);
+  }
+
+  private schedulePoll(delayMs: number) {
+    if (this.stopped) return;
+
+    this.pollHandle = setTimeout(() => {
+      this.inFlight = this.drain().finally(() => {
+        this.inFlight = null;
+        this.schedulePoll(env.JOB_POLL_INTERVAL_MS);
+      });
+    }, delayMs);
+  }
+
+  /**
+   * Process jobs until the queue has nothing runnable
+   */
+  private async drain() {
+    try {
+      await jobQueueRepository.releaseExpiredLeases();
+
+      while (!this.stopped) {
+        const job = await jobQueueRepository.leaseNext(this.workerId, [...this.handlers.keys()]);
+        if (!job) return;
+
+        await this.run(job);
+      }
+    } catch (err) {
+      logger.error("Job runner poll failed", err);
+    }
+  }
+
+  private async run(job: Job) {
+    const handler = this.handlers.get(job.type);
+
+    // keep the lease alive while the handler works; once it is lost the job
+    // belongs to whoever leased it next and we stop touching it
+    const heartbeat = setInterval(() => {
+      jobQueueRepository
+        .extendLease(job.id, this.workerId)
+        .then(({ count }) => {
+          if (count === 0) {
+            clearInterval(heartbeat);
+            logger.warn(`Lost the lease on job ${job.id} (${job.type}), its result will not be recorded`);
+          }
+        })
+        .catch((err) => {
+          logger.warn(`Failed to extend lease for job ${job.id}`, err);
+        });
+    }, Math.max(1000, Math.floor(env.JOB_LEASE_MS / 2)));
+
+    const leaseLost = () => logger.warn(`Job ${job.id} (${job.type}) finished after losing its lease, nothing recorded`);
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job type ${job.type}`);
+      }
+
+      const result = await handler(job);
+
+      if (result?.deferUntil) {
+        if (!(await jobQueueRepository.defer(job.id, this.workerId, result.deferUntil))) return leaseLost();
+        logger.debug(`Job ${job.id} (${job.type}) deferred until ${result.deferUntil.toISOString()}`);
+        return;
+      }
+
+      if (!(await jobQueueRepository.complete(job.id, this.workerId))) return leaseLost();
+
+      logger.debug(`Job ${job.id} (${job.type}) completed`);
+    } catch (err) {
+      const updated = await jobQueueRepository.fail(job, this.workerId, err);
+
+      if (!updated) {
+        leaseLost();
+      } else if (updated.status === "DEAD") {
+        logger.error(`Job ${job.id} (${job.type}) dead-lettered after ${job.attempts} attempts`, err);
+      } else {
+        logger.warn(`Job ${job.id} (${job.type}) failed, retry at ${updated.runAt.toISOString()}`, {
+          attempt: job.attempts,
+          error: updated.lastError,
+        });
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+}
+
+export const jobRunner = new JobRunner();
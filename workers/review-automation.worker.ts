@@ -1,18 +1,41 @@
-import { ReviewStatus } from "@prisma/client";
+import { AutomationAction, ManualQueueStatus, ReviewStatus, type Job } from "@prisma/client";
 import { reviewsRepository } from "../repository/reviews.repo";
 import { outletsRepository } from "../repository/outlets.repo";
 import { ManualReviewQueueRepository } from "../repository/manual-review-queue.repo";
+import { slaRepository } from "../repository/sla.repo";
+import {
+  escalationPolicyRepository,
+  type ResolvedEscalationPolicy,
+} from "../repository/escalation-policy.repo";
 import { reviewWorkflowRepository, ReviewWorkflowState } from "../repository/review-workflow.repo";
 import { openaiService } from "../integrations/openai";
-import { whatsappService } from "../integrations/whatsapp";
 import { gmbService } from "../integrations/gmb";
 import { logger } from "../utils/logger";
 import { prisma } from "../database";
+import env from "../config/env";
+import { jobQueueRepository, JobType, type JobDeferral } from "../repository/job-queue.repo";
+import { outletSyncStateRepository } from "../repository/outlet-sync-state.repo";
+import { webhookEventRepository } from "../repository/webhook-event.repo";
+import { webhookSubscriptionRepository } from "../repository/webhook-subscription.repo";
+import { automationPolicyService } from "../services/automation-policy.service";
+import { replyApprovalService } from "../services/reply-approval.service";
+import { replyGuardrailService } from "../services/reply-guardrail.service";
+import { reviewAnalysisService } from "../services/review-analysis.service";
+import { escalationPolicyService } from "../services/escalation-policy.service";
+import { escalationService } from "../services/escalation.service";
+import { whatsappReplyService, type WhatsAppReplyJob } from "../services/whatsapp-reply.service";
+import { whatsappDeliveryService } from "../services/whatsapp-delivery.service";
+import { notificationService } from "../services/notification.service";
+import { outboundWebhookService } from "../services/outbound-webhook.service";
+import { deferPastQuietHours, isQuietTime } from "../utils/quiet-hours";
+import { jobRunner } from "./job-runner";
 
 const INTERVAL_MINUTES = 15;
+const COMPLETED_JOB_RETENTION_DAYS = 7;
+// Meta retries undelivered webhooks for up to 7 days
+const WEBHOOK_EVENT_RETENTION_DAYS = 14;
 
-let intervalHandle: NodeJS.Timeout | null = null;
-let lastFetchTime: Date | null = null;
+let schedulerHandle: NodeJS.Timeout | null = null;
 
 const outletRepo = outletsRepository;
 const manualQueueRepo = new ManualReviewQueueRepository(prisma);
@@ -23,7 +46,8 @@ const manualQueueRepo = new ManualReviewQueueRepository(prisma);
  * ============================================================
  * You asked: WhatsApp ONLY template messages must be sent.
  *
- * ✅ Create these templates in Meta WhatsApp Manager:
+ * ✅ Create these templates in Meta WhatsApp Manager
+ *    (one translation per language listed in WHATSAPP_TEMPLATE_LANGUAGES):
  *
  * 1) Template Name: freddie_low_rating_review_v1
  *    Language: en_US
@@ -38,6 +62,9 @@ const manualQueueRepo = new ManualReviewQueueRepository(prisma);
  *    Suggested reply:
  *    {{5}}
  *
+ *    Button: quick reply "Post suggested reply"
+ *    (the owner can also answer the message with their own reply text)
+ *
  *
  * 2) Template Name: freddie_manual_review_reminder_v1
  *    Language: en_US
@@ -49,53 +76,63 @@ const manualQueueRepo = new ManualReviewQueueRepository(prisma);
  *    Customer: {{3}}
  *    Reminder #: {{4}}
  *
- *    Please respond in the dashboard.
+ *    Please respond in the dashboard or reply to this message.
  */
-const WA_TPL_LOW_RATING = "freddie_low_rating_review_v1";
-const WA_TPL_REMINDER = "freddie_manual_review_reminder_v1";
-const WA_LANG = "en_US";
+// Names are exported from integrations/whatsapp.ts; the WhatsApp notification
+// channel sends them (services/notification-channels.ts).
+// Template language follows the review language (see WHATSAPP_TEMPLATE_LANGUAGES)
 
 //
-// -------------- MAIN PERIODIC BATCH ----------------
+// -------------- SCHEDULER ----------------
 //
 
-async function processBatch() {
+/**
+ * Enqueue one fetch job per eligible outlet plus a reminder sweep.
+ * Dedupe keys are bucketed by interval so several instances running
+ * the scheduler at once still produce a single job per outlet.
+ */
+async function scheduleBatch() {
   try {
-    logger.info("Automation: starting review processing batch");
+    logger.info("Automation: scheduling review processing jobs");
+
+    const bucket = Math.floor(Date.now() / (INTERVAL_MINUTES * 60 * 1000));
 
-    await fetchAndProcessGMBReviews();
-    await processManualReviewReminders();
+    await scheduleFetchJobs(bucket);
 
-    lastFetchTime = new Date();
+    await jobQueueRepository.enqueue({
+      type: JobType.PROCESS_REMINDERS,
+      dedupeKey: `reminders:${bucket}`,
+    });
+
+    const cutoff = new Date(Date.now() - COMPLETED_JOB_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    await jobQueueRepository.deleteCompletedBefore(cutoff);
+    await webhookEventRepository.deleteEventsBefore(
+      new Date(Date.now() - WEBHOOK_EVENT_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+    );
+    await webhookSubscriptionRepository.deleteDeliveriesBefore(
+      new Date(Date.now() - env.OUTBOUND_WEBHOOK_LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+    );
 
-    logger.info("Automation: batch complete");
+    logger.info("Automation: jobs scheduled");
   } catch (err) {
-    logger.error("Automation batch failed", err);
+    logger.error("Automation scheduling failed", err);
   }
 }
 
-//
-// -------------- STEP 1: FETCH & CLASSIFY REVIEWS ----------------
-//
-
-async function fetchAndProcessGMBReviews() {
+async function scheduleFetchJobs(bucket: number) {
   const allOutlets = await prisma.outlet.findMany({
     where: {
       apiStatus: "ENABLED",
       onboardingStatus: "COMPLETED",
     },
-    include: {
-      user: {
-        select: {
-          whatsappNumber: true,
-        },
-      },
-      googleIntegration: true,
+    select: {
+      id: true,
+      subscriptionStatus: true,
     },
   });
 
   // CRITICAL: Filter by strict eligibility criteria before polling
-  const eligibleOutlets = allOutlets.filter((outlet: any) => {
+  const eligibleOutlets = allOutlets.filter((outlet) => {
     if (outlet.subscriptionStatus !== "ACTIVE") {
       logger.warn(`Outlet ${outlet.id} subscription not active`);
       return false;
@@ -108,31 +145,91 @@ async function fetchAndProcessGMBReviews() {
   );
 
   for (const outlet of eligibleOutlets) {
-    try {
-      if (!outlet.googleIntegration?.refreshToken || !outlet.googleLocationName) {
-        logger.warn(`Outlet ${outlet.id} missing GMB auth setup`);
-        continue;
-      }
+    await jobQueueRepository.enqueue({
+      type: JobType.FETCH_REVIEWS,
+      outletId: outlet.id,
+      dedupeKey: `fetch:${outlet.id}:${bucket}`,
+    });
+  }
+}
 
-      const newReviews = await gmbService.fetchReviews(
-        outlet.googleLocationName,
-        outlet.googleIntegration.refreshToken,
-        lastFetchTime ?? undefined
-      );
+async function loadOutlet(outletId: string) {
+  return prisma.outlet.findUnique({
+    where: { id: outletId },
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          whatsappNumber: true,
+          phoneNumber: true,
+        },
+      },
+      googleIntegration: true,
+      brandVoice: true,
+    },
+  });
+}
 
-      if (!newReviews?.length) {
-        logger.debug(`No new reviews for outlet ${outlet.id}`);
-        continue;
-      }
+async function loadReview(reviewId: string) {
+  const review = await prisma.review.findUnique({ where: { id: reviewId } });
+  if (!review) return null;
+
+  const outlet = await loadOutlet(review.outletId);
+  if (!outlet) return null;
 
-      logger.info(`Fetched ${newReviews.length} new reviews for outlet ${outlet.id}`);
+  return { review, outlet };
+}
+
+//
+// -------------- STEP 1: FETCH & CLASSIFY REVIEWS ----------------
+//
+
+async function handleFetchReviews(job: Job) {
+  const outlet = await loadOutlet(job.outletId!);
+  if (!outlet) {
+    logger.warn(`Outlet ${job.outletId} no longer exists`);
+    return;
+  }
 
-      for (const r of newReviews) {
-        await processSingleReview(r, outlet);
+  if (!outlet.googleIntegration?.refreshToken || !outlet.googleLocationName) {
+    logger.warn(`Outlet ${outlet.id} missing GMB auth setup`);
+    return;
+  }
+
+  // Per-outlet cursor: a failing outlet never advances another outlet's sync
+  const syncState = await outletSyncStateRepository.getOrCreate(outlet.id);
+  const startedAt = new Date();
+
+  try {
+    const page = await gmbService.fetchReviewsFromCursor(
+      outlet.googleLocationName,
+      outlet.googleIntegration.refreshToken,
+      {
+        since: syncState.lastSyncedAt ?? undefined,
+        pageToken: syncState.lastPageToken,
       }
-    } catch (err) {
-      logger.error(`Error processing outlet ${outlet.id}`, err);
+    );
+
+    if (page.reviews.length) {
+      logger.info(`Fetched ${page.reviews.length} new reviews for outlet ${outlet.id}`);
+    } else {
+      logger.debug(`No new reviews for outlet ${outlet.id}`);
+    }
+
+    for (const r of page.reviews) {
+      await processSingleReview(r, outlet);
     }
+
+    // only advance once every review in this page was ingested
+    await outletSyncStateRepository.recordSuccess(outlet.id, {
+      startedAt,
+      nextPageToken: page.nextPageToken,
+    });
+  } catch (err: any) {
+    await outletSyncStateRepository.recordFailure(outlet.id, err?.message ?? String(err));
+    throw err;
   }
 }
 
@@ -142,150 +239,465 @@ async function fetchAndProcessGMBReviews() {
 
 async function processSingleReview(gmbReview: any, outlet: any) {
   const rating = gmbService.ratingToNumber(gmbReview.starRating);
-
-  // ✅ SAFETY: If already replied in Google, skip fully
-  // (Prevents auto-reply duplicates if manual reply already exists)
-  if (gmbReview?.reviewReply?.comment) {
-    logger.info(`Skipping review ${gmbReview.reviewId} (already has Google reply)`);
-    return;
-  }
+  const googleUpdateTime = new Date(gmbReview.updateTime || gmbReview.createTime);
 
   // idempotency on googleReviewId
   const exists = await prisma.review.findFirst({
     where: { googleReviewId: gmbReview.reviewId },
   });
 
+  // Known review: act on customer edits and replies made on Google
   if (exists) {
-    logger.info(`Review ${gmbReview.reviewId} already processed`);
+    await processReviewEdit(exists, gmbReview, outlet);
+    if (gmbReview?.reviewReply?.comment) {
+      const current = await prisma.review.findUnique({ where: { id: exists.id } });
+      if (current) await syncExternalReply(current, gmbReview.reviewReply);
+    }
     return;
   }
 
-  await prisma.$transaction(async (tx) => {
-    const review = await reviewsRepository.createReview({
+  const customerName = gmbReview?.reviewer?.displayName ?? "Customer";
+  const reviewText = gmbReview?.comment ?? "";
+
+  // Sentiment score, topics, urgency, safety/legal flags (rules can match on them)
+  const analysis = await reviewAnalysisService.analyze({ reviewText, rating }, { outletId: outlet.id });
+
+  // Outlet automation rules decide auto-reply vs manual (defaults to rating >= 4)
+  const decision = await automationPolicyService.evaluate(outlet.id, {
+    rating,
+    reviewText,
+    customerName,
+    analysis,
+  });
+  const autoReply = decision.action === AutomationAction.AUTO_REPLY;
+
+  if (decision.ruleId) {
+    logger.info(`Review ${gmbReview.reviewId} matched rule "${decision.ruleName}" -> ${decision.action}`);
+  }
+
+  const review = await reviewsRepository.createReview({
+    outletId: outlet.id,
+    rating,
+    customerName,
+    reviewText,
+    googleReviewId: gmbReview.reviewId,
+    googleUpdateTime,
+    requiresManual: !autoReply,
+    analysis,
+  });
+
+  // Initialize workflow
+  await reviewWorkflowRepository.createIfNotExists(review.id);
+
+  await outboundWebhookService.reviewCreated(review);
+
+  // ✅ SAFETY: If already replied in Google, import that reply and stop
+  // (Prevents auto-reply duplicates if manual reply already exists)
+  if (gmbReview?.reviewReply?.comment) {
+    logger.info(`Review ${gmbReview.reviewId} already has Google reply, importing`);
+    await syncExternalReply(review, gmbReview.reviewReply);
+    return;
+  }
+
+  if (autoReply) {
+    // 4-5 stars (by default): OpenAI reply directly in Google Reviews
+    await jobQueueRepository.enqueue({
+      type: JobType.GENERATE_AI_REPLY,
       outletId: outlet.id,
-      rating,
-      customerName: gmbReview?.reviewer?.displayName ?? "Customer",
-      reviewText: gmbReview?.comment ?? "",
-      googleReviewId: gmbReview.reviewId,
+      payload: { reviewId: review.id },
+      dedupeKey: `ai-reply:${review.id}`,
     });
+  } else {
+    // <4 stars (by default): WhatsApp template message sent
+    await queueCriticalReview(review, outlet);
+  }
+}
 
-    // Initialize workflow
-    await reviewWorkflowRepository.createIfNotExists(review.id);
+//
+// -------------- STEP 1B: EDITED REVIEWS ----------------
+//
 
-    if (rating >= 4) {
-      // 4-5 stars: OpenAI reply directly in Google Reviews
-      await handlePositiveReview(review, outlet, tx);
-    } else {
-      // <4 stars: WhatsApp template message sent
-      await handleCriticalReview(review, outlet, tx);
-    }
+async function processReviewEdit(existing: any, gmbReview: any, outlet: any) {
+  const rating = gmbService.ratingToNumber(gmbReview.starRating);
+  const reviewText = gmbReview?.comment ?? "";
+  const googleUpdateTime = new Date(gmbReview.updateTime || gmbReview.createTime);
+
+  if (existing.googleUpdateTime && googleUpdateTime <= existing.googleUpdateTime) {
+    logger.info(`Review ${gmbReview.reviewId} already processed`);
+    return;
+  }
+
+  // updateTime also moves when only the owner reply changes. Same text with a
+  // revision at this updateTime = an earlier run recorded it but failed before the end.
+  const unchanged = rating === existing.rating && reviewText === existing.reviewText;
+  const recorded = unchanged ? await reviewsRepository.getRevisionAt(existing.id, googleUpdateTime) : null;
+
+  if (unchanged && !recorded) {
+    await reviewsRepository.setGoogleUpdateTime(existing.id, googleUpdateTime);
+    return;
+  }
+
+  logger.info(`Review ${existing.id} edited on Google (${existing.rating}⭐ -> ${rating}⭐)`);
+
+  const analysis = await reviewAnalysisService.analyze(
+    { reviewText, rating },
+    { outletId: outlet.id, reviewId: existing.id }
+  );
+
+  const revision =
+    recorded ??
+    (await reviewsRepository.recordRevision(existing.id, {
+      rating,
+      reviewText,
+      googleUpdateTime,
+      analysis,
+    }));
+
+  // critical = open (PENDING/ESCALATED) in the manual queue / manual per outlet policy;
+  // an answered (RESPONDED) item no longer counts
+  const queued = await prisma.manualReviewQueue.findUnique({
+    where: { reviewId: existing.id },
+  });
+  const decision = await automationPolicyService.evaluate(outlet.id, {
+    rating,
+    reviewText,
+    customerName: existing.customerName,
+    analysis,
   });
+
+  const wasCritical = !!queued && queued.status !== ManualQueueStatus.RESPONDED;
+  const isCritical = decision.action === AutomationAction.MANUAL_REVIEW;
+
+  // Happy turned critical: owner must look at it again, even if we already replied
+  if (!wasCritical && isCritical) {
+    await reopenAsCritical(existing, outlet, revision.id);
+  }
+
+  // Critical turned happy / same class: keep the current workflow,
+  // the person handling it sees the updated text.
+  if (wasCritical && !isCritical) {
+    logger.info(`Review ${existing.id} improved to ${rating}⭐, keeping manual workflow`);
+  }
+
+  // last: until here a retried fetch handles this edit again
+  await reviewsRepository.setGoogleUpdateTime(existing.id, googleUpdateTime);
+}
+
+/**
+ * Every step is idempotent and the queue item (what makes the review count as
+ * critical) is reopened last, so a retry after a partial run redoes all of it.
+ */
+async function reopenAsCritical(review: any, outlet: any, revisionId: string) {
+  logger.info(`Re-opening review ${review.id} for manual handling`);
+
+  await reviewsRepository.updateReviewStatus(review.id, ReviewStatus.MANUAL_PENDING);
+
+  await reviewWorkflowRepository.createIfNotExists(review.id);
+  await reviewWorkflowRepository.reopen(review.id, await escalationPolicyRepository.getFirstReminderAt(outlet.id));
+
+  await jobQueueRepository.enqueue({
+    type: JobType.SEND_WHATSAPP_ALERT,
+    outletId: outlet.id,
+    payload: { reviewId: review.id },
+    dedupeKey: `wa-alert:${review.id}:${revisionId}`,
+  });
+
+  await manualQueueRepo.reopen(review.id, outlet.id);
+}
+
+//
+// -------------- STEP 1C: REPLIES POSTED DIRECTLY ON GOOGLE ----------------
+//
+
+/**
+ * Import an owner reply written on Google into Freddie.
+ * Returns true when the review was closed as a result.
+ */
+async function syncExternalReply(
+  review: any,
+  reviewReply: { comment: string; updateTime?: string }
+): Promise<boolean> {
+  const replyText = (reviewReply.comment || "").trim();
+  if (!replyText) return false;
+
+  // Our own posted replies come back from Google too
+  const ours = [review.manualReplyText, review.aiReplyText]
+    .filter(Boolean)
+    .map((t: string) => t.trim());
+  if (ours.includes(replyText) && review.status === ReviewStatus.CLOSED) {
+    return false;
+  }
+  if (review.externalReply && review.manualReplyText?.trim() === replyText) {
+    return false;
+  }
+
+  // A reply written before the customer's latest edit doesn't answer it
+  const repliedAt = reviewReply.updateTime ? new Date(reviewReply.updateTime) : null;
+  if (repliedAt && review.googleUpdateTime && repliedAt < review.googleUpdateTime) {
+    return false;
+  }
+
+  if (ours.includes(replyText)) {
+    // Reply we posted, but local state never caught up (e.g. crash before markAsClosed)
+    await reviewsRepository.markAsClosed(review.id);
+  } else {
+    logger.info(`Importing Google reply for review ${review.id}`);
+    await reviewsRepository.importExternalReply(review.id, replyText, repliedAt);
+  }
+
+  await reviewWorkflowRepository.resolveManually(review.id);
+
+  if (!ours.includes(replyText)) {
+    await outboundWebhookService.reviewReplied(review.id, { text: replyText, source: "google" });
+  }
+  return true;
 }
 
 //
 // -------------- STEP 2: POSITIVE REVIEWS (AUTO) ----------------
 //
 
-async function handlePositiveReview(review: any, outlet: any, tx?: any) {
-  try {
-    logger.info(`Auto-handling positive review ${review.id}`);
-
-    const aiReply = await openaiService.generateReply({
-      rating: review.rating,
-      customerName: review.customerName,
-      reviewText: review.reviewText,
-      outletName: outlet.name,
-      storeLocation: outlet.name, // if you have outlet.city/address use it here
-      businessCategory: outlet.category,
-    });
+async function handleGenerateAiReply(job: Job) {
+  const { reviewId } = job.payload as { reviewId: string };
 
-    if (!aiReply) {
-      logger.error(`AI reply generation failed for review ${review.id}`);
-      return;
-    }
+  const loaded = await loadReview(reviewId);
+  if (!loaded) {
+    logger.warn(`Review ${reviewId} no longer exists`);
+    return;
+  }
 
-    // mark workflow state
-    await reviewsRepository.markAsAutoReplied(review.id, aiReply);
-    await reviewWorkflowRepository.updateState(review.id, ReviewWorkflowState.AUTO_REPLIED, tx);
+  const { review, outlet } = loaded;
 
-    // ✅ post reply directly in Google Reviews
-    const posted = await gmbService.postReply(
-      outlet.googleLocationName,
-      review.googleReviewId,
-      aiReply,
-      outlet.googleIntegration.refreshToken
-    );
+  if (review.status !== ReviewStatus.PENDING) {
+    logger.debug(`Review ${review.id} already past AI reply step (${review.status})`);
+    return;
+  }
+
+  logger.info(`Auto-handling positive review ${review.id}`);
+
+  const aiReply = await openaiService.generateReply({
+    rating: review.rating,
+    customerName: review.customerName,
+    reviewText: review.reviewText,
+    outletName: outlet.name,
+    storeLocation: outlet.name, // if you have outlet.city/address use it here
+    businessCategory: outlet.category,
+    voice: outlet.brandVoice,
+    language: review.language,
+  }, { outletId: outlet.id, reviewId: review.id });
+
+  if (!aiReply) {
+    throw new Error(`AI reply generation failed for review ${review.id}`);
+  }
 
-    if (!posted) {
-      logger.error(`Failed to post AI reply for review ${review.id}`);
-      return;
+  // Approval mode: owner approves/edits/rejects the draft in the user app
+  if (outlet.replyApprovalRequired) {
+    await replyApprovalService.holdForApproval(review, aiReply, outlet.autoApproveAfterMinutes);
+    return;
+  }
+
+  // together: a review marked AUTO_REPLIED without its post job would never be posted,
+  // and the workflow state must not drift from the review's
+  await prisma.$transaction(async (tx) => {
+    const wf = await tx.reviewWorkflow.findUnique({ where: { reviewId: review.id } });
+    if (wf?.currentState === ReviewWorkflowState.PENDING) {
+      await reviewWorkflowRepository.updateState(review.id, ReviewWorkflowState.AUTO_REPLIED, tx);
     }
 
-    await reviewsRepository.markAsClosed(review.id);
-    await reviewWorkflowRepository.complete(review.id);
+    await reviewsRepository.markAsAutoReplied(review.id, aiReply, tx);
+    await jobQueueRepository.enqueue(
+      {
+        type: JobType.POST_GMB_REPLY,
+        outletId: outlet.id,
+        payload: { reviewId: review.id },
+        dedupeKey: `post-reply:${review.id}`,
+        restartCompleted: true,
+      },
+      tx
+    );
+  });
+}
 
-    // ✅ IMPORTANT: You requested WhatsApp only for 1-3 ratings.
-    // So no WhatsApp message for positive reviews.
-  } catch (err) {
-    logger.error(`handlePositiveReview failed`, err);
+async function handleAutoApproveReply(job: Job) {
+  const { reviewId } = job.payload as { reviewId: string };
+
+  const review = await prisma.review.findUnique({ where: { id: reviewId } });
+  if (!review || review.status !== ReviewStatus.AWAITING_APPROVAL) {
+    logger.debug(`Review ${reviewId} no longer awaiting approval`);
+    return;
+  }
+
+  await replyApprovalService.approve(review);
+}
+
+async function handlePostGmbReply(job: Job) {
+  const { reviewId } = job.payload as { reviewId: string };
+
+  const loaded = await loadReview(reviewId);
+  if (!loaded) {
+    logger.warn(`Review ${reviewId} no longer exists`);
+    return;
+  }
+
+  const { review, outlet } = loaded;
+
+  // CLOSED = already posted; MANUAL_PENDING = re-opened after an edit
+  if (review.status !== ReviewStatus.AUTO_REPLIED) {
+    logger.debug(`Review ${review.id} not awaiting AI reply post (${review.status})`);
+    return;
   }
+
+  if (!review.aiReplyText || !review.googleReviewId) {
+    logger.warn(`Review ${review.id} has nothing to post`);
+    return;
+  }
+
+  if (!outlet.googleIntegration?.refreshToken || !outlet.googleLocationName) {
+    throw new Error(`Outlet ${outlet.id} missing GMB auth setup`);
+  }
+
+  // Guardrails: regenerate, or hand the review to the owner if the reply still fails
+  const checked = await replyGuardrailService.enforce(review, outlet);
+  if (!checked.ok) {
+    await fallBackToManual(review, outlet, checked.violations.map((v) => v.rule));
+    return;
+  }
+
+  // ✅ post reply directly in Google Reviews
+  const posted = await gmbService.postReply(
+    outlet.googleLocationName,
+    review.googleReviewId,
+    checked.replyText,
+    outlet.googleIntegration.refreshToken
+  );
+
+  if (!posted) {
+    throw new Error(`Failed to post AI reply for review ${review.id}`);
+  }
+
+  await reviewsRepository.markAsClosed(review.id);
+  await reviewWorkflowRepository.complete(review.id);
+
+  await outboundWebhookService.reviewReplied(review.id, { text: checked.replyText, source: "ai" });
+
+  // ✅ IMPORTANT: You requested WhatsApp only for 1-3 ratings.
+  // So no WhatsApp message for positive reviews.
+}
+
+/**
+ * AI reply failed the guardrails: nothing is posted, the owner replies manually
+ */
+async function fallBackToManual(review: any, outlet: any, rules: string[]) {
+  logger.warn(`AI reply for review ${review.id} blocked by guardrails (${rules.join(", ")}), moving to manual queue`);
+
+  await reviewsRepository.updateReviewStatus(review.id, ReviewStatus.MANUAL_PENDING);
+  const queued = await manualQueueRepo.addToQueue(review.id, outlet.id);
+
+  await reviewWorkflowRepository.createIfNotExists(review.id);
+  await reviewWorkflowRepository.reopen(review.id, queued.nextReminderAt ?? new Date());
+
+  await jobQueueRepository.enqueue({
+    type: JobType.SEND_WHATSAPP_ALERT,
+    outletId: outlet.id,
+    payload: { reviewId: review.id },
+    dedupeKey: `wa-alert:${review.id}:guardrail`,
+  });
 }
 
 //
 // -------------- STEP 3: CRITICAL REVIEWS (MANUAL + TEMPLATE WHATSAPP) ----------------
 //
 
-async function handleCriticalReview(review: any, outlet: any, tx?: any) {
-  try {
-    logger.info(`Queuing critical review ${review.id}`);
-
-    await manualQueueRepo.addToQueue(review.id, outlet.id);
-
-    // Calculate first reminder (15 mins from now)
-    const firstReminder = new Date(Date.now() + 15 * 60 * 1000);
-    await reviewWorkflowRepository.moveToManualQueue(review.id, firstReminder, tx);
-
-    // ✅ Send WhatsApp TEMPLATE ONLY
-    if (outlet.user?.whatsappNumber) {
-      // Optional: generate a suggested reply to help owner
-      const suggestedReply = await openaiService.generateReply({
-        rating: review.rating,
-        customerName: review.customerName,
-        reviewText: review.reviewText,
-        outletName: outlet.name,
-        storeLocation: outlet.name,
-        businessCategory: outlet.category,
-      });
-
-      await whatsappService.sendTemplate(
-        outlet.user.whatsappNumber,
-        WA_TPL_LOW_RATING,
-        WA_LANG,
-        [
-          outlet.name,
-          `${review.rating}⭐`,
-          review.customerName,
-          review.reviewText?.slice(0, 250) || "(no message)",
-          (suggestedReply || "").slice(0, 300),
-        ]
-      );
-    }
-  } catch (err) {
-    logger.error(`handleCriticalReview failed`, err);
+async function queueCriticalReview(review: any, outlet: any) {
+  logger.info(`Queuing critical review ${review.id}`);
+
+  const queued = await manualQueueRepo.addToQueue(review.id, outlet.id);
+
+  // first reminder follows the outlet's escalation policy
+  await reviewWorkflowRepository.moveToManualQueue(review.id, queued.nextReminderAt ?? new Date());
+
+  await jobQueueRepository.enqueue({
+    type: JobType.SEND_WHATSAPP_ALERT,
+    outletId: outlet.id,
+    payload: { reviewId: review.id },
+    dedupeKey: `wa-alert:${review.id}`,
+  });
+}
+
+async function handleSendWhatsAppAlert(job: Job): Promise<void | JobDeferral> {
+  const { reviewId } = job.payload as { reviewId: string };
+
+  const loaded = await loadReview(reviewId);
+  if (!loaded) {
+    logger.warn(`Review ${reviewId} no longer exists`);
+    return;
+  }
+
+  const { review, outlet } = loaded;
+
+  if (review.status !== ReviewStatus.MANUAL_PENDING) {
+    logger.debug(`Review ${review.id} no longer pending manual reply (${review.status})`);
+    return;
+  }
+
+  if (!outlet.user) {
+    logger.warn(`No owner for outlet ${outlet.id}`);
+    return;
+  }
+
+  // same quiet hours as reminders; the alert goes out when they end
+  const { quietHours } = await escalationPolicyRepository.resolve(outlet.id);
+  if (isQuietTime(new Date(), quietHours)) {
+    logger.debug(`Low-rating alert for review ${review.id} deferred until after quiet hours`);
+    return { deferUntil: deferPastQuietHours(new Date(), quietHours) };
+  }
+
+  // Optional: generate a suggested reply to help owner
+  // (skipped once the outlet's monthly AI quota is used up)
+  const suggestedReply = await openaiService.generateReply({
+    rating: review.rating,
+    customerName: review.customerName,
+    reviewText: review.reviewText,
+    outletName: outlet.name,
+    storeLocation: outlet.name,
+    businessCategory: outlet.category,
+    voice: outlet.brandVoice,
+    language: review.language,
+  }, { outletId: outlet.id, reviewId: review.id, templateFallback: false });
+
+  // owner's channels in their fallback order (WhatsApp template first by default)
+  const outcome = await notificationService.notify(outlet.user, {
+    kind: "low_rating_alert",
+    review,
+    outletName: outlet.name,
+    suggestedReply,
+  });
+
+  if (!outcome.delivered && outcome.failed) {
+    throw new Error(`Low-rating alert failed for review ${review.id}`);
   }
 }
 
 //
-// -------------- STEP 4: REMINDERS (TEMPLATE WHATSAPP ONLY) ----------------
+// -------------- STEP 4: REMINDERS ----------------
 //
 
 async function processManualReviewReminders() {
+  const breaches = await slaRepository.flagBreaches();
+  if (breaches.firstResponse || breaches.close) {
+    logger.warn(
+      `SLA breached: ${breaches.firstResponse} without first response, ${breaches.close} not closed in time`
+    );
+  }
+
   const due = await manualQueueRepo.getPendingReminders();
 
   if (!due.length) return;
 
   logger.info(`Sending ${due.length} manual-review reminders`);
 
+  const policies = new Map<string, ResolvedEscalationPolicy>();
+
   for (const item of due) {
     try {
       const wf = await reviewWorkflowRepository.getByReviewId(item.reviewId);
@@ -302,39 +714,72 @@ async function processManualReviewReminders() {
         continue;
       }
 
-      const targetUser = item.assignedAdmin ?? item.review.outlet.user;
+      // Owner may have answered directly on Google - stop reminding them
+      if (await repliedOnGoogle(item.review)) {
+        logger.info(`Review ${item.reviewId} answered on Google, reminders stopped`);
+        continue;
+      }
 
-      if (!targetUser?.whatsappNumber) {
-        logger.warn(`No WhatsApp number for outlet ${item.review.outletId}`);
+      let policy = policies.get(item.outletId);
+      if (!policy) {
+        policy = await escalationPolicyRepository.resolve(item.outletId);
+        policies.set(item.outletId, policy);
+      }
 
-        const updated = await manualQueueRepo.updateReminderSent(item.id);
-        if (updated.status === "ESCALATED") {
-          await reviewWorkflowRepository.updateState(item.reviewId, ReviewWorkflowState.ESCALATED);
-          logger.info(`Review ${item.reviewId} escalated (no WhatsApp channel)`);
-        }
+      if (isQuietTime(new Date(), policy.quietHours)) {
+        await manualQueueRepo.deferReminder(item.id, deferPastQuietHours(new Date(), policy.quietHours));
+        logger.debug(`Reminder for review ${item.reviewId} deferred until after quiet hours`);
         continue;
       }
 
-      // ✅ WhatsApp TEMPLATE ONLY reminder
-      await whatsappService.sendTemplate(
-        targetUser.whatsappNumber,
-        WA_TPL_REMINDER,
-        WA_LANG,
-        [
-          item.review.outlet.name,
-          `${item.review.rating}⭐`,
-          item.review.customerName,
-          String(item.reminderCount + 1),
-        ]
-      );
+      const found = await escalationPolicyService.findRecipients(item, policy);
 
-      const updated = await manualQueueRepo.updateReminderSent(item.id);
+      if (!found) {
+        logger.warn(`No reachable escalation target for review ${item.reviewId}`);
+
+        await manualQueueRepo.updateReminderSent(item.id, {
+          reminderCount: item.reminderCount,
+          escalationLevel: item.escalationLevel,
+          nextReminderAt: null,
+          escalated: true,
+        });
+        await reviewWorkflowRepository.updateState(item.reviewId, ReviewWorkflowState.ESCALATED);
+        await escalationService.open(item, "no_recipient");
+        logger.info(`Review ${item.reviewId} escalated (no recipient)`);
+        continue;
+      }
+
+      // targets that can't be reached are skipped; their reminder count starts over
+      const position =
+        found.level === item.escalationLevel
+          ? item
+          : { reminderCount: 0, escalationLevel: found.level };
+
+      // each recipient on their own channels; the ladder advances even when
+      // a read receipt holds a reminder back
+      for (const recipient of found.recipients) {
+        await notificationService.notify(recipient, {
+          kind: "reminder",
+          review: item.review,
+          outletName: item.review.outlet.name,
+          reminderNumber: position.reminderCount + 1,
+        });
+      }
+
+      const updated = await manualQueueRepo.updateReminderSent(
+        item.id,
+        escalationPolicyService.advance(position, policy)
+      );
 
       if (updated.status === "ESCALATED") {
         await reviewWorkflowRepository.updateState(item.reviewId, ReviewWorkflowState.ESCALATED);
+        await escalationService.open(item, "max_reminders");
         logger.info(`Review ${item.reviewId} escalated after max reminders`);
       } else if (updated.nextReminderAt) {
         await reviewWorkflowRepository.incrementReminder(item.reviewId, updated.nextReminderAt);
+        if (updated.escalationLevel !== item.escalationLevel) {
+          logger.info(`Review ${item.reviewId} moved to ${policy.chain[updated.escalationLevel]} on the escalation chain`);
+        }
       }
     } catch (err) {
       logger.error(`Failed to process reminder for item ${item.id}`, err);
@@ -342,6 +787,23 @@ async function processManualReviewReminders() {
   }
 }
 
+async function repliedOnGoogle(review: any): Promise<boolean> {
+  const outlet = review.outlet;
+  if (!review.googleReviewId || !outlet?.googleLocationName || !outlet?.googleIntegration?.refreshToken) {
+    return false;
+  }
+
+  const gmbReview = await gmbService.getReview(
+    outlet.googleLocationName,
+    review.googleReviewId,
+    outlet.googleIntegration.refreshToken
+  );
+
+  if (!gmbReview?.reviewReply?.comment) return false;
+
+  return syncExternalReply(review, gmbReview.reviewReply);
+}
+
 //
 // -------------- START / STOP ----------------
 //
@@ -352,19 +814,39 @@ export async function startAutomation() {
     return;
   }
 
-  if (intervalHandle) return;
+  if (schedulerHandle) return;
 
   logger.info(`Automation worker enabled. Interval: ${INTERVAL_MINUTES} minutes`);
 
-  await processBatch();
+  jobRunner.register(JobType.FETCH_REVIEWS, handleFetchReviews);
+  jobRunner.register(JobType.GENERATE_AI_REPLY, handleGenerateAiReply);
+  jobRunner.register(JobType.AUTO_APPROVE_REPLY, handleAutoApproveReply);
+  jobRunner.register(JobType.POST_GMB_REPLY, handlePostGmbReply);
+  jobRunner.register(JobType.SEND_WHATSAPP_ALERT, handleSendWhatsAppAlert);
+  jobRunner.register(JobType.PROCESS_REMINDERS, () => processManualReviewReminders());
+  jobRunner.register(JobType.SEND_ESCALATION_NOTICE, (job) =>
+    escalationService.notify((job.payload as { escalationId: string }).escalationId)
+  );
+  jobRunner.register(JobType.POST_WHATSAPP_REPLY, (job) =>
+    whatsappReplyService.post(job.payload as unknown as WhatsAppReplyJob)
+  );
+  jobRunner.register(JobType.SEND_WHATSAPP_EMAIL_FALLBACK, (job) =>
+    whatsappDeliveryService.sendEmailFallback((job.payload as { logId: string }).logId)
+  );
+  jobRunner.register(JobType.DELIVER_WEBHOOK, (job) => outboundWebhookService.deliver(job));
+
+  await scheduleBatch();
+  jobRunner.start();
 
-  intervalHandle = setInterval(() => processBatch(), INTERVAL_MINUTES * 60 * 1000);
+  schedulerHandle = setInterval(() => scheduleBatch(), INTERVAL_MINUTES * 60 * 1000);
 }
 
 export async function stopAutomation() {
-  if (intervalHandle) {
-    clearInterval(intervalHandle);
-    intervalHandle = null;
-    logger.info("Automation worker stopped");
-  }
+  if (!schedulerHandle) return;
+
+  clearInterval(schedulerHandle);
+  schedulerHandle = null;
+
+  await jobRunner.stop();
+  logger.info("Automation worker stopped");
 }